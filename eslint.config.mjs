@@ -9,6 +9,7 @@ export default [
             ".vscode/**",
             ".tmp/**",
             "jest.config.js",
+            "scripts/**",
             "tests/**"
         ]
     },
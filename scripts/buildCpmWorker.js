@@ -0,0 +1,64 @@
+// buildCpmWorker.js
+// Bundles src/cpmWorker.ts and the engine modules it imports into one
+// self-contained script, written to src/cpmWorkerSource.ts as a string that
+// the visual starts the worker from. Run with `npm run build:worker` after
+// changing any module the worker imports.
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.resolve(__dirname, '..');
+const entry = path.join(root, 'src', 'cpmWorker.ts');
+const target = path.join(root, 'src', 'cpmWorkerSource.ts');
+
+// Just enough of an AMD loader for the modules tsc concatenates into one file
+const prelude = `const definitions = {};
+const modules = {};
+function define(name, deps, factory) { definitions[name] = { deps, factory }; }
+function load(name) {
+    if (name in modules) return modules[name];
+    const definition = definitions[name];
+    if (!definition) throw new Error("Module not bundled: " + name);
+    const exports = modules[name] = {};
+    definition.factory(...definition.deps.map(dep => dep === "require" ? load : dep === "exports" ? exports : load(dep)));
+    return exports;
+}`;
+
+/** The worker script: the bundled modules, then the worker entry point started on the global scope */
+function buildCpmWorkerSource() {
+    let bundle = null;
+    const program = ts.createProgram([entry], {
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.AMD,
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+        lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+        rootDir: path.join(root, 'src'),
+        outFile: 'cpmWorker.js',
+        removeComments: true,
+        skipLibCheck: true,
+        types: []
+    });
+    const emitted = program.emit(undefined, (fileName, text) => { bundle = text; });
+    const diagnostics = ts.getPreEmitDiagnostics(program).concat(emitted.diagnostics);
+    if (diagnostics.length > 0) {
+        throw new Error(ts.formatDiagnostics(diagnostics, {
+            getCanonicalFileName: name => name,
+            getCurrentDirectory: () => root,
+            getNewLine: () => '\n'
+        }));
+    }
+    return `(function (self) {\n${prelude}\n${bundle.trim()}\nload("cpmWorker").cpmWorkerMain(self);\n})(self);\n`;
+}
+
+/** The generated module holding the worker script */
+function buildCpmWorkerModule() {
+    return `// cpmWorkerSource.ts\n// Generated by scripts/buildCpmWorker.js from src/cpmWorker.ts and its imports; do not edit.\n` +
+        `export const CPM_WORKER_SOURCE = ${JSON.stringify(buildCpmWorkerSource())};\n`;
+}
+
+if (require.main === module) {
+    fs.writeFileSync(target, buildCpmWorkerModule());
+    console.log(`Wrote ${path.relative(root, target)}`);
+}
+
+module.exports = { buildCpmWorkerSource, buildCpmWorkerModule };
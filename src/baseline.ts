@@ -0,0 +1,26 @@
+// baseline.ts
+import { WorkCalendar } from './calendar';
+
+export interface SlippedMilestone {
+    id: string;
+    name: string;
+    finishVariance: number;   // Working days later than the baseline
+}
+
+/**
+ * Working days between a baseline date and its current date, both given as
+ * schedule times. Positive means the current date is later than planned.
+ * Returns null when either date is missing.
+ */
+export function baselineVariance(baseline: number | null, current: number | null, calendar: WorkCalendar): number | null {
+    if (baseline === null || current === null || !isFinite(baseline) || !isFinite(current)) return null;
+    return calendar.workDaysBetween(baseline, current);
+}
+
+/** The milestones that slipped the most, worst first; on-time and early ones are left out */
+export function rankSlippedMilestones(milestones: SlippedMilestone[], count: number): SlippedMilestone[] {
+    return milestones
+        .filter(m => m.finishVariance > 0)
+        .sort((a, b) => b.finishVariance - a.finishVariance || a.name.localeCompare(b.name))
+        .slice(0, Math.max(0, Math.floor(count)));
+}
@@ -0,0 +1,294 @@
+// calendar.ts
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Epoch day 0 (1970-01-01) was a Thursday
+const EPOCH_WEEKDAY = 4;
+
+export interface CalendarDefinition {
+    workWeek: boolean[];   // Indexed Sunday (0) .. Saturday (6)
+    holidays: number[];    // Non-working days as local epoch day numbers
+}
+
+export const STANDARD_WORK_WEEK: boolean[] = [false, true, true, true, true, true, false];
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Converts a date to a whole-day number in local time so that weekday and
+ * holiday checks are not shifted by the viewer's UTC offset.
+ */
+export function toLocalDayNumber(date: Date): number {
+    return (date.getTime() - date.getTimezoneOffset() * 60000) / DAY_MS;
+}
+
+export function fromLocalDayNumber(day: number): Date {
+    const utc = new Date(day * DAY_MS);
+    return new Date(utc.getTime() + utc.getTimezoneOffset() * 60000);
+}
+
+/** Parses one ISO date (YYYY-MM-DD) into a local epoch day number, or null */
+export function parseDayNumber(text: string | null | undefined): number | null {
+    const match = (text || "").trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : Math.floor(toLocalDayNumber(date));
+}
+
+/**
+ * Parses a comma/semicolon/newline separated list of ISO dates (YYYY-MM-DD)
+ * into local epoch day numbers. Invalid entries are ignored.
+ */
+export function parseHolidayList(text: string | null | undefined): number[] {
+    if (!text) return [];
+    const days: number[] = [];
+    text.split(/[,;\n]/).forEach(part => {
+        const day = parseDayNumber(part);
+        if (day !== null) days.push(day);
+    });
+    return days;
+}
+
+/**
+ * Parses a work week such as "Mon-Fri" or "Sun,Mon,Tue" into a Sunday-first
+ * flag array. Returns null when nothing recognisable is found.
+ */
+export function parseWorkWeek(text: string | null | undefined): boolean[] | null {
+    if (!text) return null;
+    const week = [false, false, false, false, false, false, false];
+    let found = false;
+    text.split(/[,\s]+/).forEach(part => {
+        const token = part.trim().toLowerCase();
+        if (!token) return;
+        const range = token.split("-");
+        const from = WEEKDAY_NAMES.indexOf(range[0].slice(0, 3));
+        const to = range.length > 1 ? WEEKDAY_NAMES.indexOf(range[1].slice(0, 3)) : from;
+        if (from === -1 || to === -1) return;
+        for (let i = from; ; i = (i + 1) % 7) {
+            week[i] = true;
+            found = true;
+            if (i === to) break;
+        }
+    });
+    return found ? week : null;
+}
+
+/**
+ * Maps schedule time (days relative to a base day) onto cumulative working
+ * time. A calendar with every day working and no holidays is the identity,
+ * which keeps the CPM passes unchanged when no calendar is configured.
+ */
+export class WorkCalendar {
+    private readonly workWeek: boolean[];
+    private readonly holidays: number[];
+    private readonly weekPrefix: number[] = [];
+    private readonly daysPerWeek: number;
+    private readonly baseWork: number;
+    readonly isContinuous: boolean;
+
+    constructor(definition: CalendarDefinition | null | undefined, private readonly baseDay: number = 0) {
+        const week = definition?.workWeek && definition.workWeek.length === 7 ? definition.workWeek : null;
+        this.workWeek = week && week.some(d => d) ? week.slice() : [true, true, true, true, true, true, true];
+        this.daysPerWeek = this.workWeek.filter(d => d).length;
+
+        // Only holidays on working weekdays remove time from the calendar
+        const unique = new Set<number>();
+        (definition?.holidays || []).forEach(h => {
+            const day = Math.floor(h);
+            if (this.workWeek[this.weekday(day)]) unique.add(day);
+        });
+        this.holidays = Array.from(unique).sort((a, b) => a - b);
+
+        this.weekPrefix.push(0);
+        for (let i = 0; i < 7; i++) {
+            this.weekPrefix.push(this.weekPrefix[i] + (this.workWeek[(EPOCH_WEEKDAY + i) % 7] ? 1 : 0));
+        }
+
+        this.isContinuous = this.daysPerWeek === 7 && this.holidays.length === 0;
+        this.baseWork = this.isContinuous ? 0 : this.workDaysBefore(Math.floor(baseDay)) +
+            (this.isWorkingDay(Math.floor(baseDay)) ? baseDay - Math.floor(baseDay) : 0);
+    }
+
+    isWorkingDay(day: number): boolean {
+        return this.workWeek[this.weekday(day)] && !this.isHoliday(day);
+    }
+
+    /** Cumulative working days between the base day and time t */
+    toWorkTime(t: number): number {
+        if (this.isContinuous) return t;
+        const abs = this.baseDay + t;
+        const day = Math.floor(abs);
+        const partial = this.isWorkingDay(day) ? abs - day : 0;
+        return this.workDaysBefore(day) + partial - this.baseWork;
+    }
+
+    /**
+     * Inverse of toWorkTime. Whole working-day boundaries are ambiguous across
+     * non-working spans: starts resolve to the beginning of the next working
+     * day, finishes to the end of the previous one.
+     */
+    fromWorkTime(w: number, atFinish: boolean): number {
+        if (this.isContinuous) return w;
+        const target = w + this.baseWork;
+        const whole = Math.floor(target);
+        const fraction = target - whole;
+        if (fraction === 0 && atFinish) {
+            return this.nthWorkingDay(whole - 1) + 1 - this.baseDay;
+        }
+        return this.nthWorkingDay(whole) + fraction - this.baseDay;
+    }
+
+    addWorkDays(t: number, days: number, atFinish: boolean): number {
+        if (this.isContinuous) return t + days;
+        return this.fromWorkTime(this.toWorkTime(t) + days, atFinish);
+    }
+
+    workDaysBetween(from: number, to: number): number {
+        if (this.isContinuous) return to - from;
+        return this.toWorkTime(to) - this.toWorkTime(from);
+    }
+
+    private weekday(day: number): number {
+        return (((day % 7) + 7) % 7 + EPOCH_WEEKDAY) % 7;
+    }
+
+    private isHoliday(day: number): boolean {
+        return this.countHolidaysBefore(day + 1) - this.countHolidaysBefore(day) > 0;
+    }
+
+    private countHolidaysBefore(day: number): number {
+        let lo = 0;
+        let hi = this.holidays.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.holidays[mid] < day) lo = mid + 1; else hi = mid;
+        }
+        return lo;
+    }
+
+    /** Working days in [epoch day 0, day), negative for days before the epoch */
+    private workDaysBefore(day: number): number {
+        const weeks = Math.floor(day / 7);
+        const rem = day - weeks * 7;
+        return weeks * this.daysPerWeek + this.weekPrefix[rem] - this.countHolidaysBefore(day);
+    }
+
+    /** The working day d for which workDaysBefore(d) === n */
+    private nthWorkingDay(n: number): number {
+        let lo = Math.floor(n / this.daysPerWeek) * 7 - 7;
+        let hi = Math.ceil((n + 1) / this.daysPerWeek) * 7 + 7;
+        while (this.workDaysBefore(lo + 1) > n) lo -= 7 * (this.holidays.length + 1);
+        while (this.workDaysBefore(hi + 1) <= n) hi += 7 * (this.holidays.length + 1);
+        // Smallest d with workDaysBefore(d + 1) > n
+        while (lo < hi) {
+            const mid = Math.floor((lo + hi) / 2);
+            if (this.workDaysBefore(mid + 1) > n) hi = mid; else lo = mid + 1;
+        }
+        return lo;
+    }
+}
+
+/**
+ * Earliest start a relationship allows for its successor. Lags are counted on
+ * the predecessor's calendar and the successor's duration on its own.
+ */
+export function successorStartFromRelationship(
+    relType: string, lag: number,
+    predStart: number, predFinish: number, succDuration: number,
+    predCalendar: WorkCalendar, succCalendar: WorkCalendar
+): number {
+    switch (relType) {
+        case 'SS':
+            return succCalendar.addWorkDays(predCalendar.addWorkDays(predStart, lag, false), 0, false);
+        case 'FF':
+            return succCalendar.addWorkDays(predCalendar.addWorkDays(predFinish, lag, true), -succDuration, false);
+        case 'SF':
+            return succCalendar.addWorkDays(predCalendar.addWorkDays(predStart, lag, true), -succDuration, false);
+        case 'FS':
+        default:
+            return succCalendar.addWorkDays(predCalendar.addWorkDays(predFinish, lag, false), 0, false);
+    }
+}
+
+/**
+ * Latest finish a relationship allows for its predecessor, given the
+ * successor's (late) start and finish.
+ */
+export function predecessorFinishFromRelationship(
+    relType: string, lag: number,
+    succStart: number, succFinish: number, predDuration: number,
+    predCalendar: WorkCalendar
+): number {
+    switch (relType) {
+        case 'SS':
+            return predCalendar.addWorkDays(predCalendar.addWorkDays(succStart, -lag, false), predDuration, true);
+        case 'FF':
+            return predCalendar.addWorkDays(succFinish, -lag, true);
+        case 'SF':
+            return predCalendar.addWorkDays(predCalendar.addWorkDays(succFinish, -lag, false), predDuration, true);
+        case 'FS':
+        default:
+            return predCalendar.addWorkDays(succStart, -lag, true);
+    }
+}
+
+/**
+ * Parses named calendar definitions such as "6-Day: Mon-Sat; 7-Day: Sun-Sat".
+ * Entries are separated by semicolons or new lines; every named calendar
+ * shares the supplied holiday list. Names are matched case-insensitively.
+ */
+export function parseCalendarDefinitions(text: string | null | undefined, holidays: number[]): { [name: string]: CalendarDefinition } {
+    const definitions: { [name: string]: CalendarDefinition } = {};
+    if (!text) return definitions;
+    text.split(/[;\n]/).forEach(entry => {
+        const separator = entry.indexOf(":");
+        if (separator === -1) return;
+        const name = normalizeCalendarName(entry.slice(0, separator));
+        const workWeek = parseWorkWeek(entry.slice(separator + 1));
+        if (name && workWeek) definitions[name] = { workWeek, holidays };
+    });
+    return definitions;
+}
+
+export function normalizeCalendarName(name: string | null | undefined): string {
+    return (name || "").trim().toLowerCase();
+}
+
+export type CalendarResolver = (name?: string | null) => WorkCalendar;
+
+/**
+ * Returns a lookup from calendar name to WorkCalendar. Unknown or missing
+ * names fall back to the project calendar. Instances are built once per name.
+ */
+export function createCalendarResolver(
+    projectCalendar: CalendarDefinition | null | undefined,
+    namedCalendars: { [name: string]: CalendarDefinition } | null | undefined,
+    baseDay: number = 0
+): CalendarResolver {
+    const fallback = new WorkCalendar(projectCalendar, baseDay);
+    const cache = new Map<string, WorkCalendar>();
+    return (name?: string | null) => {
+        const key = normalizeCalendarName(name);
+        if (!key || !namedCalendars || !namedCalendars[key]) return fallback;
+        let calendar = cache.get(key);
+        if (!calendar) {
+            calendar = new WorkCalendar(namedCalendars[key], baseDay);
+            cache.set(key, calendar);
+        }
+        return calendar;
+    };
+}
+
+/**
+ * Working days the predecessor can slip before it delays this successor,
+ * measured on the predecessor's calendar.
+ */
+export function relationshipSlack(
+    relType: string, lag: number,
+    predFinish: number, predDuration: number,
+    succStart: number, succFinish: number,
+    predCalendar: WorkCalendar
+): number {
+    const allowedFinish = predecessorFinishFromRelationship(relType, lag, succStart, succFinish, predDuration, predCalendar);
+    return predCalendar.workDaysBetween(predFinish, allowedFinish);
+}
@@ -0,0 +1,64 @@
+// constraints.ts
+import { WorkCalendar } from './calendar';
+
+export type ConstraintType = 'SNET' | 'SNLT' | 'FNET' | 'FNLT' | 'MSO' | 'MFO' | 'ALAP';
+
+/** Reported as the violated constraint when relationship logic, not a date constraint, is broken */
+export const LOGIC_VIOLATION = 'Logic';
+
+/** Reported as the violated constraint when a task finishes after a required finish date */
+export const REQUIRED_FINISH = 'Required Finish';
+
+// Accepts the short codes plus common long names and Primavera P6 codes
+const CONSTRAINT_ALIASES: { [key: string]: ConstraintType } = {
+    'SNET': 'SNET', 'STARTNOEARLIERTHAN': 'SNET', 'STARTONORAFTER': 'SNET', 'CS_MSOA': 'SNET',
+    'SNLT': 'SNLT', 'STARTNOLATERTHAN': 'SNLT', 'STARTONORBEFORE': 'SNLT', 'CS_MSOB': 'SNLT',
+    'FNET': 'FNET', 'FINISHNOEARLIERTHAN': 'FNET', 'FINISHONORAFTER': 'FNET', 'CS_MEOA': 'FNET',
+    'FNLT': 'FNLT', 'FINISHNOLATERTHAN': 'FNLT', 'FINISHONORBEFORE': 'FNLT', 'CS_MEOB': 'FNLT',
+    'MSO': 'MSO', 'MUSTSTARTON': 'MSO', 'STARTON': 'MSO', 'CS_MSO': 'MSO', 'CS_MANDSTART': 'MSO',
+    'MFO': 'MFO', 'MUSTFINISHON': 'MFO', 'FINISHON': 'MFO', 'CS_MEO': 'MFO', 'CS_MANDFIN': 'MFO',
+    'ALAP': 'ALAP', 'ASLATEASPOSSIBLE': 'ALAP', 'CS_ALAP': 'ALAP'
+};
+
+export function normalizeConstraintType(value: unknown): ConstraintType | null {
+    if (value === null || value === undefined) return null;
+    const raw = String(value).trim().toUpperCase();
+    const key = raw.startsWith('CS_') ? raw : raw.replace(/[\s_-]/g, '');
+    return CONSTRAINT_ALIASES[key] || null;
+}
+
+/**
+ * Earliest start a constraint allows, or null when the constraint only
+ * limits the late dates. Dates are in the same time base as the task.
+ */
+export function constraintEarliestStart(type: string | null | undefined, date: number | null | undefined, duration: number, calendar: WorkCalendar): number | null {
+    if (date === null || date === undefined || isNaN(date)) return null;
+    switch (type) {
+        case 'SNET':
+        case 'MSO':
+            return date;
+        case 'FNET':
+        case 'MFO':
+            return calendar.addWorkDays(date, -duration, false);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Latest finish a constraint allows, or null when the constraint only
+ * limits the early dates.
+ */
+export function constraintLatestFinish(type: string | null | undefined, date: number | null | undefined, duration: number, calendar: WorkCalendar): number | null {
+    if (date === null || date === undefined || isNaN(date)) return null;
+    switch (type) {
+        case 'SNLT':
+        case 'MSO':
+            return calendar.addWorkDays(date, duration, true);
+        case 'FNLT':
+        case 'MFO':
+            return date;
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,72 @@
+// cpmCache.ts
+import { CpmInput, CpmResponse } from './cpmEngine';
+
+// Traced results kept per schedule; the oldest is dropped first
+const MAX_CACHED_VARIANTS = 64;
+
+/**
+ * 64-bit content hash (two independent 32-bit FNV-1a passes) as hex. Not
+ * cryptographic; only used to tell whether a schedule has changed.
+ */
+export function contentHash(text: string): string {
+    let a = 0x811c9dc5;
+    let b = 0x01000193 ^ text.length;
+    for (let i = 0; i < text.length; i++) {
+        const c = text.charCodeAt(i);
+        a = Math.imul(a ^ c, 0x01000193);
+        b = Math.imul(b ^ c, 0x5bd1e995);
+    }
+    return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Hash of everything the analysis depends on except the trace and the risk
+ * simulation, which select a variant of the same schedule's results.
+ */
+export function hashCpmInput(input: CpmInput): string {
+    const { trace, monteCarlo, ...schedule } = input;
+    return contentHash(JSON.stringify(schedule));
+}
+
+/** Which result of a schedule is wanted: the whole network (with its simulation) or one trace */
+export function cpmVariantKey(input: CpmInput): string {
+    return input.trace
+        ? `trace:${input.trace.direction}:${input.trace.sourceId ? `${input.trace.sourceId}:` : ''}${input.trace.targetId}`
+        : `full:${JSON.stringify(input.monteCarlo ?? null)}`;
+}
+
+/**
+ * CPM results for the most recent schedule, keyed by content hash. A
+ * different hash discards everything cached for the previous schedule.
+ */
+export class CpmResultCache {
+    private scheduleHash: string | null = null;
+    private variants = new Map<string, CpmResponse>();
+
+    get(scheduleHash: string, variant: string): CpmResponse | null {
+        if (scheduleHash !== this.scheduleHash) return null;
+        const response = this.variants.get(variant);
+        if (!response) return null;
+        // Most recently used last
+        this.variants.delete(variant);
+        this.variants.set(variant, response);
+        return response;
+    }
+
+    set(scheduleHash: string, variant: string, response: CpmResponse): void {
+        if (scheduleHash !== this.scheduleHash) {
+            this.scheduleHash = scheduleHash;
+            this.variants.clear();
+        }
+        this.variants.delete(variant);
+        this.variants.set(variant, response);
+        if (this.variants.size > MAX_CACHED_VARIANTS) {
+            this.variants.delete(this.variants.keys().next().value!);
+        }
+    }
+
+    clear(): void {
+        this.scheduleHash = null;
+        this.variants.clear();
+    }
+}
@@ -0,0 +1,699 @@
+// cpmEngine.ts
+import { CalendarDefinition, WorkCalendar, createCalendarResolver, relationshipSlack, successorStartFromRelationship, predecessorFinishFromRelationship } from './calendar';
+import { LOGIC_VIOLATION, REQUIRED_FINISH, constraintEarliestStart, constraintLatestFinish } from './constraints';
+import { CriticalityMode, findPathBetween, findProjectFinishTasks, traceDrivingPath } from './longestPath';
+import { MonteCarloOptions, MonteCarloResult, MonteCarloRun, startMonteCarlo } from './monteCarlo';
+import { ProgressFields, ProgressStatus, applyProgress } from './progress';
+import { MilestoneKind, isSpanTaskType, milestoneKind, spanDates } from './taskTypes';
+
+export type CpmMode = 'schedule' | 'unconstrained';
+
+export interface CpmTask extends ProgressFields {
+    internalId: string;
+    start: number;
+    finish: number;
+    duration?: number | null;          // Planned work days for unconstrained mode; defaults to start..finish
+    predecessorIds: string[];
+    relationshipTypes: { [predId: string]: string };
+    relationshipLags: { [predId: string]: number | null };
+    calendar?: string | null;          // Name of the task's calendar; project calendar when unset
+    taskType?: string | null;          // P6 task type; LOE, WBS and hammock tasks span their linked tasks, milestones have one date
+    constraintType?: string | null;    // SNET, SNLT, FNET, FNLT, MSO, MFO or ALAP
+    constraintDate?: number | null;    // Same time base as start/finish
+    requiredFinish?: number | null;    // Deadline the task must finish by, e.g. a contract date on the target milestone
+    optimisticDuration?: number | null;   // Three-point estimate for risk simulation
+    mostLikelyDuration?: number | null;
+    pessimisticDuration?: number | null;
+}
+
+export interface CpmRelationship {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    freeFloat: number | null;
+    lag: number | null;
+    isCritical?: boolean;
+    isDriving?: boolean;
+}
+
+/**
+ * Limits criticality to the logic leading to (backward) or following from
+ * (forward) one task, or to the logic connecting two tasks (between)
+ */
+export interface CpmTrace {
+    targetId: string;
+    direction: 'backward' | 'forward' | 'between';
+    sourceId?: string;                 // Start of a 'between' trace; targetId is its end
+}
+
+export interface CpmInput {
+    tasks: CpmTask[];
+    relationships: CpmRelationship[];
+    floatTolerance: number;
+    floatThreshold: number;
+    unconstrainedMode?: boolean;
+    baseDay?: number;                  // Local epoch day that schedule time 0 refers to
+    calendar?: CalendarDefinition | null;
+    calendars?: { [name: string]: CalendarDefinition };
+    criticalityMode?: CriticalityMode;  // Defaults to total float
+    nearCriticalBasis?: 'totalFloat' | 'freeFloat';
+    monteCarlo?: MonteCarloOptions | null;   // Run a schedule risk simulation alongside the analysis
+    dataDate?: number | null;          // Status date: remaining work is scheduled from here
+    requiredFinish?: number | null;    // Project deadline: open ends must finish by it instead of by the forecast finish
+    trace?: CpmTrace | null;
+}
+
+export interface CpmTaskResult {
+    internalId: string;
+    duration: number;                  // Work days the analysis scheduled (remaining work once started)
+    earlyStart: number;
+    earlyFinish: number;
+    lateStart: number;
+    lateFinish: number;
+    totalFloat: number;
+    freeFloat: number;
+    violatesConstraints: boolean;
+    violatedConstraint: string | null; // Constraint type, or 'Logic' for a broken relationship
+    isCritical: boolean;
+    isCriticalByFloat: boolean;
+    isCriticalByRel: boolean;
+    isNearCritical: boolean;
+}
+
+export interface CpmRelationshipResult {
+    predecessorId: string;
+    successorId: string;
+    isCritical: boolean;
+    isDriving: boolean;                // Zero relationship free float: controls the successor's start
+}
+
+export interface CpmResult {
+    tasks: CpmTaskResult[];
+    relationships: CpmRelationshipResult[];
+}
+
+export interface CpmResponse extends CpmResult {
+    monteCarlo: MonteCarloResult | null;
+}
+
+interface CpmNode extends CpmTaskResult {
+    task: CpmTask;
+    workCalendar: WorkCalendar;
+    progress: ProgressStatus;
+    isSpan: boolean;
+    milestone: MilestoneKind | null;
+    // Schedule mode: the window the logic and constraints allow around the data dates
+    earliestReqStart: number;
+    earliestReqSource: string | null;
+    latestReqFinish: number;
+    latestReqSource: string | null;
+    // Unconstrained mode
+    isStarted: boolean;
+    isMandatory: boolean;
+    logicStart: number;                // Latest start any predecessor asks for
+    constraintFinish: number | null;
+}
+
+interface CpmNetwork {
+    input: CpmInput;
+    nodes: CpmNode[];
+    nodeMap: Map<string, CpmNode>;
+    relationships: CpmRelationship[];  // Only links between known tasks, neither of them a span task
+    spanLinks: CpmRelationship[];      // Links that place span tasks; they never drive other work
+    successors: Map<string, string[]>;
+    order: string[];                   // Topological; span tasks and tasks caught in a loop are left out
+}
+
+/**
+ * The steps that differ between scheduling modes. Everything else - the
+ * topological order, free float, driving links, criticality, longest path
+ * and tracing - is shared.
+ */
+interface CpmModeHandler {
+    /** Early dates and the duration before any logic is applied */
+    initialize(node: CpmNode, input: CpmInput): void;
+    /** Applies one predecessor's logic to its successor in the forward pass */
+    forward(succ: CpmNode, requiredStart: number): void;
+    /** Late dates (or required finishes) from the successors, latest first */
+    backward(network: CpmNetwork): void;
+    /** Total float, late dates and constraint violations of an unfinished task */
+    assignFloat(node: CpmNode, tolerance: number): void;
+}
+
+/**
+ * Schedule-based: the data dates are kept and measured against the window
+ * their logic and constraints allow.
+ */
+const scheduleMode: CpmModeHandler = {
+    initialize(node, input) {
+        const t = node.task;
+        const progressed = applyProgress(t.start, t.finish, t, input.dataDate ?? null, node.workCalendar);
+        const { status } = progressed;
+        // A milestone's one date is its start or its finish, whatever the other column holds
+        const start = node.milestone === 'finish' ? progressed.finish : progressed.start;
+        const finish = node.milestone === 'start' ? progressed.start : progressed.finish;
+        node.progress = status;
+        node.duration = node.workCalendar.workDaysBetween(start, finish);
+        node.earlyStart = node.lateStart = start;
+        node.earlyFinish = node.lateFinish = finish;
+        // Date constraints seed the required window; logic may tighten it further
+        const constraintStart = constraintEarliestStart(t.constraintType, t.constraintDate, node.duration, node.workCalendar);
+        const constraintFinish = constraintLatestFinish(t.constraintType, t.constraintDate, node.duration, node.workCalendar);
+        const startLimited = status === 'notStarted' && constraintStart !== null && constraintStart > start;
+        const finishLimited = status !== 'completed' && constraintFinish !== null && constraintFinish < finish;
+        node.earliestReqStart = startLimited ? constraintStart! : start;
+        node.earliestReqSource = startLimited ? t.constraintType! : null;
+        node.latestReqFinish = finishLimited ? constraintFinish! : finish;
+        node.latestReqSource = finishLimited ? t.constraintType! : null;
+    },
+    forward(succ, requiredStart) {
+        // Started work is not checked against its predecessors (out-of-sequence progress)
+        if (succ.progress === 'notStarted' && requiredStart > succ.earliestReqStart) {
+            succ.earliestReqStart = requiredStart;
+            succ.earliestReqSource = LOGIC_VIOLATION;
+        }
+    },
+    backward(network) {
+        const projectDeadline = network.input.requiredFinish ?? Infinity;
+        for (let i = network.order.length - 1; i >= 0; i--) {
+            const node = network.nodeMap.get(network.order[i])!;
+            const succs = network.successors.get(node.internalId) || [];
+            if (node.progress === 'completed') continue;
+            // Required finishes: the task's own, and the project's on open ends
+            const deadline = Math.min(node.task.requiredFinish ?? Infinity, succs.length === 0 ? projectDeadline : Infinity);
+            if (deadline < node.latestReqFinish) {
+                node.latestReqFinish = deadline;
+                node.latestReqSource = REQUIRED_FINISH;
+            }
+            if (succs.length === 0) continue;
+            // Successors are held to their latest allowed dates, so a deadline shortfall reaches the whole chain
+            let minFinish = Infinity;
+            let minSource: string | null = null;
+            for (const succId of succs) {
+                const succ = network.nodeMap.get(succId)!;
+                const { type, lag } = linkOf(succ, node.internalId);
+                const latestStart = succ.progress === 'notStarted'
+                    ? succ.workCalendar.addWorkDays(succ.latestReqFinish, -succ.duration, false)
+                    : succ.earlyStart;
+                const finish = predecessorFinishFromRelationship(type, lag, latestStart, succ.latestReqFinish, node.duration, node.workCalendar);
+                if (finish < minFinish) {
+                    minFinish = finish;
+                    minSource = succ.latestReqSource;
+                }
+            }
+            if (minFinish < node.latestReqFinish) {
+                node.latestReqFinish = minFinish;
+                node.latestReqSource = minSource ?? LOGIC_VIOLATION;
+            }
+        }
+    },
+    assignFloat(node, tolerance) {
+        const calendar = node.workCalendar;
+        const startSlack = calendar.workDaysBetween(node.earliestReqStart, node.earlyStart);
+        const finishSlack = calendar.workDaysBetween(node.earlyFinish, node.latestReqFinish);
+        node.totalFloat = Math.min(startSlack, finishSlack);
+        node.lateFinish = calendar.addWorkDays(node.earlyFinish, Math.max(0, node.totalFloat), true);
+        node.lateStart = calendar.addWorkDays(node.lateFinish, -node.duration, false);
+        node.violatesConstraints = node.totalFloat < -tolerance;
+        if (node.violatesConstraints) {
+            node.violatedConstraint = (startSlack <= finishSlack ? node.earliestReqSource : node.latestReqSource) || LOGIC_VIOLATION;
+        }
+        // Negative float is critical too: late work stays on the path that makes it late
+        node.isCriticalByFloat = node.totalFloat <= tolerance;
+        pinMilestone(node);
+    }
+};
+
+/**
+ * Unconstrained: a classic forward and backward pass from the project start
+ * (or data date), ignoring the data dates of unstarted work.
+ */
+const unconstrainedMode: CpmModeHandler = {
+    initialize(node, input) {
+        const t = node.task;
+        const dataDate = input.dataDate ?? null;
+        const calendar = node.workCalendar;
+        const progressed = applyProgress(t.start, t.finish, t, dataDate, calendar);
+        node.progress = progressed.status;
+        // Started work keeps its actual start; nothing else starts before the data date
+        node.isStarted = progressed.status !== 'notStarted';
+        node.duration = node.milestone ? 0
+            : !node.isStarted && t.duration != null && isFinite(t.duration)
+            ? Math.max(0, t.duration)
+            : calendar.workDaysBetween(progressed.start, progressed.finish);
+        node.isMandatory = t.constraintType === 'MSO' || t.constraintType === 'MFO';
+        node.constraintFinish = constraintLatestFinish(t.constraintType, t.constraintDate, node.duration, calendar);
+        const constraintStart = constraintEarliestStart(t.constraintType, t.constraintDate, node.duration, calendar);
+        const projectStart = calendar.addWorkDays(dataDate === null ? 0 : Math.max(0, dataDate), 0, false);
+        node.earlyStart = node.isStarted ? progressed.start
+            : constraintStart === null ? projectStart
+            : node.isMandatory ? constraintStart : Math.max(projectStart, constraintStart);
+        node.earlyFinish = calendar.addWorkDays(node.earlyStart, node.duration, true);
+        pinMilestone(node);
+    },
+    forward(succ, requiredStart) {
+        succ.logicStart = Math.max(succ.logicStart, requiredStart);
+        // Mandatory constraints and actual starts hold their date even when logic pushes past it
+        if (!succ.isMandatory && !succ.isStarted) {
+            succ.earlyStart = Math.max(succ.earlyStart, requiredStart);
+            succ.earlyFinish = succ.workCalendar.addWorkDays(succ.earlyStart, succ.duration, true);
+            pinMilestone(succ);
+        }
+    },
+    backward(network) {
+        const { nodeMap, successors, order } = network;
+        const projectEnd = projectFinishOf(network.nodes);
+        // Open ends are due at the required finish when one is set, so late work shows negative float
+        const dueFinish = network.input.requiredFinish ?? projectEnd;
+
+        // ALAP tasks are delayed by their free float, latest successors first
+        for (let i = order.length - 1; i >= 0; i--) {
+            const node = nodeMap.get(order[i])!;
+            if (node.task.constraintType !== 'ALAP' || node.isStarted) continue;
+            let allowedFinish = projectEnd;
+            for (const succId of successors.get(node.internalId) || []) {
+                const succ = nodeMap.get(succId)!;
+                const { type, lag } = linkOf(succ, node.internalId);
+                allowedFinish = Math.min(allowedFinish, predecessorFinishFromRelationship(type, lag, succ.earlyStart, succ.earlyFinish, node.duration, node.workCalendar));
+            }
+            if (allowedFinish > node.earlyFinish) {
+                node.earlyFinish = allowedFinish;
+                node.earlyStart = node.workCalendar.addWorkDays(allowedFinish, -node.duration, false);
+                pinMilestone(node);
+            }
+        }
+
+        for (let i = order.length - 1; i >= 0; i--) {
+            const node = nodeMap.get(order[i])!;
+            if (node.progress === 'completed') {
+                node.lateStart = node.earlyStart;
+                node.lateFinish = node.earlyFinish;
+                continue;
+            }
+            const succs = successors.get(node.internalId) || [];
+            let lateFinish = succs.length === 0 ? dueFinish : Infinity;
+            for (const succId of succs) {
+                const succ = nodeMap.get(succId)!;
+                const { type, lag } = linkOf(succ, node.internalId);
+                lateFinish = Math.min(lateFinish, predecessorFinishFromRelationship(type, lag, succ.lateStart, succ.lateFinish, node.duration, node.workCalendar));
+            }
+            lateFinish = Math.min(lateFinish, node.task.requiredFinish ?? Infinity);
+            if (node.constraintFinish !== null && (node.isMandatory || node.constraintFinish < lateFinish)) {
+                lateFinish = node.constraintFinish;
+            }
+            node.lateFinish = lateFinish;
+            node.lateStart = node.workCalendar.addWorkDays(lateFinish, -node.duration, false);
+            pinMilestone(node);
+        }
+    },
+    assignFloat(node, tolerance) {
+        const calendar = node.workCalendar;
+        node.totalFloat = calendar.workDaysBetween(node.earlyStart, node.lateStart);
+        const brokenByLogic = node.isMandatory && node.logicStart > node.earlyStart && calendar.workDaysBetween(node.earlyStart, node.logicStart) > tolerance;
+        const finishTooLate = node.constraintFinish !== null && calendar.workDaysBetween(node.constraintFinish, node.earlyFinish) > tolerance;
+        node.violatesConstraints = brokenByLogic || finishTooLate;
+        node.violatedConstraint = node.violatesConstraints ? node.task.constraintType! : null;
+        // Late constraints can drive float negative; those tasks are the most critical
+        node.isCriticalByFloat = node.totalFloat <= tolerance;
+    }
+};
+
+const MODES: { [mode in CpmMode]: CpmModeHandler } = {
+    schedule: scheduleMode,
+    unconstrained: unconstrainedMode
+};
+
+/**
+ * Gives a milestone one date: start milestones keep their start and finish
+ * milestones their finish. On a working calendar the two differ across a
+ * non-working span (a finish milestone on Friday evening, a start milestone on
+ * Monday morning), and every link type reads that one date.
+ */
+function pinMilestone(node: CpmNode): void {
+    if (node.milestone === 'start') {
+        node.earlyFinish = node.earlyStart;
+        node.lateFinish = node.lateStart;
+    } else if (node.milestone === 'finish') {
+        node.earlyStart = node.earlyFinish;
+        node.lateStart = node.lateFinish;
+    }
+}
+
+function linkOf(succ: CpmNode, predId: string): { type: string; lag: number } {
+    return { type: succ.task.relationshipTypes[predId] || 'FS', lag: succ.task.relationshipLags[predId] ?? 0 };
+}
+
+function projectFinishOf(nodes: CpmNode[]): number {
+    return nodes.reduce((max, n) => n.isSpan ? max : Math.max(max, n.earlyFinish), -Infinity);
+}
+
+function buildNetwork(input: CpmInput, mode: CpmModeHandler): CpmNetwork {
+    const resolveCalendar = createCalendarResolver(input.calendar, input.calendars, input.baseDay ?? 0);
+    const nodes: CpmNode[] = input.tasks.map(task => {
+        const node: CpmNode = {
+            task,
+            internalId: task.internalId,
+            workCalendar: resolveCalendar(task.calendar),
+            progress: 'notStarted',
+            isSpan: isSpanTaskType(task.taskType),
+            milestone: milestoneKind(task.taskType),
+            duration: 0,
+            earlyStart: task.start,
+            earlyFinish: task.finish,
+            lateStart: 0,
+            lateFinish: 0,
+            totalFloat: 0,
+            freeFloat: 0,
+            violatesConstraints: false,
+            violatedConstraint: null,
+            isCritical: false,
+            isCriticalByFloat: false,
+            isCriticalByRel: false,
+            isNearCritical: false,
+            earliestReqStart: task.start,
+            earliestReqSource: null,
+            latestReqFinish: task.finish,
+            latestReqSource: null,
+            isStarted: false,
+            isMandatory: false,
+            logicStart: -Infinity,
+            constraintFinish: null
+        };
+        mode.initialize(node, input);
+        return node;
+    });
+
+    const nodeMap = new Map<string, CpmNode>();
+    nodes.forEach(n => nodeMap.set(n.internalId, n));
+
+    const known = input.relationships.filter(rel => nodeMap.has(rel.predecessorId) && nodeMap.has(rel.successorId));
+    const touchesSpan = (rel: CpmRelationship) => nodeMap.get(rel.predecessorId)!.isSpan || nodeMap.get(rel.successorId)!.isSpan;
+    const relationships = known.filter(rel => !touchesSpan(rel));
+    const spanLinks = known.filter(touchesSpan);
+    const successors = new Map<string, string[]>();
+    const inDegree = new Map<string, number>();
+    nodes.forEach(n => { if (!n.isSpan) inDegree.set(n.internalId, 0); });
+    relationships.forEach(rel => {
+        if (!successors.has(rel.predecessorId)) successors.set(rel.predecessorId, []);
+        successors.get(rel.predecessorId)!.push(rel.successorId);
+        inDegree.set(rel.successorId, inDegree.get(rel.successorId)! + 1);
+    });
+
+    // Kahn's algorithm
+    const order: string[] = [];
+    inDegree.forEach((d, id) => { if (d === 0) order.push(id); });
+    for (let head = 0; head < order.length; head++) {
+        for (const succId of successors.get(order[head]) || []) {
+            const remaining = inDegree.get(succId)! - 1;
+            inDegree.set(succId, remaining);
+            if (remaining === 0) order.push(succId);
+        }
+    }
+
+    return { input, nodes, nodeMap, relationships, spanLinks, successors, order };
+}
+
+function forwardPass(network: CpmNetwork, mode: CpmModeHandler): void {
+    for (const id of network.order) {
+        const pred = network.nodeMap.get(id)!;
+        for (const succId of network.successors.get(id) || []) {
+            const succ = network.nodeMap.get(succId)!;
+            const { type, lag } = linkOf(succ, id);
+            mode.forward(succ, successorStartFromRelationship(type, lag, pred.earlyStart, pred.earlyFinish, succ.duration, pred.workCalendar, succ.workCalendar));
+        }
+    }
+}
+
+/**
+ * Free float: how far each task can slip before it delays the early dates of
+ * any successor. Open ends are measured against the project finish.
+ */
+function assignFreeFloat(network: CpmNetwork): void {
+    const projectFinish = projectFinishOf(network.nodes);
+    network.nodes.forEach(node => {
+        if (node.isSpan) return;
+        const succs = network.successors.get(node.internalId) || [];
+        let freeFloat = succs.length === 0 ? node.workCalendar.workDaysBetween(node.earlyFinish, projectFinish) : Infinity;
+        for (const succId of succs) {
+            const succ = network.nodeMap.get(succId)!;
+            const { type, lag } = linkOf(succ, node.internalId);
+            freeFloat = Math.min(freeFloat, relationshipSlack(type, lag, node.earlyFinish, node.duration, succ.earlyStart, succ.earlyFinish, node.workCalendar));
+        }
+        node.freeFloat = freeFloat;
+    });
+}
+
+/** Completed work has no float and is never critical or in violation */
+function markCompleted(node: CpmNode): void {
+    node.lateStart = node.earlyStart;
+    node.lateFinish = node.earlyFinish;
+    node.totalFloat = 0;
+    node.freeFloat = 0;
+    node.violatesConstraints = false;
+    node.violatedConstraint = null;
+    node.isCriticalByFloat = false;
+    node.isNearCritical = false;
+    node.isCriticalByRel = false;
+}
+
+/**
+ * Level-of-effort, WBS summary and hammock tasks run from their earliest
+ * predecessor to their latest successor. They have no float of their own and
+ * are never critical.
+ */
+function assignSpans(network: CpmNetwork): void {
+    const linked = (ids: (rel: CpmRelationship) => [string, string], node: CpmNode) => network.spanLinks
+        .filter(rel => ids(rel)[0] === node.internalId)
+        .map(rel => {
+            const other = network.nodeMap.get(ids(rel)[1])!;
+            return { type: rel.type || 'FS', lag: rel.lag ?? 0, start: other.earlyStart, finish: other.earlyFinish };
+        });
+    network.nodes.forEach(node => {
+        if (!node.isSpan) return;
+        const predecessors = linked(rel => [rel.successorId, rel.predecessorId], node);
+        const successors = linked(rel => [rel.predecessorId, rel.successorId], node);
+        const { start, finish } = spanDates(predecessors, successors, { start: node.earlyStart, finish: node.earlyFinish }, node.workCalendar);
+        node.earlyStart = node.lateStart = start;
+        node.earlyFinish = node.lateFinish = finish;
+        node.duration = node.workCalendar.workDaysBetween(start, finish);
+        node.totalFloat = node.freeFloat = Infinity;
+        node.violatesConstraints = false;
+        node.violatedConstraint = null;
+        node.isCriticalByFloat = false;
+        node.isNearCritical = false;
+    });
+}
+
+/**
+ * Marks the driving links (zero relationship free float) and the critical
+ * ones between critical tasks. Returns the driving links out of unfinished
+ * work, which the longest path follows.
+ */
+function classifyRelationships(network: CpmNetwork): CpmRelationship[] {
+    const tolerance = network.input.floatTolerance;
+    const drivingRels: CpmRelationship[] = [];
+    network.input.relationships.forEach(rel => {
+        const pred = network.nodeMap.get(rel.predecessorId);
+        const succ = network.nodeMap.get(rel.successorId);
+        if (!pred || !succ || pred.isSpan || succ.isSpan) {
+            rel.isCritical = false;
+            rel.isDriving = false;
+            return;
+        }
+        if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) {
+            // Completed work stays off the critical path
+            rel.isDriving = rel.freeFloat <= tolerance;
+            rel.isCritical = rel.isDriving && pred.progress !== 'completed';
+            if (rel.isCritical) drivingRels.push(rel);
+        } else {
+            const required = successorStartFromRelationship(rel.type || 'FS', rel.lag || 0, pred.earlyStart, pred.earlyFinish, succ.duration, pred.workCalendar, succ.workCalendar);
+            rel.isDriving = Math.abs(succ.workCalendar.workDaysBetween(required, succ.earlyStart)) <= tolerance;
+            if (rel.isDriving && pred.progress !== 'completed') drivingRels.push(rel);
+            rel.isCritical = rel.isDriving && pred.isCriticalByFloat && succ.isCriticalByFloat;
+        }
+    });
+    return drivingRels;
+}
+
+/**
+ * The trace target and every task linked to it in the trace direction. A
+ * trace between two tasks keeps those on paths from the source to the target.
+ */
+function traceTaskIds(network: CpmNetwork, trace: CpmTrace): Set<string> {
+    const reach = (startId: string, direction: 'backward' | 'forward') => {
+        const next = new Map<string, string[]>();
+        network.relationships.forEach(rel => {
+            const [from, to] = direction === 'backward' ? [rel.successorId, rel.predecessorId] : [rel.predecessorId, rel.successorId];
+            if (!next.has(from)) next.set(from, []);
+            next.get(from)!.push(to);
+        });
+        const reached = new Set<string>([startId]);
+        const stack = [startId];
+        while (stack.length) {
+            for (const id of next.get(stack.pop()!) || []) {
+                if (!reached.has(id)) {
+                    reached.add(id);
+                    stack.push(id);
+                }
+            }
+        }
+        return reached;
+    };
+    if (trace.direction !== 'between') return reach(trace.targetId, trace.direction);
+    const downstream = reach(trace.sourceId!, 'forward');
+    return new Set(Array.from(reach(trace.targetId, 'backward')).filter(id => downstream.has(id)));
+}
+
+/** Relationship free float in the predecessor's working days, from the data when given */
+function slackOf(network: CpmNetwork, rel: CpmRelationship): number {
+    if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) return rel.freeFloat;
+    const pred = network.nodeMap.get(rel.predecessorId)!;
+    const succ = network.nodeMap.get(rel.successorId)!;
+    return relationshipSlack(rel.type || 'FS', rel.lag || 0, pred.earlyFinish, pred.duration, succ.earlyStart, succ.earlyFinish, pred.workCalendar);
+}
+
+function toResult(node: CpmNode): CpmTaskResult {
+    return {
+        internalId: node.internalId,
+        duration: node.duration,
+        earlyStart: node.earlyStart,
+        earlyFinish: node.earlyFinish,
+        lateStart: node.lateStart,
+        lateFinish: node.lateFinish,
+        totalFloat: node.totalFloat,
+        freeFloat: node.freeFloat,
+        violatesConstraints: node.violatesConstraints,
+        violatedConstraint: node.violatedConstraint,
+        isCritical: node.isCritical,
+        isCriticalByFloat: node.isCriticalByFloat,
+        isCriticalByRel: node.isCriticalByRel,
+        isNearCritical: node.isNearCritical
+    };
+}
+
+/**
+ * Runs the critical path analysis in the requested mode. Floats are always
+ * those of the whole network; a trace only limits which tasks and links can
+ * be critical, and always marks the target critical.
+ */
+export function runCpm(input: CpmInput): CpmResult {
+    const mode = MODES[input.unconstrainedMode ? 'unconstrained' : 'schedule'];
+    const tolerance = input.floatTolerance;
+    const network = buildNetwork(input, mode);
+
+    forwardPass(network, mode);
+    mode.backward(network);
+    assignFreeFloat(network);
+    assignSpans(network);
+
+    network.nodes.forEach(node => {
+        if (node.isSpan) return;
+        if (node.progress === 'completed') {
+            markCompleted(node);
+            return;
+        }
+        mode.assignFloat(node, tolerance);
+        const nearFloat = input.nearCriticalBasis === 'freeFloat' ? node.freeFloat : node.totalFloat;
+        node.isNearCritical = !node.isCriticalByFloat && !node.violatesConstraints && nearFloat > tolerance && nearFloat <= input.floatThreshold;
+    });
+
+    let drivingRels = classifyRelationships(network);
+    const trace = input.trace && network.nodeMap.has(input.trace.targetId) &&
+        (input.trace.direction !== 'between' || network.nodeMap.has(input.trace.sourceId ?? '')) ? input.trace : null;
+    const traced = trace ? traceTaskIds(network, trace) : null;
+    if (traced) {
+        network.nodes.forEach(node => {
+            if (traced.has(node.internalId)) return;
+            node.isCriticalByFloat = false;
+            node.isNearCritical = false;
+        });
+        network.relationships.forEach(rel => {
+            if (!traced.has(rel.predecessorId) || !traced.has(rel.successorId)) rel.isCritical = false;
+        });
+        drivingRels = drivingRels.filter(rel => traced.has(rel.predecessorId) && traced.has(rel.successorId));
+    }
+
+    network.relationships.forEach(rel => {
+        if (!rel.isCritical) return;
+        network.nodeMap.get(rel.predecessorId)!.isCriticalByRel = true;
+        network.nodeMap.get(rel.successorId)!.isCriticalByRel = true;
+    });
+    network.nodes.forEach(node => { node.isCritical = node.isCriticalByFloat || node.isCriticalByRel; });
+
+    if (trace?.direction === 'between') {
+        // The longest path between the two tasks is their critical path, whatever the criticality mode
+        const links = network.relationships
+            .filter(rel => traced!.has(rel.predecessorId) && traced!.has(rel.successorId))
+            .map(rel => ({ rel, predecessorId: rel.predecessorId, successorId: rel.successorId, slack: slackOf(network, rel) }));
+        const path = findPathBetween(trace.sourceId!, trace.targetId, links);
+        const pathRels = new Set(path ? Array.from(path.links, link => link.rel) : []);
+        network.nodes.forEach(node => {
+            node.isCriticalByRel = !!path && path.taskIds.has(node.internalId);
+            node.isCritical = node.isCriticalByRel;
+            if (node.isCritical) node.isNearCritical = false;
+        });
+        input.relationships.forEach(rel => { rel.isCritical = pathRels.has(rel); });
+    } else if (input.criticalityMode === 'longestPath') {
+        // P6 "Longest Path": the driving path back from the project finish, or to/from the trace target
+        const seeds = trace ? [trace.targetId] : findProjectFinishTasks(network.nodes.filter(n => !n.isSpan), tolerance);
+        const path = traceDrivingPath(seeds, drivingRels, trace ? trace.direction : 'backward');
+        network.nodes.forEach(node => {
+            node.isCriticalByRel = path.taskIds.has(node.internalId);
+            node.isCritical = node.isCriticalByRel;
+            if (node.isCritical) node.isNearCritical = false;
+        });
+        input.relationships.forEach(rel => { rel.isCritical = path.links.has(rel); });
+    }
+
+    if (trace && trace.direction !== 'between') {
+        const target = network.nodeMap.get(trace.targetId)!;
+        target.isCritical = true;
+        target.isNearCritical = false;
+    }
+
+    return {
+        tasks: network.nodes.map(toResult),
+        relationships: input.relationships.map(rel => ({
+            predecessorId: rel.predecessorId,
+            successorId: rel.successorId,
+            isCritical: !!rel.isCritical,
+            isDriving: !!rel.isDriving
+        }))
+    };
+}
+
+export function analyzeSchedule(input: CpmInput): CpmResult {
+    return runCpm({ ...input, unconstrainedMode: false });
+}
+
+export function analyzeUnconstrained(input: CpmInput): CpmResult {
+    return runCpm({ ...input, unconstrainedMode: true });
+}
+
+/**
+ * Monte Carlo schedule risk analysis: repeats the forward pass with sampled
+ * three-point durations.
+ */
+export function simulateSchedule(input: CpmInput, options: MonteCarloOptions): MonteCarloResult {
+    const run = startScheduleSimulation(input, options);
+    run.step(run.iterations);
+    return run.result();
+}
+
+/** The same simulation, to be run a batch of iterations at a time */
+export function startScheduleSimulation(input: CpmInput, options: MonteCarloOptions): MonteCarloRun {
+    const resolveCalendar = createCalendarResolver(input.calendar, input.calendars, input.baseDay ?? 0);
+    // Span tasks only follow the work they are linked to, so they stay out of the sampled network
+    const spanIds = new Set(input.tasks.filter(t => isSpanTaskType(t.taskType)).map(t => t.internalId));
+    const tasks = spanIds.size === 0 ? input.tasks : input.tasks
+        .filter(t => !spanIds.has(t.internalId))
+        .map(t => ({ ...t, predecessorIds: t.predecessorIds.filter(id => !spanIds.has(id)) }));
+    return startMonteCarlo(tasks, resolveCalendar, options, input.floatTolerance, input.dataDate ?? null);
+}
+
+/** Everything one CPM request asks for; the worker and the main-thread fallback both answer with this */
+export function handleCpmRequest(input: CpmInput): CpmResponse {
+    const result = runCpm(input);
+    const monteCarlo = input.monteCarlo && input.tasks.length > 0 ? simulateSchedule(input, input.monteCarlo) : null;
+    return { ...result, monteCarlo };
+}
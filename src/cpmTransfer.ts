@@ -0,0 +1,184 @@
+// cpmTransfer.ts
+import { CpmInput, CpmResponse, CpmTask, CpmTaskResult } from './cpmEngine';
+
+/**
+ * Schedules at least this large are sent to and from the worker as typed
+ * arrays, whose buffers are transferred rather than copied.
+ */
+export const PACKED_TASK_THRESHOLD = 2000;
+
+// Numeric task fields, in packing order; missing values are stored as NaN
+const TASK_FIELDS = [
+    'start', 'finish', 'duration', 'constraintDate', 'requiredFinish',
+    'percentComplete', 'actualStart', 'actualFinish', 'remainingDuration',
+    'optimisticDuration', 'mostLikelyDuration', 'pessimisticDuration'
+] as const;
+
+const RESULT_FIELDS = ['duration', 'earlyStart', 'earlyFinish', 'lateStart', 'lateFinish', 'totalFloat', 'freeFloat'] as const;
+
+const RESULT_FLAGS = ['violatesConstraints', 'isCritical', 'isCriticalByFloat', 'isCriticalByRel', 'isNearCritical'] as const;
+
+export interface PackedCpmInput {
+    packed: true;
+    options: Omit<CpmInput, 'tasks' | 'relationships'>;
+    ids: string[];                     // Task ids, then ids that only links refer to
+    taskCount: number;
+    taskNumbers: Float64Array;         // TASK_FIELDS per task
+    calendars: (string | null)[];
+    taskTypes: (string | null)[];
+    constraintTypes: (string | null)[];
+    links: Int32Array;                 // Predecessor and successor index into ids, per link
+    linkTypes: Uint8Array;             // Index into linkTypeNames
+    linkTypeNames: string[];
+    linkNumbers: Float64Array;         // Lag and free float per link
+}
+
+export interface PackedCpmResponse {
+    packed: true;
+    taskNumbers: Float64Array;         // RESULT_FIELDS per task, in input order
+    taskFlags: Uint8Array;             // RESULT_FLAGS bits per task
+    violatedConstraints: (string | null)[];
+    linkFlags: Uint8Array;             // Bit 0 critical, bit 1 driving, in input order
+    monteCarlo: CpmResponse['monteCarlo'];
+}
+
+export function isPacked<T>(message: T | { packed: true }): message is { packed: true } {
+    return (message as { packed?: boolean }).packed === true;
+}
+
+const toNumber = (value: number | null | undefined) => value === null || value === undefined ? NaN : value;
+const fromNumber = (value: number) => isNaN(value) ? null : value;
+
+/** Typed-array form of a CPM request; each task's predecessors are rebuilt from the links */
+export function packCpmInput(input: CpmInput): PackedCpmInput {
+    const { tasks, relationships, ...options } = input;
+    const ids = tasks.map(t => t.internalId);
+    const indexById = new Map<string, number>();
+    ids.forEach((id, i) => indexById.set(id, i));
+    const indexOf = (id: string) => {
+        if (!indexById.has(id)) {
+            indexById.set(id, ids.length);
+            ids.push(id);
+        }
+        return indexById.get(id)!;
+    };
+
+    const taskNumbers = new Float64Array(tasks.length * TASK_FIELDS.length);
+    tasks.forEach((task, i) => {
+        TASK_FIELDS.forEach((field, f) => { taskNumbers[i * TASK_FIELDS.length + f] = toNumber(task[field]); });
+    });
+
+    const linkTypeNames: string[] = [];
+    const links = new Int32Array(relationships.length * 2);
+    const linkTypes = new Uint8Array(relationships.length);
+    const linkNumbers = new Float64Array(relationships.length * 2);
+    relationships.forEach((rel, i) => {
+        links[i * 2] = indexOf(rel.predecessorId);
+        links[i * 2 + 1] = indexOf(rel.successorId);
+        let typeIndex = linkTypeNames.indexOf(rel.type);
+        if (typeIndex < 0) typeIndex = linkTypeNames.push(rel.type) - 1;
+        linkTypes[i] = typeIndex;
+        linkNumbers[i * 2] = toNumber(rel.lag);
+        linkNumbers[i * 2 + 1] = toNumber(rel.freeFloat);
+    });
+
+    return {
+        packed: true,
+        options,
+        ids,
+        taskCount: tasks.length,
+        taskNumbers,
+        calendars: tasks.map(t => t.calendar ?? null),
+        taskTypes: tasks.map(t => t.taskType ?? null),
+        constraintTypes: tasks.map(t => t.constraintType ?? null),
+        links,
+        linkTypes,
+        linkTypeNames,
+        linkNumbers
+    };
+}
+
+export function unpackCpmInput(packed: PackedCpmInput): CpmInput {
+    const tasks: CpmTask[] = [];
+    for (let i = 0; i < packed.taskCount; i++) {
+        const task: CpmTask = {
+            internalId: packed.ids[i],
+            start: 0,
+            finish: 0,
+            predecessorIds: [],
+            relationshipTypes: {},
+            relationshipLags: {},
+            calendar: packed.calendars[i],
+            taskType: packed.taskTypes[i],
+            constraintType: packed.constraintTypes[i]
+        };
+        TASK_FIELDS.forEach((field, f) => { task[field] = fromNumber(packed.taskNumbers[i * TASK_FIELDS.length + f])!; });
+        tasks.push(task);
+    }
+
+    const relationships = Array.from(packed.linkTypes, (typeIndex, i) => {
+        const predecessorId = packed.ids[packed.links[i * 2]];
+        const successorIndex = packed.links[i * 2 + 1];
+        const rel = {
+            predecessorId,
+            successorId: packed.ids[successorIndex],
+            type: packed.linkTypeNames[typeIndex],
+            lag: fromNumber(packed.linkNumbers[i * 2]),
+            freeFloat: fromNumber(packed.linkNumbers[i * 2 + 1])
+        };
+        const successor = tasks[successorIndex];
+        if (successor) {
+            successor.predecessorIds.push(predecessorId);
+            successor.relationshipTypes[predecessorId] = rel.type;
+            successor.relationshipLags[predecessorId] = rel.lag;
+        }
+        return rel;
+    });
+
+    return { ...packed.options, tasks, relationships };
+}
+
+/** Typed-array form of a CPM response; task and link results keep the request's order */
+export function packCpmResponse(response: CpmResponse): PackedCpmResponse {
+    const taskNumbers = new Float64Array(response.tasks.length * RESULT_FIELDS.length);
+    const taskFlags = new Uint8Array(response.tasks.length);
+    response.tasks.forEach((task, i) => {
+        RESULT_FIELDS.forEach((field, f) => { taskNumbers[i * RESULT_FIELDS.length + f] = task[field]; });
+        RESULT_FLAGS.forEach((flag, bit) => { if (task[flag]) taskFlags[i] |= 1 << bit; });
+    });
+    return {
+        packed: true,
+        taskNumbers,
+        taskFlags,
+        violatedConstraints: response.tasks.map(t => t.violatedConstraint),
+        linkFlags: Uint8Array.from(response.relationships, rel => (rel.isCritical ? 1 : 0) | (rel.isDriving ? 2 : 0)),
+        monteCarlo: response.monteCarlo
+    };
+}
+
+/** Rebuilds a packed response against the request it answers */
+export function unpackCpmResponse(packed: PackedCpmResponse, request: Pick<CpmInput, 'tasks' | 'relationships'>): CpmResponse {
+    return {
+        tasks: request.tasks.map((task, i) => {
+            const result = { internalId: task.internalId, violatedConstraint: packed.violatedConstraints[i] } as CpmTaskResult;
+            RESULT_FIELDS.forEach((field, f) => { result[field] = packed.taskNumbers[i * RESULT_FIELDS.length + f]; });
+            RESULT_FLAGS.forEach((flag, bit) => { result[flag] = (packed.taskFlags[i] & (1 << bit)) !== 0; });
+            return result;
+        }),
+        relationships: request.relationships.map((rel, i) => ({
+            predecessorId: rel.predecessorId,
+            successorId: rel.successorId,
+            isCritical: (packed.linkFlags[i] & 1) !== 0,
+            isDriving: (packed.linkFlags[i] & 2) !== 0
+        })),
+        monteCarlo: packed.monteCarlo
+    };
+}
+
+/** Buffers to hand over with postMessage instead of copying */
+export function transferablesOf(message: PackedCpmInput | PackedCpmResponse): ArrayBuffer[] {
+    const arrays = 'links' in message
+        ? [message.taskNumbers, message.links, message.linkTypes, message.linkNumbers]
+        : [message.taskNumbers, message.taskFlags, message.linkFlags];
+    return arrays.map(a => a.buffer as ArrayBuffer);
+}
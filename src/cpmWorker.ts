@@ -1,351 +1,115 @@
-export interface WorkerTask {
-    internalId: string;
-    start: number;
-    finish: number;
-    predecessorIds: string[];
-    relationshipTypes: { [predId: string]: string };
-    relationshipLags: { [predId: string]: number | null };
+import { CpmInput, CpmResponse, runCpm, startScheduleSimulation } from './cpmEngine';
+import { CriticalPathTestResult, criticalPathTester } from './dcma';
+import { PackedCpmInput, PackedCpmResponse, isPacked, packCpmResponse, transferablesOf, unpackCpmInput } from './cpmTransfer';
+
+// The analysis lives in the shared engine so the main-thread fallback gives identical results
+export type {
+    CpmTask as WorkerTask,
+    CpmRelationship as WorkerRelationship,
+    CpmInput as WorkerInput,
+    CpmTaskResult as WorkerTaskResult,
+    CpmRelationshipResult as WorkerRelationshipResult
+} from './cpmEngine';
+export { analyzeSchedule, analyzeUnconstrained, simulateSchedule } from './cpmEngine';
+
+export type CpmStage = 'analysis' | 'simulation' | 'pathTest';
+
+/** Messages to the worker; every run carries a request id that its replies echo */
+export type CpmWorkerRequest =
+    | { type: 'run'; requestId: number; input: CpmInput | PackedCpmInput }
+    | { type: 'pathTest'; requestId: number; input: CpmInput; taskIds: string[]; delay: number }
+    | { type: 'cancel'; requestId: number };
+
+export type CpmWorkerReply =
+    | { type: 'progress'; requestId: number; stage: CpmStage; fraction: number }
+    | { type: 'result'; requestId: number; result: CpmResponse | PackedCpmResponse }
+    | { type: 'pathTestResult'; requestId: number; results: CriticalPathTestResult[] }
+    | { type: 'cancelled'; requestId: number }
+    | { type: 'error'; requestId: number; message: string };
+
+export interface CpmWorkerScope {
+    onmessage: ((event: MessageEvent<CpmWorkerRequest>) => void) | null;
+    postMessage(message: CpmWorkerReply, transfer?: Transferable[]): void;
 }
 
-export interface WorkerRelationship {
-    predecessorId: string;
-    successorId: string;
-    type: string;
-    freeFloat: number | null;
-    lag: number | null;
-    isCritical?: boolean;
-}
-
-export interface WorkerInput {
-    tasks: WorkerTask[];
-    relationships: WorkerRelationship[];
-    floatTolerance: number;
-    floatThreshold: number;
-    unconstrainedMode?: boolean;
-}
-
-export interface WorkerTaskResult {
-    internalId: string;
-    earlyStart: number;
-    earlyFinish: number;
-    lateStart: number;
-    lateFinish: number;
-    totalFloat: number;
-    violatesConstraints: boolean;
-    isCritical: boolean;
-    isCriticalByFloat: boolean;
-    isCriticalByRel: boolean;
-    isNearCritical: boolean;
-}
-
-export interface WorkerRelationshipResult {
-    predecessorId: string;
-    successorId: string;
-    isCritical: boolean;
-}
-
-export function analyzeSchedule(data: WorkerInput): { tasks: WorkerTaskResult[]; relationships: WorkerRelationshipResult[] } {
-    const tasks = data.tasks.map(t => ({
-        ...t,
-        duration: t.finish - t.start,
-        earlyStart: t.start,
-        earlyFinish: t.finish,
-        lateStart: t.start,
-        lateFinish: t.finish,
-        totalFloat: 0,
-        violatesConstraints: false,
-        isCritical: false,
-        isCriticalByFloat: false,
-        isCriticalByRel: false,
-        isNearCritical: false,
-        earliestReqStart: t.start,
-        latestReqFinish: t.finish,
-    }));
-
-    const taskMap = new Map<string, typeof tasks[0]>();
-    tasks.forEach(t => taskMap.set(t.internalId, t));
-
-    const successors = new Map<string, string[]>();
-    const predecessors = new Map<string, string[]>();
-    data.relationships.forEach(rel => {
-        if (!successors.has(rel.predecessorId)) successors.set(rel.predecessorId, []);
-        successors.get(rel.predecessorId)!.push(rel.successorId);
-        if (!predecessors.has(rel.successorId)) predecessors.set(rel.successorId, []);
-        predecessors.get(rel.successorId)!.push(rel.predecessorId);
-    });
-
-    const inDeg = new Map<string, number>();
-    tasks.forEach(t => inDeg.set(t.internalId, (predecessors.get(t.internalId) || []).length));
-    const queue: string[] = [];
-    inDeg.forEach((d, id) => { if (d === 0) queue.push(id); });
-
-    const topo: string[] = [];
-    while (queue.length) {
-        const id = queue.shift()!;
-        topo.push(id);
-        const succs = successors.get(id) || [];
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const pred = taskMap.get(id)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let req = succ.earliestReqStart;
-            switch (relType) {
-                case 'FS': req = Math.max(req, pred.earlyFinish + lag); break;
-                case 'SS': req = Math.max(req, pred.earlyStart + lag); break;
-                case 'FF': req = Math.max(req, pred.earlyFinish - succ.duration + lag); break;
-                case 'SF': req = Math.max(req, pred.earlyStart - succ.duration + lag); break;
-                default: req = Math.max(req, pred.earlyFinish + lag); break;
-            }
-            succ.earliestReqStart = req;
-            const nd = inDeg.get(succId)! - 1;
-            inDeg.set(succId, nd);
-            if (nd === 0) queue.push(succId);
-        }
-    }
-
-    for (let i = topo.length - 1; i >= 0; i--) {
-        const id = topo[i];
-        const task = taskMap.get(id)!;
-        const succs = successors.get(id) || [];
-        if (succs.length === 0) continue;
-        let minFinish = Infinity;
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let reqFinish = Infinity;
-            switch (relType) {
-                case 'FS': reqFinish = succ.earlyStart - lag; break;
-                case 'SS': reqFinish = succ.earlyStart - lag + task.duration; break;
-                case 'FF': reqFinish = succ.earlyFinish - lag; break;
-                case 'SF': reqFinish = succ.earlyFinish - lag - succ.duration + task.duration; break;
-                default: reqFinish = succ.earlyStart - lag; break;
+// Simulation iterations between checks for a cancel message
+const SIMULATION_BATCH = 50;
+
+// Critical path tests (two forward passes each) between checks for a cancel message
+export const PATH_TEST_BATCH = 5;
+
+/**
+ * Worker entry point. Requests are answered in order; a cancelled run stops
+ * at its next batch of simulation iterations or path tests. Packed requests
+ * get packed replies, with their buffers transferred.
+ */
+export function cpmWorkerMain(scope: CpmWorkerScope): void {
+    const pending = new Set<number>();     // Queued or running requests; cancels for any other id are dropped
+    const cancelled = new Set<number>();
+    let queue = Promise.resolve();
+
+    const yieldToMessages = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    const run = async (requestId: number, message: CpmInput | PackedCpmInput) => {
+        const isCancelled = () => cancelled.delete(requestId);
+        await yieldToMessages();
+        if (isCancelled()) return scope.postMessage({ type: 'cancelled', requestId });
+
+        const input = isPacked(message) ? unpackCpmInput(message as PackedCpmInput) : message as CpmInput;
+        scope.postMessage({ type: 'progress', requestId, stage: 'analysis', fraction: 0 });
+        const analysis = runCpm(input);
+
+        let monteCarlo = null;
+        if (input.monteCarlo && input.tasks.length > 0) {
+            const simulation = startScheduleSimulation(input, input.monteCarlo);
+            while (!simulation.step(SIMULATION_BATCH)) {
+                scope.postMessage({ type: 'progress', requestId, stage: 'simulation', fraction: simulation.completed / simulation.iterations });
+                await yieldToMessages();
+                if (isCancelled()) return scope.postMessage({ type: 'cancelled', requestId });
             }
-            if (reqFinish < minFinish) minFinish = reqFinish;
-        }
-        if (minFinish !== Infinity) {
-            task.latestReqFinish = Math.min(task.earlyFinish, minFinish);
+            monteCarlo = simulation.result();
         }
-    }
-
-    tasks.forEach(t => {
-        const startSlack = t.earlyStart - (t.earliestReqStart as number);
-        const finishSlack = (t.latestReqFinish as number) - t.earlyFinish;
-        t.totalFloat = Math.min(startSlack, finishSlack);
-        t.lateFinish = t.earlyFinish + Math.max(0, t.totalFloat);
-        t.lateStart = t.lateFinish - t.duration;
-        t.violatesConstraints = t.totalFloat < -data.floatTolerance;
-        t.isCriticalByFloat = Math.abs(t.totalFloat) <= data.floatTolerance && !t.violatesConstraints;
-        t.isNearCritical = !t.isCriticalByFloat && !t.violatesConstraints && t.totalFloat > data.floatTolerance && t.totalFloat <= data.floatThreshold;
-        t.isCriticalByRel = false;
-    });
 
-    data.relationships.forEach(rel => {
-        const pred = taskMap.get(rel.predecessorId);
-        const succ = taskMap.get(rel.successorId);
-        if (!pred || !succ) {
-            rel.isCritical = false;
-            return;
-        }
-        if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) {
-            rel.isCritical = rel.freeFloat <= data.floatTolerance;
+        const response: CpmResponse = { ...analysis, monteCarlo };
+        if (isPacked(message)) {
+            const packed = packCpmResponse(response);
+            scope.postMessage({ type: 'result', requestId, result: packed }, transferablesOf(packed));
         } else {
-            const lag = rel.lag || 0;
-            const type = rel.type || 'FS';
-            let isDriving = false;
-            switch (type) {
-                case 'FS': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= data.floatTolerance; break;
-                case 'SS': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyStart) <= data.floatTolerance; break;
-                case 'FF': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyFinish) <= data.floatTolerance; break;
-                case 'SF': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyFinish) <= data.floatTolerance; break;
-                default: isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= data.floatTolerance; break;
-            }
-            rel.isCritical = isDriving && pred.isCriticalByFloat && succ.isCriticalByFloat;
-        }
-        if (rel.isCritical) {
-            pred.isCriticalByRel = true;
-            succ.isCriticalByRel = true;
-        }
-    });
-
-    tasks.forEach(t => {
-        t.isCritical = t.isCriticalByFloat || t.isCriticalByRel;
-    });
-
-    const tasksResult: WorkerTaskResult[] = tasks.map(t => ({
-        internalId: t.internalId,
-        earlyStart: t.earlyStart,
-        earlyFinish: t.earlyFinish,
-        lateStart: t.lateStart,
-        lateFinish: t.lateFinish,
-        totalFloat: t.totalFloat,
-        violatesConstraints: t.violatesConstraints,
-        isCritical: t.isCritical,
-        isCriticalByFloat: t.isCriticalByFloat,
-        isCriticalByRel: t.isCriticalByRel,
-        isNearCritical: t.isNearCritical,
-    }));
-
-    const relResult: WorkerRelationshipResult[] = data.relationships.map(r => ({
-        predecessorId: r.predecessorId,
-        successorId: r.successorId,
-        isCritical: !!r.isCritical,
-    }));
-    return { tasks: tasksResult, relationships: relResult };
-}
-
-export function analyzeUnconstrained(data: WorkerInput): { tasks: WorkerTaskResult[]; relationships: WorkerRelationshipResult[] } {
-    const tasks = data.tasks.map(t => ({
-        ...t,
-        duration: t.finish - t.start,
-        earlyStart: 0,
-        earlyFinish: (t.finish - t.start),
-        lateStart: 0,
-        lateFinish: 0,
-        totalFloat: 0,
-        violatesConstraints: false,
-        isCritical: false,
-        isCriticalByFloat: false,
-        isCriticalByRel: false,
-        isNearCritical: false,
-    }));
-
-    const taskMap = new Map<string, typeof tasks[0]>();
-    tasks.forEach(t => taskMap.set(t.internalId, t));
-
-    const successors = new Map<string, string[]>();
-    const predecessors = new Map<string, string[]>();
-    data.relationships.forEach(rel => {
-        if (!successors.has(rel.predecessorId)) successors.set(rel.predecessorId, []);
-        successors.get(rel.predecessorId)!.push(rel.successorId);
-        if (!predecessors.has(rel.successorId)) predecessors.set(rel.successorId, []);
-        predecessors.get(rel.successorId)!.push(rel.predecessorId);
-    });
-
-    const inDeg = new Map<string, number>();
-    tasks.forEach(t => inDeg.set(t.internalId, (predecessors.get(t.internalId) || []).length));
-    const queue: string[] = [];
-    inDeg.forEach((d, id) => { if (d === 0) queue.push(id); });
-    const topo: string[] = [];
-    while (queue.length) {
-        const id = queue.shift()!;
-        topo.push(id);
-        const succs = successors.get(id) || [];
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const pred = taskMap.get(id)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let reqStart = 0;
-            switch (relType) {
-                case 'FS': reqStart = pred.earlyFinish + lag; break;
-                case 'SS': reqStart = pred.earlyStart + lag; break;
-                case 'FF': reqStart = pred.earlyFinish - succ.duration + lag; break;
-                case 'SF': reqStart = pred.earlyStart - succ.duration + lag; break;
-                default: reqStart = pred.earlyFinish + lag; break;
-            }
-            succ.earlyStart = Math.max(succ.earlyStart, reqStart);
-            succ.earlyFinish = succ.earlyStart + succ.duration;
-            const nd = inDeg.get(succId)! - 1;
-            inDeg.set(succId, nd);
-            if (nd === 0) queue.push(succId);
+            scope.postMessage({ type: 'result', requestId, result: response });
         }
-    }
-
-    const projectEnd = Math.max(...tasks.map(t => t.earlyFinish));
-
-    for (let i = topo.length - 1; i >= 0; i--) {
-        const id = topo[i];
-        const task = taskMap.get(id)!;
-        const succs = successors.get(id) || [];
-        let minFinish = Infinity;
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let reqFinish = Infinity;
-            switch (relType) {
-                case 'FS': reqFinish = succ.lateStart - lag; break;
-                case 'SS': reqFinish = succ.lateStart - lag + task.duration; break;
-                case 'FF': reqFinish = succ.lateFinish - lag; break;
-                case 'SF': reqFinish = succ.lateFinish - lag - succ.duration + task.duration; break;
-                default: reqFinish = succ.lateStart - lag; break;
+    };
+
+    const runPathTests = async (requestId: number, input: CpmInput, taskIds: string[], delay: number) => {
+        const isCancelled = () => cancelled.delete(requestId);
+        const test = criticalPathTester(input, delay);
+        const results: CriticalPathTestResult[] = [];
+        for (let i = 0; i < taskIds.length; i++) {
+            if (i % PATH_TEST_BATCH === 0) {
+                scope.postMessage({ type: 'progress', requestId, stage: 'pathTest', fraction: i / taskIds.length });
+                await yieldToMessages();
+                if (isCancelled()) return scope.postMessage({ type: 'cancelled', requestId });
             }
-            if (reqFinish < minFinish) minFinish = reqFinish;
+            const result = test(taskIds[i]);
+            if (result) results.push(result);
         }
-        if (succs.length === 0) {
-            task.lateFinish = projectEnd;
-        } else {
-            task.lateFinish = minFinish === Infinity ? projectEnd : minFinish;
-        }
-        task.lateStart = task.lateFinish - task.duration;
-    }
-
-    tasks.forEach(t => {
-        t.totalFloat = t.lateStart - t.earlyStart;
-        t.violatesConstraints = false;
-        t.isCriticalByFloat = Math.abs(t.totalFloat) <= data.floatTolerance;
-        t.isNearCritical = !t.isCriticalByFloat && t.totalFloat > data.floatTolerance && t.totalFloat <= data.floatThreshold;
-        t.isCriticalByRel = false;
-    });
+        scope.postMessage({ type: 'pathTestResult', requestId, results });
+    };
 
-    data.relationships.forEach(rel => {
-        const pred = taskMap.get(rel.predecessorId);
-        const succ = taskMap.get(rel.successorId);
-        if (!pred || !succ) {
-            rel.isCritical = false;
+    scope.onmessage = event => {
+        const request = event.data;
+        if (request.type === 'cancel') {
+            if (pending.has(request.requestId)) cancelled.add(request.requestId);
             return;
         }
-        if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) {
-            rel.isCritical = rel.freeFloat <= data.floatTolerance;
-        } else {
-            const lag = rel.lag || 0;
-            const type = rel.type || 'FS';
-            let isDriving = false;
-            switch (type) {
-                case 'FS': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= data.floatTolerance; break;
-                case 'SS': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyStart) <= data.floatTolerance; break;
-                case 'FF': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyFinish) <= data.floatTolerance; break;
-                case 'SF': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyFinish) <= data.floatTolerance; break;
-                default: isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= data.floatTolerance; break;
-            }
-            rel.isCritical = isDriving && pred.isCriticalByFloat && succ.isCriticalByFloat;
-        }
-        if (rel.isCritical) {
-            pred.isCriticalByRel = true;
-            succ.isCriticalByRel = true;
-        }
-    });
-
-    tasks.forEach(t => {
-        t.isCritical = t.isCriticalByFloat || t.isCriticalByRel;
-    });
-
-    const tasksResult: WorkerTaskResult[] = tasks.map(t => ({
-        internalId: t.internalId,
-        earlyStart: t.earlyStart,
-        earlyFinish: t.earlyFinish,
-        lateStart: t.lateStart,
-        lateFinish: t.lateFinish,
-        totalFloat: t.totalFloat,
-        violatesConstraints: t.violatesConstraints,
-        isCritical: t.isCritical,
-        isCriticalByFloat: t.isCriticalByFloat,
-        isCriticalByRel: t.isCriticalByRel,
-        isNearCritical: t.isNearCritical,
-    }));
-
-    const relResult: WorkerRelationshipResult[] = data.relationships.map(r => ({
-        predecessorId: r.predecessorId,
-        successorId: r.successorId,
-        isCritical: !!r.isCritical,
-    }));
-    return { tasks: tasksResult, relationships: relResult };
+        pending.add(request.requestId);
+        queue = queue
+            .then(() => request.type === 'pathTest'
+                ? runPathTests(request.requestId, request.input, request.taskIds, request.delay)
+                : run(request.requestId, request.input))
+            .catch(error => scope.postMessage({ type: 'error', requestId: request.requestId, message: String(error?.message ?? error) }))
+            .then(() => {
+                pending.delete(request.requestId);
+                cancelled.delete(request.requestId);
+            });
+    };
 }
-
-self.onmessage = (event: MessageEvent<WorkerInput>) => {
-    const input = event.data;
-    const result = input.unconstrainedMode ? analyzeUnconstrained(input) : analyzeSchedule(input);
-    (self as any).postMessage(result);
-};
@@ -0,0 +1,27 @@
+// cpmWorkerHost.ts
+import { CPM_WORKER_SOURCE } from './cpmWorkerSource';
+
+/**
+ * Starts the CPM worker from the bundled worker script: a packaged visual is
+ * a single file, so there is no worker script to load by URL. Returns null
+ * where workers cannot be created; callers then run the engine on the main
+ * thread.
+ */
+export function createCpmWorker(): Worker | null {
+    if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL === 'undefined' || !URL.createObjectURL) {
+        return null;
+    }
+    const url = URL.createObjectURL(new Blob([CPM_WORKER_SOURCE], { type: 'text/javascript' }));
+    try {
+        const worker = new Worker(url);
+        // The URL is only needed until the script has loaded
+        const release = () => URL.revokeObjectURL(url);
+        worker.addEventListener('message', release, { once: true });
+        worker.addEventListener('error', release, { once: true });
+        return worker;
+    } catch (e) {
+        URL.revokeObjectURL(url);
+        console.error("Failed to create CPM worker:", e);
+        return null;
+    }
+}
@@ -0,0 +1,3 @@
+// cpmWorkerSource.ts
+// Generated by scripts/buildCpmWorker.js from src/cpmWorker.ts and its imports; do not edit.
+export const CPM_WORKER_SOURCE = "(function (self) {\nconst definitions = {};\nconst modules = {};\nfunction define(name, deps, factory) { definitions[name] = { deps, factory }; }\nfunction load(name) {\n    if (name in modules) return modules[name];\n    const definition = definitions[name];\n    if (!definition) throw new Error(\"Module not bundled: \" + name);\n    const exports = modules[name] = {};\n    definition.factory(...definition.deps.map(dep => dep === \"require\" ? load : dep === \"exports\" ? exports : load(dep)));\n    return exports;\n}\ndefine(\"calendar\", [\"require\", \"exports\"], function (require, exports) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.WorkCalendar = exports.STANDARD_WORK_WEEK = void 0;\n    exports.toLocalDayNumber = toLocalDayNumber;\n    exports.fromLocalDayNumber = fromLocalDayNumber;\n    exports.parseDayNumber = parseDayNumber;\n    exports.parseHolidayList = parseHolidayList;\n    exports.parseWorkWeek = parseWorkWeek;\n    exports.successorStartFromRelationship = successorStartFromRelationship;\n    exports.predecessorFinishFromRelationship = predecessorFinishFromRelationship;\n    exports.parseCalendarDefinitions = parseCalendarDefinitions;\n    exports.normalizeCalendarName = normalizeCalendarName;\n    exports.createCalendarResolver = createCalendarResolver;\n    exports.relationshipSlack = relationshipSlack;\n    const DAY_MS = 1000 * 60 * 60 * 24;\n    const EPOCH_WEEKDAY = 4;\n    exports.STANDARD_WORK_WEEK = [false, true, true, true, true, true, false];\n    const WEEKDAY_NAMES = [\"sun\", \"mon\", \"tue\", \"wed\", \"thu\", \"fri\", \"sat\"];\n    function toLocalDayNumber(date) {\n        return (date.getTime() - date.getTimezoneOffset() * 60000) / DAY_MS;\n    }\n    function fromLocalDayNumber(day) {\n        const utc = new Date(day * DAY_MS);\n        return new Date(utc.getTime() + utc.getTimezoneOffset() * 60000);\n    }\n    function parseDayNumber(text) {\n        const match = (text || \"\").trim().match(/^(\\d{4})-(\\d{1,2})-(\\d{1,2})$/);\n        if (!match)\n            return null;\n        const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));\n        return isNaN(date.getTime()) ? null : Math.floor(toLocalDayNumber(date));\n    }\n    function parseHolidayList(text) {\n        if (!text)\n            return [];\n        const days = [];\n        text.split(/[,;\\n]/).forEach(part => {\n            const day = parseDayNumber(part);\n            if (day !== null)\n                days.push(day);\n        });\n        return days;\n    }\n    function parseWorkWeek(text) {\n        if (!text)\n            return null;\n        const week = [false, false, false, false, false, false, false];\n        let found = false;\n        text.split(/[,\\s]+/).forEach(part => {\n            const token = part.trim().toLowerCase();\n            if (!token)\n                return;\n            const range = token.split(\"-\");\n            const from = WEEKDAY_NAMES.indexOf(range[0].slice(0, 3));\n            const to = range.length > 1 ? WEEKDAY_NAMES.indexOf(range[1].slice(0, 3)) : from;\n            if (from === -1 || to === -1)\n                return;\n            for (let i = from;; i = (i + 1) % 7) {\n                week[i] = true;\n                found = true;\n                if (i === to)\n                    break;\n            }\n        });\n        return found ? week : null;\n    }\n    class WorkCalendar {\n        baseDay;\n        workWeek;\n        holidays;\n        weekPrefix = [];\n        daysPerWeek;\n        baseWork;\n        isContinuous;\n        constructor(definition, baseDay = 0) {\n            this.baseDay = baseDay;\n            const week = definition?.workWeek && definition.workWeek.length === 7 ? definition.workWeek : null;\n            this.workWeek = week && week.some(d => d) ? week.slice() : [true, true, true, true, true, true, true];\n            this.daysPerWeek = this.workWeek.filter(d => d).length;\n            const unique = new Set();\n            (definition?.holidays || []).forEach(h => {\n                const day = Math.floor(h);\n                if (this.workWeek[this.weekday(day)])\n                    unique.add(day);\n            });\n            this.holidays = Array.from(unique).sort((a, b) => a - b);\n            this.weekPrefix.push(0);\n            for (let i = 0; i < 7; i++) {\n                this.weekPrefix.push(this.weekPrefix[i] + (this.workWeek[(EPOCH_WEEKDAY + i) % 7] ? 1 : 0));\n            }\n            this.isContinuous = this.daysPerWeek === 7 && this.holidays.length === 0;\n            this.baseWork = this.isContinuous ? 0 : this.workDaysBefore(Math.floor(baseDay)) +\n                (this.isWorkingDay(Math.floor(baseDay)) ? baseDay - Math.floor(baseDay) : 0);\n        }\n        isWorkingDay(day) {\n            return this.workWeek[this.weekday(day)] && !this.isHoliday(day);\n        }\n        toWorkTime(t) {\n            if (this.isContinuous)\n                return t;\n            const abs = this.baseDay + t;\n            const day = Math.floor(abs);\n            const partial = this.isWorkingDay(day) ? abs - day : 0;\n            return this.workDaysBefore(day) + partial - this.baseWork;\n        }\n        fromWorkTime(w, atFinish) {\n            if (this.isContinuous)\n                return w;\n            const target = w + this.baseWork;\n            const whole = Math.floor(target);\n            const fraction = target - whole;\n            if (fraction === 0 && atFinish) {\n                return this.nthWorkingDay(whole - 1) + 1 - this.baseDay;\n            }\n            return this.nthWorkingDay(whole) + fraction - this.baseDay;\n        }\n        addWorkDays(t, days, atFinish) {\n            if (this.isContinuous)\n                return t + days;\n            return this.fromWorkTime(this.toWorkTime(t) + days, atFinish);\n        }\n        workDaysBetween(from, to) {\n            if (this.isContinuous)\n                return to - from;\n            return this.toWorkTime(to) - this.toWorkTime(from);\n        }\n        weekday(day) {\n            return (((day % 7) + 7) % 7 + EPOCH_WEEKDAY) % 7;\n        }\n        isHoliday(day) {\n            return this.countHolidaysBefore(day + 1) - this.countHolidaysBefore(day) > 0;\n        }\n        countHolidaysBefore(day) {\n            let lo = 0;\n            let hi = this.holidays.length;\n            while (lo < hi) {\n                const mid = (lo + hi) >> 1;\n                if (this.holidays[mid] < day)\n                    lo = mid + 1;\n                else\n                    hi = mid;\n            }\n            return lo;\n        }\n        workDaysBefore(day) {\n            const weeks = Math.floor(day / 7);\n            const rem = day - weeks * 7;\n            return weeks * this.daysPerWeek + this.weekPrefix[rem] - this.countHolidaysBefore(day);\n        }\n        nthWorkingDay(n) {\n            let lo = Math.floor(n / this.daysPerWeek) * 7 - 7;\n            let hi = Math.ceil((n + 1) / this.daysPerWeek) * 7 + 7;\n            while (this.workDaysBefore(lo + 1) > n)\n                lo -= 7 * (this.holidays.length + 1);\n            while (this.workDaysBefore(hi + 1) <= n)\n                hi += 7 * (this.holidays.length + 1);\n            while (lo < hi) {\n                const mid = Math.floor((lo + hi) / 2);\n                if (this.workDaysBefore(mid + 1) > n)\n                    hi = mid;\n                else\n                    lo = mid + 1;\n            }\n            return lo;\n        }\n    }\n    exports.WorkCalendar = WorkCalendar;\n    function successorStartFromRelationship(relType, lag, predStart, predFinish, succDuration, predCalendar, succCalendar) {\n        switch (relType) {\n            case 'SS':\n                return succCalendar.addWorkDays(predCalendar.addWorkDays(predStart, lag, false), 0, false);\n            case 'FF':\n                return succCalendar.addWorkDays(predCalendar.addWorkDays(predFinish, lag, true), -succDuration, false);\n            case 'SF':\n                return succCalendar.addWorkDays(predCalendar.addWorkDays(predStart, lag, true), -succDuration, false);\n            case 'FS':\n            default:\n                return succCalendar.addWorkDays(predCalendar.addWorkDays(predFinish, lag, false), 0, false);\n        }\n    }\n    function predecessorFinishFromRelationship(relType, lag, succStart, succFinish, predDuration, predCalendar) {\n        switch (relType) {\n            case 'SS':\n                return predCalendar.addWorkDays(predCalendar.addWorkDays(succStart, -lag, false), predDuration, true);\n            case 'FF':\n                return predCalendar.addWorkDays(succFinish, -lag, true);\n            case 'SF':\n                return predCalendar.addWorkDays(predCalendar.addWorkDays(succFinish, -lag, false), predDuration, true);\n            case 'FS':\n            default:\n                return predCalendar.addWorkDays(succStart, -lag, true);\n        }\n    }\n    function parseCalendarDefinitions(text, holidays) {\n        const definitions = {};\n        if (!text)\n            return definitions;\n        text.split(/[;\\n]/).forEach(entry => {\n            const separator = entry.indexOf(\":\");\n            if (separator === -1)\n                return;\n            const name = normalizeCalendarName(entry.slice(0, separator));\n            const workWeek = parseWorkWeek(entry.slice(separator + 1));\n            if (name && workWeek)\n                definitions[name] = { workWeek, holidays };\n        });\n        return definitions;\n    }\n    function normalizeCalendarName(name) {\n        return (name || \"\").trim().toLowerCase();\n    }\n    function createCalendarResolver(projectCalendar, namedCalendars, baseDay = 0) {\n        const fallback = new WorkCalendar(projectCalendar, baseDay);\n        const cache = new Map();\n        return (name) => {\n            const key = normalizeCalendarName(name);\n            if (!key || !namedCalendars || !namedCalendars[key])\n                return fallback;\n            let calendar = cache.get(key);\n            if (!calendar) {\n                calendar = new WorkCalendar(namedCalendars[key], baseDay);\n                cache.set(key, calendar);\n            }\n            return calendar;\n        };\n    }\n    function relationshipSlack(relType, lag, predFinish, predDuration, succStart, succFinish, predCalendar) {\n        const allowedFinish = predecessorFinishFromRelationship(relType, lag, succStart, succFinish, predDuration, predCalendar);\n        return predCalendar.workDaysBetween(predFinish, allowedFinish);\n    }\n});\ndefine(\"constraints\", [\"require\", \"exports\"], function (require, exports) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.REQUIRED_FINISH = exports.LOGIC_VIOLATION = void 0;\n    exports.normalizeConstraintType = normalizeConstraintType;\n    exports.constraintEarliestStart = constraintEarliestStart;\n    exports.constraintLatestFinish = constraintLatestFinish;\n    exports.LOGIC_VIOLATION = 'Logic';\n    exports.REQUIRED_FINISH = 'Required Finish';\n    const CONSTRAINT_ALIASES = {\n        'SNET': 'SNET', 'STARTNOEARLIERTHAN': 'SNET', 'STARTONORAFTER': 'SNET', 'CS_MSOA': 'SNET',\n        'SNLT': 'SNLT', 'STARTNOLATERTHAN': 'SNLT', 'STARTONORBEFORE': 'SNLT', 'CS_MSOB': 'SNLT',\n        'FNET': 'FNET', 'FINISHNOEARLIERTHAN': 'FNET', 'FINISHONORAFTER': 'FNET', 'CS_MEOA': 'FNET',\n        'FNLT': 'FNLT', 'FINISHNOLATERTHAN': 'FNLT', 'FINISHONORBEFORE': 'FNLT', 'CS_MEOB': 'FNLT',\n        'MSO': 'MSO', 'MUSTSTARTON': 'MSO', 'STARTON': 'MSO', 'CS_MSO': 'MSO', 'CS_MANDSTART': 'MSO',\n        'MFO': 'MFO', 'MUSTFINISHON': 'MFO', 'FINISHON': 'MFO', 'CS_MEO': 'MFO', 'CS_MANDFIN': 'MFO',\n        'ALAP': 'ALAP', 'ASLATEASPOSSIBLE': 'ALAP', 'CS_ALAP': 'ALAP'\n    };\n    function normalizeConstraintType(value) {\n        if (value === null || value === undefined)\n            return null;\n        const raw = String(value).trim().toUpperCase();\n        const key = raw.startsWith('CS_') ? raw : raw.replace(/[\\s_-]/g, '');\n        return CONSTRAINT_ALIASES[key] || null;\n    }\n    function constraintEarliestStart(type, date, duration, calendar) {\n        if (date === null || date === undefined || isNaN(date))\n            return null;\n        switch (type) {\n            case 'SNET':\n            case 'MSO':\n                return date;\n            case 'FNET':\n            case 'MFO':\n                return calendar.addWorkDays(date, -duration, false);\n            default:\n                return null;\n        }\n    }\n    function constraintLatestFinish(type, date, duration, calendar) {\n        if (date === null || date === undefined || isNaN(date))\n            return null;\n        switch (type) {\n            case 'SNLT':\n            case 'MSO':\n                return calendar.addWorkDays(date, duration, true);\n            case 'FNLT':\n            case 'MFO':\n                return date;\n            default:\n                return null;\n        }\n    }\n});\ndefine(\"priorityQueue\", [\"require\", \"exports\"], function (require, exports) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    class PriorityQueue {\n        compare;\n        heap = [];\n        constructor(compare = (a, b) => a < b) {\n            this.compare = compare;\n        }\n        enqueue(item, priority) {\n            this.heap.push({ item, priority });\n            this.bubbleUp(this.heap.length - 1);\n        }\n        dequeue() {\n            if (this.heap.length === 0)\n                return undefined;\n            const top = this.heap[0];\n            const end = this.heap.pop();\n            if (this.heap.length > 0) {\n                this.heap[0] = end;\n                this.bubbleDown(0);\n            }\n            return top.item;\n        }\n        size() {\n            return this.heap.length;\n        }\n        bubbleUp(index) {\n            const element = this.heap[index];\n            while (index > 0) {\n                const parentIndex = Math.floor((index - 1) / 2);\n                const parent = this.heap[parentIndex];\n                if (!this.compare(element.priority, parent.priority))\n                    break;\n                this.heap[parentIndex] = element;\n                this.heap[index] = parent;\n                index = parentIndex;\n            }\n        }\n        bubbleDown(index) {\n            const length = this.heap.length;\n            const element = this.heap[index];\n            while (true) {\n                let left = 2 * index + 1;\n                let right = 2 * index + 2;\n                let swap = -1;\n                if (left < length && this.compare(this.heap[left].priority, element.priority)) {\n                    swap = left;\n                }\n                if (right < length) {\n                    if (swap === -1) {\n                        if (this.compare(this.heap[right].priority, element.priority)) {\n                            swap = right;\n                        }\n                    }\n                    else if (this.compare(this.heap[right].priority, this.heap[left].priority)) {\n                        swap = right;\n                    }\n                }\n                if (swap === -1)\n                    break;\n                this.heap[index] = this.heap[swap];\n                this.heap[swap] = element;\n                index = swap;\n            }\n        }\n    }\n    exports.default = PriorityQueue;\n});\ndefine(\"longestPath\", [\"require\", \"exports\", \"priorityQueue\"], function (require, exports, priorityQueue_1) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.findProjectFinishTasks = findProjectFinishTasks;\n    exports.traceDrivingPath = traceDrivingPath;\n    exports.findPathBetween = findPathBetween;\n    function findProjectFinishTasks(tasks, tolerance) {\n        let projectFinish = -Infinity;\n        tasks.forEach(t => { if (t.earlyFinish > projectFinish)\n            projectFinish = t.earlyFinish; });\n        return tasks.filter(t => t.earlyFinish >= projectFinish - tolerance).map(t => t.internalId);\n    }\n    function traceDrivingPath(seedIds, drivingLinks, direction = 'backward') {\n        const linksByTask = new Map();\n        drivingLinks.forEach(link => {\n            const key = direction === 'backward' ? link.successorId : link.predecessorId;\n            if (!linksByTask.has(key))\n                linksByTask.set(key, []);\n            linksByTask.get(key).push(link);\n        });\n        const taskIds = new Set(seedIds);\n        const links = new Set();\n        const stack = seedIds.slice();\n        while (stack.length) {\n            const id = stack.pop();\n            for (const link of linksByTask.get(id) || []) {\n                links.add(link);\n                const next = direction === 'backward' ? link.predecessorId : link.successorId;\n                if (!taskIds.has(next)) {\n                    taskIds.add(next);\n                    stack.push(next);\n                }\n            }\n        }\n        return { taskIds, links };\n    }\n    function findPathBetween(sourceId, targetId, links) {\n        const linksFrom = new Map();\n        links.forEach(link => {\n            if (!linksFrom.has(link.predecessorId))\n                linksFrom.set(link.predecessorId, []);\n            linksFrom.get(link.predecessorId).push(link);\n        });\n        const slackTo = new Map([[sourceId, 0]]);\n        const via = new Map();\n        const settled = new Set();\n        const queue = new priorityQueue_1.default();\n        queue.enqueue(sourceId, 0);\n        while (queue.size() > 0) {\n            const id = queue.dequeue();\n            if (settled.has(id))\n                continue;\n            settled.add(id);\n            if (id === targetId)\n                break;\n            for (const link of linksFrom.get(id) || []) {\n                const slack = slackTo.get(id) + Math.max(0, link.slack);\n                if (slack < (slackTo.get(link.successorId) ?? Infinity)) {\n                    slackTo.set(link.successorId, slack);\n                    via.set(link.successorId, link);\n                    queue.enqueue(link.successorId, slack);\n                }\n            }\n        }\n        if (!settled.has(targetId))\n            return null;\n        const taskIds = new Set([targetId]);\n        const pathLinks = new Set();\n        for (let id = targetId; id !== sourceId;) {\n            const link = via.get(id);\n            pathLinks.add(link);\n            id = link.predecessorId;\n            taskIds.add(id);\n        }\n        return { taskIds, links: pathLinks };\n    }\n});\ndefine(\"progress\", [\"require\", \"exports\"], function (require, exports) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.getProgressStatus = getProgressStatus;\n    exports.applyProgress = applyProgress;\n    function isSet(value) {\n        return value !== null && value !== undefined && !isNaN(value);\n    }\n    function getProgressStatus(progress) {\n        if (isSet(progress.actualFinish) || (isSet(progress.percentComplete) && progress.percentComplete >= 100))\n            return 'completed';\n        if (isSet(progress.actualStart) || (isSet(progress.percentComplete) && progress.percentComplete > 0))\n            return 'inProgress';\n        return 'notStarted';\n    }\n    function applyProgress(start, finish, progress, dataDate, calendar) {\n        const status = getProgressStatus(progress);\n        const actualStart = isSet(progress.actualStart) ? progress.actualStart : start;\n        if (status === 'completed') {\n            const actualFinish = isSet(progress.actualFinish) ? progress.actualFinish : finish;\n            return { start: actualStart, finish: Math.max(actualStart, actualFinish), status };\n        }\n        const duration = Math.max(0, calendar.workDaysBetween(start, finish));\n        if (status === 'inProgress') {\n            if (dataDate === null)\n                return { start: actualStart, finish: Math.max(actualStart, finish), status };\n            const remaining = isSet(progress.remainingDuration) ? Math.max(0, progress.remainingDuration)\n                : isSet(progress.percentComplete) ? duration * (1 - Math.min(100, progress.percentComplete) / 100)\n                    : Math.max(0, duration - calendar.workDaysBetween(actualStart, dataDate));\n            const resume = calendar.addWorkDays(Math.max(dataDate, actualStart), 0, false);\n            return { start: actualStart, finish: Math.max(resume, calendar.addWorkDays(resume, remaining, true)), status };\n        }\n        if (dataDate === null || start >= dataDate)\n            return { start, finish, status };\n        const shiftedStart = calendar.addWorkDays(dataDate, 0, false);\n        return { start: shiftedStart, finish: calendar.addWorkDays(shiftedStart, duration, true), status };\n    }\n});\ndefine(\"monteCarlo\", [\"require\", \"exports\", \"calendar\", \"constraints\", \"longestPath\", \"progress\"], function (require, exports, calendar_1, constraints_1, longestPath_1, progress_1) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.createSeededRandom = createSeededRandom;\n    exports.sampleTriangular = sampleTriangular;\n    exports.samplePert = samplePert;\n    exports.percentile = percentile;\n    exports.runMonteCarlo = runMonteCarlo;\n    exports.startMonteCarlo = startMonteCarlo;\n    const HISTOGRAM_BINS = 20;\n    function createSeededRandom(seed) {\n        let state = seed >>> 0;\n        return () => {\n            state = (state + 0x6D2B79F5) >>> 0;\n            let t = state;\n            t = Math.imul(t ^ (t >>> 15), t | 1);\n            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);\n            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;\n        };\n    }\n    function sampleTriangular(min, mode, max, random) {\n        if (max <= min)\n            return min;\n        const u = random();\n        const split = (mode - min) / (max - min);\n        return u < split\n            ? min + Math.sqrt(u * (max - min) * (mode - min))\n            : max - Math.sqrt((1 - u) * (max - min) * (max - mode));\n    }\n    function samplePert(min, mode, max, random) {\n        if (max <= min)\n            return min;\n        const alpha = 1 + 4 * (mode - min) / (max - min);\n        const beta = 1 + 4 * (max - mode) / (max - min);\n        const x = sampleGamma(alpha, random);\n        const y = sampleGamma(beta, random);\n        return min + (x / (x + y)) * (max - min);\n    }\n    function sampleGamma(shape, random) {\n        const d = shape - 1 / 3;\n        const c = 1 / Math.sqrt(9 * d);\n        for (;;) {\n            let x;\n            let v;\n            do {\n                x = sampleNormal(random);\n                v = 1 + c * x;\n            } while (v <= 0);\n            v = v * v * v;\n            const u = random();\n            if (u < 1 - 0.0331 * x * x * x * x)\n                return d * v;\n            if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v)))\n                return d * v;\n        }\n    }\n    function sampleNormal(random) {\n        const u = 1 - random();\n        const v = random();\n        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);\n    }\n    function percentile(sorted, p) {\n        if (sorted.length === 0)\n            return NaN;\n        const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));\n        return sorted[index];\n    }\n    function runMonteCarlo(tasks, resolveCalendar, options, tolerance, dataDate = null) {\n        const run = startMonteCarlo(tasks, resolveCalendar, options, tolerance, dataDate);\n        run.step(run.iterations);\n        return run.result();\n    }\n    function startMonteCarlo(tasks, resolveCalendar, options, tolerance, dataDate = null) {\n        const indexById = new Map();\n        tasks.forEach((t, i) => indexById.set(t.internalId, i));\n        const nodes = tasks.map(task => {\n            const calendar = resolveCalendar(task.calendar);\n            const progressed = (0, progress_1.applyProgress)(task.start, task.finish, task, dataDate, calendar);\n            const duration = calendar.workDaysBetween(progressed.start, progressed.finish);\n            const isStarted = progressed.status !== 'notStarted';\n            return {\n                task,\n                calendar,\n                duration,\n                range: isStarted ? null : threePointRange(task, duration),\n                projectStart: calendar.addWorkDays(dataDate === null ? 0 : Math.max(0, dataDate), 0, false),\n                isMandatory: task.constraintType === 'MSO' || task.constraintType === 'MFO',\n                actualStart: isStarted ? progressed.start : null,\n                predecessors: task.predecessorIds\n                    .filter(id => indexById.has(id))\n                    .map(id => ({ index: indexById.get(id), type: task.relationshipTypes[id] || 'FS', lag: task.relationshipLags[id] ?? 0 }))\n            };\n        });\n        const order = topologicalOrder(nodes);\n        const random = createSeededRandom(options.seed);\n        const sample = options.distribution === 'triangular' ? sampleTriangular : samplePert;\n        const iterations = Math.max(1, Math.floor(options.iterations));\n        const earlyStart = new Array(nodes.length).fill(0);\n        const earlyFinish = new Array(nodes.length).fill(0);\n        const criticalCounts = new Array(nodes.length).fill(0);\n        const finishes = [];\n        const runIteration = (iteration) => {\n            const drivingLinks = [];\n            for (const i of order) {\n                const node = nodes[i];\n                const duration = iteration > 0 && node.range ? sample(node.range[0], node.range[1], node.range[2], random) : node.duration;\n                const constraintStart = (0, constraints_1.constraintEarliestStart)(node.task.constraintType, node.task.constraintDate, duration, node.calendar);\n                let start = node.actualStart !== null ? node.actualStart\n                    : constraintStart === null ? node.projectStart\n                        : node.isMandatory ? constraintStart : Math.max(node.projectStart, constraintStart);\n                const required = node.predecessors.map(pred => (0, calendar_1.successorStartFromRelationship)(pred.type, pred.lag, earlyStart[pred.index], earlyFinish[pred.index], duration, nodes[pred.index].calendar, node.calendar));\n                if (!node.isMandatory && node.actualStart === null)\n                    required.forEach(r => { start = Math.max(start, r); });\n                earlyStart[i] = start;\n                earlyFinish[i] = node.calendar.addWorkDays(start, duration, true);\n                required.forEach((r, k) => {\n                    if (Math.abs(node.calendar.workDaysBetween(r, start)) <= tolerance) {\n                        drivingLinks.push({ predecessorId: nodes[node.predecessors[k].index].task.internalId, successorId: node.task.internalId });\n                    }\n                });\n            }\n            let projectFinish = -Infinity;\n            earlyFinish.forEach(ef => { if (ef > projectFinish)\n                projectFinish = ef; });\n            finishes.push(projectFinish);\n            if (iteration === 0)\n                return;\n            const finishTimes = nodes.map((node, i) => ({ internalId: node.task.internalId, earlyFinish: earlyFinish[i] }));\n            const path = (0, longestPath_1.traceDrivingPath)((0, longestPath_1.findProjectFinishTasks)(finishTimes, tolerance), drivingLinks);\n            path.taskIds.forEach(id => { criticalCounts[indexById.get(id)]++; });\n        };\n        runIteration(0);\n        let completed = 0;\n        return {\n            iterations,\n            get completed() { return completed; },\n            step(count) {\n                const end = Math.min(iterations, completed + Math.max(0, Math.floor(count)));\n                while (completed < end)\n                    runIteration(++completed);\n                return completed >= iterations;\n            },\n            result() {\n                const deterministicFinish = finishes[0];\n                const sorted = finishes.slice(1).sort((a, b) => a - b);\n                const criticalityIndex = {};\n                nodes.forEach((node, i) => { criticalityIndex[node.task.internalId] = criticalCounts[i] / Math.max(1, completed); });\n                return {\n                    iterations: completed,\n                    deterministicFinish,\n                    p50: percentile(sorted, 0.5),\n                    p80: percentile(sorted, 0.8),\n                    p90: percentile(sorted, 0.9),\n                    criticalityIndex,\n                    histogram: buildHistogram(sorted)\n                };\n            }\n        };\n    }\n    function threePointRange(task, duration) {\n        const optimistic = task.optimisticDuration;\n        const pessimistic = task.pessimisticDuration;\n        if (optimistic === null || optimistic === undefined || isNaN(optimistic) ||\n            pessimistic === null || pessimistic === undefined || isNaN(pessimistic)) {\n            return null;\n        }\n        const likely = task.mostLikelyDuration ?? duration;\n        const min = Math.max(0, Math.min(optimistic, likely, pessimistic));\n        const max = Math.max(optimistic, likely, pessimistic);\n        return [min, Math.min(max, Math.max(min, likely)), max];\n    }\n    function topologicalOrder(nodes) {\n        const successors = nodes.map(() => []);\n        const inDegree = nodes.map(node => node.predecessors.length);\n        nodes.forEach((node, i) => node.predecessors.forEach(pred => successors[pred.index].push(i)));\n        const queue = [];\n        inDegree.forEach((d, i) => { if (d === 0)\n            queue.push(i); });\n        const order = [];\n        for (let head = 0; head < queue.length; head++) {\n            const i = queue[head];\n            order.push(i);\n            for (const s of successors[i]) {\n                if (--inDegree[s] === 0)\n                    queue.push(s);\n            }\n        }\n        return order;\n    }\n    function buildHistogram(sorted) {\n        const start = sorted[0];\n        const range = sorted[sorted.length - 1] - start;\n        const binWidth = range > 0 ? range / HISTOGRAM_BINS : 1;\n        const counts = new Array(range > 0 ? HISTOGRAM_BINS : 1).fill(0);\n        sorted.forEach(value => {\n            counts[Math.min(counts.length - 1, Math.floor((value - start) / binWidth))]++;\n        });\n        return { start, binWidth, counts };\n    }\n});\ndefine(\"taskTypes\", [\"require\", \"exports\"], function (require, exports) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.SPAN_TASK_TYPES = void 0;\n    exports.normalizeTaskType = normalizeTaskType;\n    exports.isSpanTaskType = isSpanTaskType;\n    exports.milestoneKind = milestoneKind;\n    exports.spanDates = spanDates;\n    exports.SPAN_TASK_TYPES = ['TT_LOE', 'TT_WBS', 'TT_Hammock'];\n    const TASK_TYPE_ALIASES = {\n        'TTTASK': 'TT_Task', 'TASK': 'TT_Task', 'TASKDEPENDENT': 'TT_Task',\n        'TTMILE': 'TT_Mile', 'STARTMILESTONE': 'TT_Mile',\n        'TTFINMILE': 'TT_FinMile', 'FINISHMILESTONE': 'TT_FinMile',\n        'TTLOE': 'TT_LOE', 'LOE': 'TT_LOE', 'LEVELOFEFFORT': 'TT_LOE',\n        'TTWBS': 'TT_WBS', 'WBS': 'TT_WBS', 'WBSSUMMARY': 'TT_WBS',\n        'TTHAMMOCK': 'TT_Hammock', 'HAMMOCK': 'TT_Hammock'\n    };\n    function normalizeTaskType(value) {\n        if (value === null || value === undefined)\n            return 'TT_Task';\n        const raw = String(value).trim();\n        if (!raw)\n            return 'TT_Task';\n        return TASK_TYPE_ALIASES[raw.toUpperCase().replace(/[\\s_-]/g, '')] || raw;\n    }\n    function isSpanTaskType(type) {\n        return !!type && exports.SPAN_TASK_TYPES.includes(type);\n    }\n    function milestoneKind(type) {\n        return type === 'TT_Mile' ? 'start' : type === 'TT_FinMile' ? 'finish' : null;\n    }\n    function spanDates(predecessors, successors, own, calendar) {\n        const starts = predecessors\n            .filter(link => link.type === 'FS' || link.type === 'SS')\n            .map(link => calendar.addWorkDays(link.type === 'SS' ? link.start : link.finish, link.lag, false));\n        const finishes = successors\n            .filter(link => link.type === 'FS' || link.type === 'FF')\n            .map(link => calendar.addWorkDays(link.type === 'FF' ? link.finish : link.start, -link.lag, true));\n        const start = starts.length ? Math.min(...starts) : own.start;\n        const finish = finishes.length ? Math.max(...finishes) : own.finish;\n        return { start, finish: Math.max(start, finish) };\n    }\n});\ndefine(\"cpmEngine\", [\"require\", \"exports\", \"calendar\", \"constraints\", \"longestPath\", \"monteCarlo\", \"progress\", \"taskTypes\"], function (require, exports, calendar_2, constraints_2, longestPath_2, monteCarlo_1, progress_2, taskTypes_1) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.runCpm = runCpm;\n    exports.analyzeSchedule = analyzeSchedule;\n    exports.analyzeUnconstrained = analyzeUnconstrained;\n    exports.simulateSchedule = simulateSchedule;\n    exports.startScheduleSimulation = startScheduleSimulation;\n    exports.handleCpmRequest = handleCpmRequest;\n    const scheduleMode = {\n        initialize(node, input) {\n            const t = node.task;\n            const progressed = (0, progress_2.applyProgress)(t.start, t.finish, t, input.dataDate ?? null, node.workCalendar);\n            const { status } = progressed;\n            const start = node.milestone === 'finish' ? progressed.finish : progressed.start;\n            const finish = node.milestone === 'start' ? progressed.start : progressed.finish;\n            node.progress = status;\n            node.duration = node.workCalendar.workDaysBetween(start, finish);\n            node.earlyStart = node.lateStart = start;\n            node.earlyFinish = node.lateFinish = finish;\n            const constraintStart = (0, constraints_2.constraintEarliestStart)(t.constraintType, t.constraintDate, node.duration, node.workCalendar);\n            const constraintFinish = (0, constraints_2.constraintLatestFinish)(t.constraintType, t.constraintDate, node.duration, node.workCalendar);\n            const startLimited = status === 'notStarted' && constraintStart !== null && constraintStart > start;\n            const finishLimited = status !== 'completed' && constraintFinish !== null && constraintFinish < finish;\n            node.earliestReqStart = startLimited ? constraintStart : start;\n            node.earliestReqSource = startLimited ? t.constraintType : null;\n            node.latestReqFinish = finishLimited ? constraintFinish : finish;\n            node.latestReqSource = finishLimited ? t.constraintType : null;\n        },\n        forward(succ, requiredStart) {\n            if (succ.progress === 'notStarted' && requiredStart > succ.earliestReqStart) {\n                succ.earliestReqStart = requiredStart;\n                succ.earliestReqSource = constraints_2.LOGIC_VIOLATION;\n            }\n        },\n        backward(network) {\n            const projectDeadline = network.input.requiredFinish ?? Infinity;\n            for (let i = network.order.length - 1; i >= 0; i--) {\n                const node = network.nodeMap.get(network.order[i]);\n                const succs = network.successors.get(node.internalId) || [];\n                if (node.progress === 'completed')\n                    continue;\n                const deadline = Math.min(node.task.requiredFinish ?? Infinity, succs.length === 0 ? projectDeadline : Infinity);\n                if (deadline < node.latestReqFinish) {\n                    node.latestReqFinish = deadline;\n                    node.latestReqSource = constraints_2.REQUIRED_FINISH;\n                }\n                if (succs.length === 0)\n                    continue;\n                let minFinish = Infinity;\n                let minSource = null;\n                for (const succId of succs) {\n                    const succ = network.nodeMap.get(succId);\n                    const { type, lag } = linkOf(succ, node.internalId);\n                    const latestStart = succ.progress === 'notStarted'\n                        ? succ.workCalendar.addWorkDays(succ.latestReqFinish, -succ.duration, false)\n                        : succ.earlyStart;\n                    const finish = (0, calendar_2.predecessorFinishFromRelationship)(type, lag, latestStart, succ.latestReqFinish, node.duration, node.workCalendar);\n                    if (finish < minFinish) {\n                        minFinish = finish;\n                        minSource = succ.latestReqSource;\n                    }\n                }\n                if (minFinish < node.latestReqFinish) {\n                    node.latestReqFinish = minFinish;\n                    node.latestReqSource = minSource ?? constraints_2.LOGIC_VIOLATION;\n                }\n            }\n        },\n        assignFloat(node, tolerance) {\n            const calendar = node.workCalendar;\n            const startSlack = calendar.workDaysBetween(node.earliestReqStart, node.earlyStart);\n            const finishSlack = calendar.workDaysBetween(node.earlyFinish, node.latestReqFinish);\n            node.totalFloat = Math.min(startSlack, finishSlack);\n            node.lateFinish = calendar.addWorkDays(node.earlyFinish, Math.max(0, node.totalFloat), true);\n            node.lateStart = calendar.addWorkDays(node.lateFinish, -node.duration, false);\n            node.violatesConstraints = node.totalFloat < -tolerance;\n            if (node.violatesConstraints) {\n                node.violatedConstraint = (startSlack <= finishSlack ? node.earliestReqSource : node.latestReqSource) || constraints_2.LOGIC_VIOLATION;\n            }\n            node.isCriticalByFloat = node.totalFloat <= tolerance;\n            pinMilestone(node);\n        }\n    };\n    const unconstrainedMode = {\n        initialize(node, input) {\n            const t = node.task;\n            const dataDate = input.dataDate ?? null;\n            const calendar = node.workCalendar;\n            const progressed = (0, progress_2.applyProgress)(t.start, t.finish, t, dataDate, calendar);\n            node.progress = progressed.status;\n            node.isStarted = progressed.status !== 'notStarted';\n            node.duration = node.milestone ? 0\n                : !node.isStarted && t.duration != null && isFinite(t.duration)\n                    ? Math.max(0, t.duration)\n                    : calendar.workDaysBetween(progressed.start, progressed.finish);\n            node.isMandatory = t.constraintType === 'MSO' || t.constraintType === 'MFO';\n            node.constraintFinish = (0, constraints_2.constraintLatestFinish)(t.constraintType, t.constraintDate, node.duration, calendar);\n            const constraintStart = (0, constraints_2.constraintEarliestStart)(t.constraintType, t.constraintDate, node.duration, calendar);\n            const projectStart = calendar.addWorkDays(dataDate === null ? 0 : Math.max(0, dataDate), 0, false);\n            node.earlyStart = node.isStarted ? progressed.start\n                : constraintStart === null ? projectStart\n                    : node.isMandatory ? constraintStart : Math.max(projectStart, constraintStart);\n            node.earlyFinish = calendar.addWorkDays(node.earlyStart, node.duration, true);\n            pinMilestone(node);\n        },\n        forward(succ, requiredStart) {\n            succ.logicStart = Math.max(succ.logicStart, requiredStart);\n            if (!succ.isMandatory && !succ.isStarted) {\n                succ.earlyStart = Math.max(succ.earlyStart, requiredStart);\n                succ.earlyFinish = succ.workCalendar.addWorkDays(succ.earlyStart, succ.duration, true);\n                pinMilestone(succ);\n            }\n        },\n        backward(network) {\n            const { nodeMap, successors, order } = network;\n            const projectEnd = projectFinishOf(network.nodes);\n            const dueFinish = network.input.requiredFinish ?? projectEnd;\n            for (let i = order.length - 1; i >= 0; i--) {\n                const node = nodeMap.get(order[i]);\n                if (node.task.constraintType !== 'ALAP' || node.isStarted)\n                    continue;\n                let allowedFinish = projectEnd;\n                for (const succId of successors.get(node.internalId) || []) {\n                    const succ = nodeMap.get(succId);\n                    const { type, lag } = linkOf(succ, node.internalId);\n                    allowedFinish = Math.min(allowedFinish, (0, calendar_2.predecessorFinishFromRelationship)(type, lag, succ.earlyStart, succ.earlyFinish, node.duration, node.workCalendar));\n                }\n                if (allowedFinish > node.earlyFinish) {\n                    node.earlyFinish = allowedFinish;\n                    node.earlyStart = node.workCalendar.addWorkDays(allowedFinish, -node.duration, false);\n                    pinMilestone(node);\n                }\n            }\n            for (let i = order.length - 1; i >= 0; i--) {\n                const node = nodeMap.get(order[i]);\n                if (node.progress === 'completed') {\n                    node.lateStart = node.earlyStart;\n                    node.lateFinish = node.earlyFinish;\n                    continue;\n                }\n                const succs = successors.get(node.internalId) || [];\n                let lateFinish = succs.length === 0 ? dueFinish : Infinity;\n                for (const succId of succs) {\n                    const succ = nodeMap.get(succId);\n                    const { type, lag } = linkOf(succ, node.internalId);\n                    lateFinish = Math.min(lateFinish, (0, calendar_2.predecessorFinishFromRelationship)(type, lag, succ.lateStart, succ.lateFinish, node.duration, node.workCalendar));\n                }\n                lateFinish = Math.min(lateFinish, node.task.requiredFinish ?? Infinity);\n                if (node.constraintFinish !== null && (node.isMandatory || node.constraintFinish < lateFinish)) {\n                    lateFinish = node.constraintFinish;\n                }\n                node.lateFinish = lateFinish;\n                node.lateStart = node.workCalendar.addWorkDays(lateFinish, -node.duration, false);\n                pinMilestone(node);\n            }\n        },\n        assignFloat(node, tolerance) {\n            const calendar = node.workCalendar;\n            node.totalFloat = calendar.workDaysBetween(node.earlyStart, node.lateStart);\n            const brokenByLogic = node.isMandatory && node.logicStart > node.earlyStart && calendar.workDaysBetween(node.earlyStart, node.logicStart) > tolerance;\n            const finishTooLate = node.constraintFinish !== null && calendar.workDaysBetween(node.constraintFinish, node.earlyFinish) > tolerance;\n            node.violatesConstraints = brokenByLogic || finishTooLate;\n            node.violatedConstraint = node.violatesConstraints ? node.task.constraintType : null;\n            node.isCriticalByFloat = node.totalFloat <= tolerance;\n        }\n    };\n    const MODES = {\n        schedule: scheduleMode,\n        unconstrained: unconstrainedMode\n    };\n    function pinMilestone(node) {\n        if (node.milestone === 'start') {\n            node.earlyFinish = node.earlyStart;\n            node.lateFinish = node.lateStart;\n        }\n        else if (node.milestone === 'finish') {\n            node.earlyStart = node.earlyFinish;\n            node.lateStart = node.lateFinish;\n        }\n    }\n    function linkOf(succ, predId) {\n        return { type: succ.task.relationshipTypes[predId] || 'FS', lag: succ.task.relationshipLags[predId] ?? 0 };\n    }\n    function projectFinishOf(nodes) {\n        return nodes.reduce((max, n) => n.isSpan ? max : Math.max(max, n.earlyFinish), -Infinity);\n    }\n    function buildNetwork(input, mode) {\n        const resolveCalendar = (0, calendar_2.createCalendarResolver)(input.calendar, input.calendars, input.baseDay ?? 0);\n        const nodes = input.tasks.map(task => {\n            const node = {\n                task,\n                internalId: task.internalId,\n                workCalendar: resolveCalendar(task.calendar),\n                progress: 'notStarted',\n                isSpan: (0, taskTypes_1.isSpanTaskType)(task.taskType),\n                milestone: (0, taskTypes_1.milestoneKind)(task.taskType),\n                duration: 0,\n                earlyStart: task.start,\n                earlyFinish: task.finish,\n                lateStart: 0,\n                lateFinish: 0,\n                totalFloat: 0,\n                freeFloat: 0,\n                violatesConstraints: false,\n                violatedConstraint: null,\n                isCritical: false,\n                isCriticalByFloat: false,\n                isCriticalByRel: false,\n                isNearCritical: false,\n                earliestReqStart: task.start,\n                earliestReqSource: null,\n                latestReqFinish: task.finish,\n                latestReqSource: null,\n                isStarted: false,\n                isMandatory: false,\n                logicStart: -Infinity,\n                constraintFinish: null\n            };\n            mode.initialize(node, input);\n            return node;\n        });\n        const nodeMap = new Map();\n        nodes.forEach(n => nodeMap.set(n.internalId, n));\n        const known = input.relationships.filter(rel => nodeMap.has(rel.predecessorId) && nodeMap.has(rel.successorId));\n        const touchesSpan = (rel) => nodeMap.get(rel.predecessorId).isSpan || nodeMap.get(rel.successorId).isSpan;\n        const relationships = known.filter(rel => !touchesSpan(rel));\n        const spanLinks = known.filter(touchesSpan);\n        const successors = new Map();\n        const inDegree = new Map();\n        nodes.forEach(n => { if (!n.isSpan)\n            inDegree.set(n.internalId, 0); });\n        relationships.forEach(rel => {\n            if (!successors.has(rel.predecessorId))\n                successors.set(rel.predecessorId, []);\n            successors.get(rel.predecessorId).push(rel.successorId);\n            inDegree.set(rel.successorId, inDegree.get(rel.successorId) + 1);\n        });\n        const order = [];\n        inDegree.forEach((d, id) => { if (d === 0)\n            order.push(id); });\n        for (let head = 0; head < order.length; head++) {\n            for (const succId of successors.get(order[head]) || []) {\n                const remaining = inDegree.get(succId) - 1;\n                inDegree.set(succId, remaining);\n                if (remaining === 0)\n                    order.push(succId);\n            }\n        }\n        return { input, nodes, nodeMap, relationships, spanLinks, successors, order };\n    }\n    function forwardPass(network, mode) {\n        for (const id of network.order) {\n            const pred = network.nodeMap.get(id);\n            for (const succId of network.successors.get(id) || []) {\n                const succ = network.nodeMap.get(succId);\n                const { type, lag } = linkOf(succ, id);\n                mode.forward(succ, (0, calendar_2.successorStartFromRelationship)(type, lag, pred.earlyStart, pred.earlyFinish, succ.duration, pred.workCalendar, succ.workCalendar));\n            }\n        }\n    }\n    function assignFreeFloat(network) {\n        const projectFinish = projectFinishOf(network.nodes);\n        network.nodes.forEach(node => {\n            if (node.isSpan)\n                return;\n            const succs = network.successors.get(node.internalId) || [];\n            let freeFloat = succs.length === 0 ? node.workCalendar.workDaysBetween(node.earlyFinish, projectFinish) : Infinity;\n            for (const succId of succs) {\n                const succ = network.nodeMap.get(succId);\n                const { type, lag } = linkOf(succ, node.internalId);\n                freeFloat = Math.min(freeFloat, (0, calendar_2.relationshipSlack)(type, lag, node.earlyFinish, node.duration, succ.earlyStart, succ.earlyFinish, node.workCalendar));\n            }\n            node.freeFloat = freeFloat;\n        });\n    }\n    function markCompleted(node) {\n        node.lateStart = node.earlyStart;\n        node.lateFinish = node.earlyFinish;\n        node.totalFloat = 0;\n        node.freeFloat = 0;\n        node.violatesConstraints = false;\n        node.violatedConstraint = null;\n        node.isCriticalByFloat = false;\n        node.isNearCritical = false;\n        node.isCriticalByRel = false;\n    }\n    function assignSpans(network) {\n        const linked = (ids, node) => network.spanLinks\n            .filter(rel => ids(rel)[0] === node.internalId)\n            .map(rel => {\n            const other = network.nodeMap.get(ids(rel)[1]);\n            return { type: rel.type || 'FS', lag: rel.lag ?? 0, start: other.earlyStart, finish: other.earlyFinish };\n        });\n        network.nodes.forEach(node => {\n            if (!node.isSpan)\n                return;\n            const predecessors = linked(rel => [rel.successorId, rel.predecessorId], node);\n            const successors = linked(rel => [rel.predecessorId, rel.successorId], node);\n            const { start, finish } = (0, taskTypes_1.spanDates)(predecessors, successors, { start: node.earlyStart, finish: node.earlyFinish }, node.workCalendar);\n            node.earlyStart = node.lateStart = start;\n            node.earlyFinish = node.lateFinish = finish;\n            node.duration = node.workCalendar.workDaysBetween(start, finish);\n            node.totalFloat = node.freeFloat = Infinity;\n            node.violatesConstraints = false;\n            node.violatedConstraint = null;\n            node.isCriticalByFloat = false;\n            node.isNearCritical = false;\n        });\n    }\n    function classifyRelationships(network) {\n        const tolerance = network.input.floatTolerance;\n        const drivingRels = [];\n        network.input.relationships.forEach(rel => {\n            const pred = network.nodeMap.get(rel.predecessorId);\n            const succ = network.nodeMap.get(rel.successorId);\n            if (!pred || !succ || pred.isSpan || succ.isSpan) {\n                rel.isCritical = false;\n                rel.isDriving = false;\n                return;\n            }\n            if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) {\n                rel.isDriving = rel.freeFloat <= tolerance;\n                rel.isCritical = rel.isDriving && pred.progress !== 'completed';\n                if (rel.isCritical)\n                    drivingRels.push(rel);\n            }\n            else {\n                const required = (0, calendar_2.successorStartFromRelationship)(rel.type || 'FS', rel.lag || 0, pred.earlyStart, pred.earlyFinish, succ.duration, pred.workCalendar, succ.workCalendar);\n                rel.isDriving = Math.abs(succ.workCalendar.workDaysBetween(required, succ.earlyStart)) <= tolerance;\n                if (rel.isDriving && pred.progress !== 'completed')\n                    drivingRels.push(rel);\n                rel.isCritical = rel.isDriving && pred.isCriticalByFloat && succ.isCriticalByFloat;\n            }\n        });\n        return drivingRels;\n    }\n    function traceTaskIds(network, trace) {\n        const reach = (startId, direction) => {\n            const next = new Map();\n            network.relationships.forEach(rel => {\n                const [from, to] = direction === 'backward' ? [rel.successorId, rel.predecessorId] : [rel.predecessorId, rel.successorId];\n                if (!next.has(from))\n                    next.set(from, []);\n                next.get(from).push(to);\n            });\n            const reached = new Set([startId]);\n            const stack = [startId];\n            while (stack.length) {\n                for (const id of next.get(stack.pop()) || []) {\n                    if (!reached.has(id)) {\n                        reached.add(id);\n                        stack.push(id);\n                    }\n                }\n            }\n            return reached;\n        };\n        if (trace.direction !== 'between')\n            return reach(trace.targetId, trace.direction);\n        const downstream = reach(trace.sourceId, 'forward');\n        return new Set(Array.from(reach(trace.targetId, 'backward')).filter(id => downstream.has(id)));\n    }\n    function slackOf(network, rel) {\n        if (rel.freeFloat !== null && !isNaN(rel.freeFloat))\n            return rel.freeFloat;\n        const pred = network.nodeMap.get(rel.predecessorId);\n        const succ = network.nodeMap.get(rel.successorId);\n        return (0, calendar_2.relationshipSlack)(rel.type || 'FS', rel.lag || 0, pred.earlyFinish, pred.duration, succ.earlyStart, succ.earlyFinish, pred.workCalendar);\n    }\n    function toResult(node) {\n        return {\n            internalId: node.internalId,\n            duration: node.duration,\n            earlyStart: node.earlyStart,\n            earlyFinish: node.earlyFinish,\n            lateStart: node.lateStart,\n            lateFinish: node.lateFinish,\n            totalFloat: node.totalFloat,\n            freeFloat: node.freeFloat,\n            violatesConstraints: node.violatesConstraints,\n            violatedConstraint: node.violatedConstraint,\n            isCritical: node.isCritical,\n            isCriticalByFloat: node.isCriticalByFloat,\n            isCriticalByRel: node.isCriticalByRel,\n            isNearCritical: node.isNearCritical\n        };\n    }\n    function runCpm(input) {\n        const mode = MODES[input.unconstrainedMode ? 'unconstrained' : 'schedule'];\n        const tolerance = input.floatTolerance;\n        const network = buildNetwork(input, mode);\n        forwardPass(network, mode);\n        mode.backward(network);\n        assignFreeFloat(network);\n        assignSpans(network);\n        network.nodes.forEach(node => {\n            if (node.isSpan)\n                return;\n            if (node.progress === 'completed') {\n                markCompleted(node);\n                return;\n            }\n            mode.assignFloat(node, tolerance);\n            const nearFloat = input.nearCriticalBasis === 'freeFloat' ? node.freeFloat : node.totalFloat;\n            node.isNearCritical = !node.isCriticalByFloat && !node.violatesConstraints && nearFloat > tolerance && nearFloat <= input.floatThreshold;\n        });\n        let drivingRels = classifyRelationships(network);\n        const trace = input.trace && network.nodeMap.has(input.trace.targetId) &&\n            (input.trace.direction !== 'between' || network.nodeMap.has(input.trace.sourceId ?? '')) ? input.trace : null;\n        const traced = trace ? traceTaskIds(network, trace) : null;\n        if (traced) {\n            network.nodes.forEach(node => {\n                if (traced.has(node.internalId))\n                    return;\n                node.isCriticalByFloat = false;\n                node.isNearCritical = false;\n            });\n            network.relationships.forEach(rel => {\n                if (!traced.has(rel.predecessorId) || !traced.has(rel.successorId))\n                    rel.isCritical = false;\n            });\n            drivingRels = drivingRels.filter(rel => traced.has(rel.predecessorId) && traced.has(rel.successorId));\n        }\n        network.relationships.forEach(rel => {\n            if (!rel.isCritical)\n                return;\n            network.nodeMap.get(rel.predecessorId).isCriticalByRel = true;\n            network.nodeMap.get(rel.successorId).isCriticalByRel = true;\n        });\n        network.nodes.forEach(node => { node.isCritical = node.isCriticalByFloat || node.isCriticalByRel; });\n        if (trace?.direction === 'between') {\n            const links = network.relationships\n                .filter(rel => traced.has(rel.predecessorId) && traced.has(rel.successorId))\n                .map(rel => ({ rel, predecessorId: rel.predecessorId, successorId: rel.successorId, slack: slackOf(network, rel) }));\n            const path = (0, longestPath_2.findPathBetween)(trace.sourceId, trace.targetId, links);\n            const pathRels = new Set(path ? Array.from(path.links, link => link.rel) : []);\n            network.nodes.forEach(node => {\n                node.isCriticalByRel = !!path && path.taskIds.has(node.internalId);\n                node.isCritical = node.isCriticalByRel;\n                if (node.isCritical)\n                    node.isNearCritical = false;\n            });\n            input.relationships.forEach(rel => { rel.isCritical = pathRels.has(rel); });\n        }\n        else if (input.criticalityMode === 'longestPath') {\n            const seeds = trace ? [trace.targetId] : (0, longestPath_2.findProjectFinishTasks)(network.nodes.filter(n => !n.isSpan), tolerance);\n            const path = (0, longestPath_2.traceDrivingPath)(seeds, drivingRels, trace ? trace.direction : 'backward');\n            network.nodes.forEach(node => {\n                node.isCriticalByRel = path.taskIds.has(node.internalId);\n                node.isCritical = node.isCriticalByRel;\n                if (node.isCritical)\n                    node.isNearCritical = false;\n            });\n            input.relationships.forEach(rel => { rel.isCritical = path.links.has(rel); });\n        }\n        if (trace && trace.direction !== 'between') {\n            const target = network.nodeMap.get(trace.targetId);\n            target.isCritical = true;\n            target.isNearCritical = false;\n        }\n        return {\n            tasks: network.nodes.map(toResult),\n            relationships: input.relationships.map(rel => ({\n                predecessorId: rel.predecessorId,\n                successorId: rel.successorId,\n                isCritical: !!rel.isCritical,\n                isDriving: !!rel.isDriving\n            }))\n        };\n    }\n    function analyzeSchedule(input) {\n        return runCpm({ ...input, unconstrainedMode: false });\n    }\n    function analyzeUnconstrained(input) {\n        return runCpm({ ...input, unconstrainedMode: true });\n    }\n    function simulateSchedule(input, options) {\n        const run = startScheduleSimulation(input, options);\n        run.step(run.iterations);\n        return run.result();\n    }\n    function startScheduleSimulation(input, options) {\n        const resolveCalendar = (0, calendar_2.createCalendarResolver)(input.calendar, input.calendars, input.baseDay ?? 0);\n        const spanIds = new Set(input.tasks.filter(t => (0, taskTypes_1.isSpanTaskType)(t.taskType)).map(t => t.internalId));\n        const tasks = spanIds.size === 0 ? input.tasks : input.tasks\n            .filter(t => !spanIds.has(t.internalId))\n            .map(t => ({ ...t, predecessorIds: t.predecessorIds.filter(id => !spanIds.has(id)) }));\n        return (0, monteCarlo_1.startMonteCarlo)(tasks, resolveCalendar, options, input.floatTolerance, input.dataDate ?? null);\n    }\n    function handleCpmRequest(input) {\n        const result = runCpm(input);\n        const monteCarlo = input.monteCarlo && input.tasks.length > 0 ? simulateSchedule(input, input.monteCarlo) : null;\n        return { ...result, monteCarlo };\n    }\n});\ndefine(\"scenario\", [\"require\", \"exports\", \"calendar\", \"cpmEngine\"], function (require, exports, calendar_3, cpmEngine_1) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.RELATIONSHIP_TYPES = void 0;\n    exports.emptyScenario = emptyScenario;\n    exports.linkKey = linkKey;\n    exports.countOverrides = countOverrides;\n    exports.parseScenario = parseScenario;\n    exports.serializeScenario = serializeScenario;\n    exports.applyScenario = applyScenario;\n    exports.forwardPass = forwardPass;\n    exports.scenarioFinishShifts = scenarioFinishShifts;\n    exports.RELATIONSHIP_TYPES = ['FS', 'SS', 'FF', 'SF'];\n    function emptyScenario() {\n        return { tasks: {}, links: {} };\n    }\n    function linkKey(predecessorId, successorId) {\n        return `${predecessorId}->${successorId}`;\n    }\n    function countOverrides(scenario) {\n        return Object.keys(scenario.tasks).length + Object.keys(scenario.links).length;\n    }\n    const isNumber = (value) => typeof value === 'number' && isFinite(value);\n    function parseScenario(text) {\n        const scenario = emptyScenario();\n        if (!text)\n            return scenario;\n        let saved;\n        try {\n            saved = JSON.parse(text);\n        }\n        catch {\n            return scenario;\n        }\n        if (!saved || typeof saved !== 'object')\n            return scenario;\n        Object.entries((saved.tasks ?? {})).forEach(([id, override]) => {\n            if (isNumber(override?.duration) && override.duration >= 0)\n                scenario.tasks[id] = { duration: override.duration };\n        });\n        Object.entries((saved.links ?? {})).forEach(([key, override]) => {\n            const link = {};\n            if (typeof override?.type === 'string' && exports.RELATIONSHIP_TYPES.includes(override.type))\n                link.type = override.type;\n            if (isNumber(override?.lag))\n                link.lag = override.lag;\n            if (Object.keys(link).length > 0)\n                scenario.links[key] = link;\n        });\n        return scenario;\n    }\n    function serializeScenario(scenario) {\n        return countOverrides(scenario) === 0 ? \"\" : JSON.stringify(scenario);\n    }\n    function applyScenario(input, scenario) {\n        const resolveCalendar = (0, calendar_3.createCalendarResolver)(input.calendar, input.calendars, input.baseDay ?? 0);\n        const tasks = input.tasks.map(task => {\n            const override = scenario.tasks[task.internalId];\n            const links = task.predecessorIds.filter(id => scenario.links[linkKey(id, task.internalId)]);\n            if (!override && links.length === 0)\n                return task;\n            const changed = { ...task, relationshipTypes: { ...task.relationshipTypes }, relationshipLags: { ...task.relationshipLags } };\n            links.forEach(id => {\n                const link = scenario.links[linkKey(id, task.internalId)];\n                if (link.type !== undefined)\n                    changed.relationshipTypes[id] = link.type;\n                if (link.lag !== undefined)\n                    changed.relationshipLags[id] = link.lag;\n            });\n            if (override?.duration !== undefined) {\n                const calendar = resolveCalendar(task.calendar);\n                const current = task.duration ?? calendar.workDaysBetween(task.start, task.finish);\n                changed.duration = override.duration;\n                changed.finish = calendar.addWorkDays(task.start, override.duration, true);\n                if (task.remainingDuration != null) {\n                    changed.remainingDuration = Math.max(0, task.remainingDuration + override.duration - current);\n                }\n            }\n            return changed;\n        });\n        const relationships = input.relationships.map(rel => {\n            const link = scenario.links[linkKey(rel.predecessorId, rel.successorId)];\n            if (!link)\n                return rel;\n            return { ...rel, type: link.type ?? rel.type, lag: link.lag ?? rel.lag, freeFloat: null };\n        });\n        return { ...input, tasks, relationships };\n    }\n    function forwardPass(input) {\n        return (0, cpmEngine_1.runCpm)({ ...input, unconstrainedMode: true, trace: null, monteCarlo: null, criticalityMode: 'totalFloat' });\n    }\n    function scenarioFinishShifts(input, scenario) {\n        const current = forwardPass(input);\n        const changed = forwardPass(applyScenario(input, scenario));\n        const resolveCalendar = (0, calendar_3.createCalendarResolver)(input.calendar, input.calendars, input.baseDay ?? 0);\n        const shifts = {};\n        current.tasks.forEach((task, i) => {\n            const calendar = resolveCalendar(input.tasks[i].calendar);\n            shifts[task.internalId] = calendar.workDaysBetween(task.earlyFinish, changed.tasks[i].earlyFinish);\n        });\n        return shifts;\n    }\n});\ndefine(\"dcma\", [\"require\", \"exports\", \"calendar\", \"scenario\"], function (require, exports, calendar_4, scenario_1) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.DEFAULT_DCMA_THRESHOLDS = exports.CRITICAL_PATH_TEST_DELAY = void 0;\n    exports.assessSchedule = assessSchedule;\n    exports.criticalPathTester = criticalPathTester;\n    exports.runCriticalPathTest = runCriticalPathTest;\n    exports.CRITICAL_PATH_TEST_DELAY = 600;\n    const HARD_CONSTRAINTS = ['MSO', 'MFO', 'SNLT', 'FNLT'];\n    exports.DEFAULT_DCMA_THRESHOLDS = {\n        maxPercent: 5,\n        minFsPercent: 90,\n        highFloatDays: 44,\n        highDurationDays: 44,\n        minIndex: 0.95\n    };\n    const round = (value, places) => Math.round(value * 10 ** places) / 10 ** places;\n    function percentCheck(name, offenders, population, maxPercent) {\n        if (population === 0)\n            return { name, result: \"N/A\", target: `≤ ${maxPercent}%`, passed: null, taskIds: [] };\n        const percent = offenders.length / population * 100;\n        return { name, result: `${round(percent, 1)}% (${offenders.length})`, target: `≤ ${maxPercent}%`, passed: percent <= maxPercent, taskIds: offenders };\n    }\n    function countCheck(name, offenders, population) {\n        if (population === 0)\n            return { name, result: \"N/A\", target: \"0\", passed: null, taskIds: [] };\n        return { name, result: String(offenders.length), target: \"0\", passed: offenders.length === 0, taskIds: offenders };\n    }\n    function indexCheck(name, value, minIndex, taskIds = []) {\n        if (value === null || !isFinite(value))\n            return { name, result: \"N/A\", target: `≥ ${minIndex}`, passed: null, taskIds: [] };\n        return { name, result: round(value, 2).toFixed(2), target: `≥ ${minIndex}`, passed: value >= minIndex, taskIds };\n    }\n    const unique = (ids) => Array.from(new Set(ids));\n    function assessSchedule(input, thresholds = exports.DEFAULT_DCMA_THRESHOLDS) {\n        const { tasks, dataDate, tolerance } = input;\n        const open = tasks.filter(t => !t.completed);\n        const openIds = new Set(open.map(t => t.id));\n        const links = input.links.filter(l => openIds.has(l.successorId));\n        const successorsOf = (filter) => unique(links.filter(filter).map(l => l.successorId));\n        const checks = [\n            percentCheck(\"Missing Logic\", open.filter(t => t.predecessorCount === 0 || t.successorCount === 0).map(t => t.id), open.length, thresholds.maxPercent),\n            countCheck(\"Leads\", successorsOf(l => (l.lag ?? 0) < 0), links.length),\n            percentCheck(\"Lags\", successorsOf(l => (l.lag ?? 0) > 0), links.length, thresholds.maxPercent)\n        ];\n        const fsCount = links.filter(l => l.type === 'FS').length;\n        const sfLinks = successorsOf(l => l.type === 'SF');\n        const fsPercent = links.length ? fsCount / links.length * 100 : 0;\n        checks.push(links.length === 0\n            ? { name: \"Relationship Types\", result: \"N/A\", target: `≥ ${thresholds.minFsPercent}% FS, no SF`, passed: null, taskIds: [] }\n            : {\n                name: \"Relationship Types\",\n                result: `${round(fsPercent, 1)}% FS, ${links.filter(l => l.type === 'SF').length} SF`,\n                target: `≥ ${thresholds.minFsPercent}% FS, no SF`,\n                passed: fsPercent >= thresholds.minFsPercent && sfLinks.length === 0,\n                taskIds: unique([...sfLinks, ...successorsOf(l => l.type !== 'FS')])\n            });\n        checks.push(percentCheck(\"Hard Constraints\", open.filter(t => t.constraintType !== null && HARD_CONSTRAINTS.includes(t.constraintType)).map(t => t.id), open.length, thresholds.maxPercent), percentCheck(`High Float (> ${thresholds.highFloatDays}d)`, open.filter(t => isFinite(t.totalFloat) && t.totalFloat > thresholds.highFloatDays).map(t => t.id), open.length, thresholds.maxPercent), countCheck(\"Negative Float\", open.filter(t => t.totalFloat < -tolerance).map(t => t.id), open.length));\n        const openWork = open.filter(t => !t.isMilestone);\n        checks.push(percentCheck(`High Duration (> ${thresholds.highDurationDays}d)`, openWork.filter(t => t.duration > thresholds.highDurationDays).map(t => t.id), openWork.length, thresholds.maxPercent));\n        if (dataDate === null) {\n            checks.push({ name: \"Invalid Dates\", result: \"No data date\", target: \"0\", passed: null, taskIds: [] });\n        }\n        else {\n            const invalid = tasks.filter(t => (t.actualStart !== null && t.actualStart > dataDate) ||\n                (t.actualFinish !== null && t.actualFinish > dataDate) ||\n                (!t.completed && t.finish !== null && t.finish < dataDate) ||\n                (!t.completed && t.actualStart === null && t.start !== null && t.start < dataDate));\n            checks.push(countCheck(\"Invalid Dates\", invalid.map(t => t.id), tasks.length));\n        }\n        const test = input.criticalPathTest;\n        checks.push(test\n            ? { name: \"Critical Path Test\", result: `Finish moved ${round(test.finishShift, 1)}d of ${test.delay}d`, target: \"Full delay\", passed: test.passed, taskIds: test.passed ? [] : [test.taskId] }\n            : { name: \"Critical Path Test\", result: test === undefined ? \"Testing...\" : \"No open critical task\", target: \"Full delay\", passed: null, taskIds: [] });\n        checks.push(indexCheck(\"CPLI\", criticalPathLengthIndex(input), thresholds.minIndex));\n        const due = dataDate === null ? [] : tasks.filter(t => t.baselineFinish !== null && t.baselineFinish <= dataDate);\n        checks.push(indexCheck(\"BEI\", due.length ? tasks.filter(t => t.completed).length / due.length : null, thresholds.minIndex, due.filter(t => !t.completed).map(t => t.id)));\n        return checks;\n    }\n    function criticalPathLengthIndex(input) {\n        const open = input.tasks.filter(t => !t.completed && isFinite(t.totalFloat));\n        const starts = input.tasks.map(t => t.start).filter((t) => t !== null);\n        const finishes = input.tasks.map(t => t.finish).filter((t) => t !== null);\n        if (open.length === 0 || starts.length === 0 || finishes.length === 0)\n            return null;\n        const from = input.dataDate ?? Math.min(...starts);\n        const length = input.calendar.workDaysBetween(from, Math.max(...finishes));\n        if (length <= 0)\n            return null;\n        const pathFloat = Math.min(...open.map(t => t.totalFloat));\n        return (length + pathFloat) / length;\n    }\n    function criticalPathTester(input, delay = exports.CRITICAL_PATH_TEST_DELAY) {\n        const resolveCalendar = (0, calendar_4.createCalendarResolver)(input.calendar, input.calendars, input.baseDay ?? 0);\n        const projectFinish = (data) => Math.max(...(0, scenario_1.forwardPass)(data).tasks.map(t => t.earlyFinish));\n        let before = null;\n        return (taskId) => {\n            const task = input.tasks.find(t => t.internalId === taskId);\n            if (!task)\n                return null;\n            if (before === null)\n                before = projectFinish(input);\n            const duration = task.duration ?? resolveCalendar(task.calendar).workDaysBetween(task.start, task.finish);\n            const after = projectFinish((0, scenario_1.applyScenario)(input, { tasks: { [taskId]: { duration: duration + delay } }, links: {} }));\n            const finishShift = resolveCalendar(null).workDaysBetween(before, after);\n            return { taskId, delay, finishShift, passed: finishShift >= delay - input.floatTolerance };\n        };\n    }\n    function runCriticalPathTest(input, taskId, delay = exports.CRITICAL_PATH_TEST_DELAY) {\n        return criticalPathTester(input, delay)(taskId);\n    }\n});\ndefine(\"cpmTransfer\", [\"require\", \"exports\"], function (require, exports) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.PACKED_TASK_THRESHOLD = void 0;\n    exports.isPacked = isPacked;\n    exports.packCpmInput = packCpmInput;\n    exports.unpackCpmInput = unpackCpmInput;\n    exports.packCpmResponse = packCpmResponse;\n    exports.unpackCpmResponse = unpackCpmResponse;\n    exports.transferablesOf = transferablesOf;\n    exports.PACKED_TASK_THRESHOLD = 2000;\n    const TASK_FIELDS = [\n        'start', 'finish', 'duration', 'constraintDate', 'requiredFinish',\n        'percentComplete', 'actualStart', 'actualFinish', 'remainingDuration',\n        'optimisticDuration', 'mostLikelyDuration', 'pessimisticDuration'\n    ];\n    const RESULT_FIELDS = ['duration', 'earlyStart', 'earlyFinish', 'lateStart', 'lateFinish', 'totalFloat', 'freeFloat'];\n    const RESULT_FLAGS = ['violatesConstraints', 'isCritical', 'isCriticalByFloat', 'isCriticalByRel', 'isNearCritical'];\n    function isPacked(message) {\n        return message.packed === true;\n    }\n    const toNumber = (value) => value === null || value === undefined ? NaN : value;\n    const fromNumber = (value) => isNaN(value) ? null : value;\n    function packCpmInput(input) {\n        const { tasks, relationships, ...options } = input;\n        const ids = tasks.map(t => t.internalId);\n        const indexById = new Map();\n        ids.forEach((id, i) => indexById.set(id, i));\n        const indexOf = (id) => {\n            if (!indexById.has(id)) {\n                indexById.set(id, ids.length);\n                ids.push(id);\n            }\n            return indexById.get(id);\n        };\n        const taskNumbers = new Float64Array(tasks.length * TASK_FIELDS.length);\n        tasks.forEach((task, i) => {\n            TASK_FIELDS.forEach((field, f) => { taskNumbers[i * TASK_FIELDS.length + f] = toNumber(task[field]); });\n        });\n        const linkTypeNames = [];\n        const links = new Int32Array(relationships.length * 2);\n        const linkTypes = new Uint8Array(relationships.length);\n        const linkNumbers = new Float64Array(relationships.length * 2);\n        relationships.forEach((rel, i) => {\n            links[i * 2] = indexOf(rel.predecessorId);\n            links[i * 2 + 1] = indexOf(rel.successorId);\n            let typeIndex = linkTypeNames.indexOf(rel.type);\n            if (typeIndex < 0)\n                typeIndex = linkTypeNames.push(rel.type) - 1;\n            linkTypes[i] = typeIndex;\n            linkNumbers[i * 2] = toNumber(rel.lag);\n            linkNumbers[i * 2 + 1] = toNumber(rel.freeFloat);\n        });\n        return {\n            packed: true,\n            options,\n            ids,\n            taskCount: tasks.length,\n            taskNumbers,\n            calendars: tasks.map(t => t.calendar ?? null),\n            taskTypes: tasks.map(t => t.taskType ?? null),\n            constraintTypes: tasks.map(t => t.constraintType ?? null),\n            links,\n            linkTypes,\n            linkTypeNames,\n            linkNumbers\n        };\n    }\n    function unpackCpmInput(packed) {\n        const tasks = [];\n        for (let i = 0; i < packed.taskCount; i++) {\n            const task = {\n                internalId: packed.ids[i],\n                start: 0,\n                finish: 0,\n                predecessorIds: [],\n                relationshipTypes: {},\n                relationshipLags: {},\n                calendar: packed.calendars[i],\n                taskType: packed.taskTypes[i],\n                constraintType: packed.constraintTypes[i]\n            };\n            TASK_FIELDS.forEach((field, f) => { task[field] = fromNumber(packed.taskNumbers[i * TASK_FIELDS.length + f]); });\n            tasks.push(task);\n        }\n        const relationships = Array.from(packed.linkTypes, (typeIndex, i) => {\n            const predecessorId = packed.ids[packed.links[i * 2]];\n            const successorIndex = packed.links[i * 2 + 1];\n            const rel = {\n                predecessorId,\n                successorId: packed.ids[successorIndex],\n                type: packed.linkTypeNames[typeIndex],\n                lag: fromNumber(packed.linkNumbers[i * 2]),\n                freeFloat: fromNumber(packed.linkNumbers[i * 2 + 1])\n            };\n            const successor = tasks[successorIndex];\n            if (successor) {\n                successor.predecessorIds.push(predecessorId);\n                successor.relationshipTypes[predecessorId] = rel.type;\n                successor.relationshipLags[predecessorId] = rel.lag;\n            }\n            return rel;\n        });\n        return { ...packed.options, tasks, relationships };\n    }\n    function packCpmResponse(response) {\n        const taskNumbers = new Float64Array(response.tasks.length * RESULT_FIELDS.length);\n        const taskFlags = new Uint8Array(response.tasks.length);\n        response.tasks.forEach((task, i) => {\n            RESULT_FIELDS.forEach((field, f) => { taskNumbers[i * RESULT_FIELDS.length + f] = task[field]; });\n            RESULT_FLAGS.forEach((flag, bit) => { if (task[flag])\n                taskFlags[i] |= 1 << bit; });\n        });\n        return {\n            packed: true,\n            taskNumbers,\n            taskFlags,\n            violatedConstraints: response.tasks.map(t => t.violatedConstraint),\n            linkFlags: Uint8Array.from(response.relationships, rel => (rel.isCritical ? 1 : 0) | (rel.isDriving ? 2 : 0)),\n            monteCarlo: response.monteCarlo\n        };\n    }\n    function unpackCpmResponse(packed, request) {\n        return {\n            tasks: request.tasks.map((task, i) => {\n                const result = { internalId: task.internalId, violatedConstraint: packed.violatedConstraints[i] };\n                RESULT_FIELDS.forEach((field, f) => { result[field] = packed.taskNumbers[i * RESULT_FIELDS.length + f]; });\n                RESULT_FLAGS.forEach((flag, bit) => { result[flag] = (packed.taskFlags[i] & (1 << bit)) !== 0; });\n                return result;\n            }),\n            relationships: request.relationships.map((rel, i) => ({\n                predecessorId: rel.predecessorId,\n                successorId: rel.successorId,\n                isCritical: (packed.linkFlags[i] & 1) !== 0,\n                isDriving: (packed.linkFlags[i] & 2) !== 0\n            })),\n            monteCarlo: packed.monteCarlo\n        };\n    }\n    function transferablesOf(message) {\n        const arrays = 'links' in message\n            ? [message.taskNumbers, message.links, message.linkTypes, message.linkNumbers]\n            : [message.taskNumbers, message.taskFlags, message.linkFlags];\n        return arrays.map(a => a.buffer);\n    }\n});\ndefine(\"cpmWorker\", [\"require\", \"exports\", \"cpmEngine\", \"dcma\", \"cpmTransfer\", \"cpmEngine\"], function (require, exports, cpmEngine_2, dcma_1, cpmTransfer_1, cpmEngine_3) {\n    \"use strict\";\n    Object.defineProperty(exports, \"__esModule\", { value: true });\n    exports.PATH_TEST_BATCH = exports.simulateSchedule = exports.analyzeUnconstrained = exports.analyzeSchedule = void 0;\n    exports.cpmWorkerMain = cpmWorkerMain;\n    Object.defineProperty(exports, \"analyzeSchedule\", { enumerable: true, get: function () { return cpmEngine_3.analyzeSchedule; } });\n    Object.defineProperty(exports, \"analyzeUnconstrained\", { enumerable: true, get: function () { return cpmEngine_3.analyzeUnconstrained; } });\n    Object.defineProperty(exports, \"simulateSchedule\", { enumerable: true, get: function () { return cpmEngine_3.simulateSchedule; } });\n    const SIMULATION_BATCH = 50;\n    exports.PATH_TEST_BATCH = 5;\n    function cpmWorkerMain(scope) {\n        const pending = new Set();\n        const cancelled = new Set();\n        let queue = Promise.resolve();\n        const yieldToMessages = () => new Promise(resolve => setTimeout(resolve, 0));\n        const run = async (requestId, message) => {\n            const isCancelled = () => cancelled.delete(requestId);\n            await yieldToMessages();\n            if (isCancelled())\n                return scope.postMessage({ type: 'cancelled', requestId });\n            const input = (0, cpmTransfer_1.isPacked)(message) ? (0, cpmTransfer_1.unpackCpmInput)(message) : message;\n            scope.postMessage({ type: 'progress', requestId, stage: 'analysis', fraction: 0 });\n            const analysis = (0, cpmEngine_2.runCpm)(input);\n            let monteCarlo = null;\n            if (input.monteCarlo && input.tasks.length > 0) {\n                const simulation = (0, cpmEngine_2.startScheduleSimulation)(input, input.monteCarlo);\n                while (!simulation.step(SIMULATION_BATCH)) {\n                    scope.postMessage({ type: 'progress', requestId, stage: 'simulation', fraction: simulation.completed / simulation.iterations });\n                    await yieldToMessages();\n                    if (isCancelled())\n                        return scope.postMessage({ type: 'cancelled', requestId });\n                }\n                monteCarlo = simulation.result();\n            }\n            const response = { ...analysis, monteCarlo };\n            if ((0, cpmTransfer_1.isPacked)(message)) {\n                const packed = (0, cpmTransfer_1.packCpmResponse)(response);\n                scope.postMessage({ type: 'result', requestId, result: packed }, (0, cpmTransfer_1.transferablesOf)(packed));\n            }\n            else {\n                scope.postMessage({ type: 'result', requestId, result: response });\n            }\n        };\n        const runPathTests = async (requestId, input, taskIds, delay) => {\n            const isCancelled = () => cancelled.delete(requestId);\n            const test = (0, dcma_1.criticalPathTester)(input, delay);\n            const results = [];\n            for (let i = 0; i < taskIds.length; i++) {\n                if (i % exports.PATH_TEST_BATCH === 0) {\n                    scope.postMessage({ type: 'progress', requestId, stage: 'pathTest', fraction: i / taskIds.length });\n                    await yieldToMessages();\n                    if (isCancelled())\n                        return scope.postMessage({ type: 'cancelled', requestId });\n                }\n                const result = test(taskIds[i]);\n                if (result)\n                    results.push(result);\n            }\n            scope.postMessage({ type: 'pathTestResult', requestId, results });\n        };\n        scope.onmessage = event => {\n            const request = event.data;\n            if (request.type === 'cancel') {\n                if (pending.has(request.requestId))\n                    cancelled.add(request.requestId);\n                return;\n            }\n            pending.add(request.requestId);\n            queue = queue\n                .then(() => request.type === 'pathTest'\n                ? runPathTests(request.requestId, request.input, request.taskIds, request.delay)\n                : run(request.requestId, request.input))\n                .catch(error => scope.postMessage({ type: 'error', requestId: request.requestId, message: String(error?.message ?? error) }))\n                .then(() => {\n                pending.delete(request.requestId);\n                cancelled.delete(request.requestId);\n            });\n        };\n    }\n});\nload(\"cpmWorker\").cpmWorkerMain(self);\n})(self);\n";
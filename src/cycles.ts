@@ -0,0 +1,122 @@
+// cycles.ts
+
+export interface CycleLink {
+    predecessorId: string;
+    successorId: string;
+}
+
+function successorLists(links: CycleLink[], members: Set<string> | null = null): Map<string, string[]> {
+    const successors = new Map<string, string[]>();
+    links.forEach(link => {
+        if (members && (!members.has(link.predecessorId) || !members.has(link.successorId))) return;
+        if (!successors.has(link.predecessorId)) successors.set(link.predecessorId, []);
+        successors.get(link.predecessorId)!.push(link.successorId);
+    });
+    return successors;
+}
+
+/**
+ * Groups of tasks that can all reach each other through their links
+ * (Tarjan's strongly connected components, without recursion). Every group
+ * holds at least one loop; tasks outside a loop are not returned.
+ */
+export function findCycleGroups(taskIds: string[], links: CycleLink[]): string[][] {
+    const successors = successorLists(links);
+    const index = new Map<string, number>();
+    const low = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const groups: string[][] = [];
+    let counter = 0;
+
+    const visit = (id: string) => {
+        index.set(id, counter);
+        low.set(id, counter++);
+        stack.push(id);
+        onStack.add(id);
+    };
+
+    for (const root of taskIds) {
+        if (index.has(root)) continue;
+        visit(root);
+        const work: { id: string; next: number }[] = [{ id: root, next: 0 }];
+        while (work.length) {
+            const frame = work[work.length - 1];
+            const succs = successors.get(frame.id) || [];
+            if (frame.next < succs.length) {
+                const succId = succs[frame.next++];
+                if (!index.has(succId)) {
+                    visit(succId);
+                    work.push({ id: succId, next: 0 });
+                } else if (onStack.has(succId)) {
+                    low.set(frame.id, Math.min(low.get(frame.id)!, index.get(succId)!));
+                }
+                continue;
+            }
+            work.pop();
+            if (work.length) {
+                const parentId = work[work.length - 1].id;
+                low.set(parentId, Math.min(low.get(parentId)!, low.get(frame.id)!));
+            }
+            if (low.get(frame.id) === index.get(frame.id)) {
+                const group: string[] = [];
+                let id: string;
+                do {
+                    id = stack.pop()!;
+                    onStack.delete(id);
+                    group.push(id);
+                } while (id !== frame.id);
+                if (group.length > 1) groups.push(group.reverse());
+            }
+        }
+    }
+    return groups;
+}
+
+/** The shortest loop through a group's first task, starting and ending with that task */
+export function traceCycle(group: string[], links: CycleLink[]): string[] {
+    if (group.length === 0) return [];
+    const successors = successorLists(links, new Set(group));
+    const start = group[0];
+    const previous = new Map<string, string>();
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+        const id = queue[head];
+        for (const succId of successors.get(id) || []) {
+            if (succId === start) {
+                const path = [start];
+                for (let at = id; at !== start; at = previous.get(at)!) path.splice(1, 0, at);
+                path.push(start);
+                return path;
+            }
+            if (!previous.has(succId)) {
+                previous.set(succId, id);
+                queue.push(succId);
+            }
+        }
+    }
+    return [];
+}
+
+/**
+ * Removes the weakest link of each loop until no loops remain, where
+ * `strength` ranks links (lowest is weakest). Returns the removed links
+ * in the order they were broken.
+ */
+export function breakCycles<T extends CycleLink>(taskIds: string[], links: T[], strength: (link: T) => number): T[] {
+    const removed = new Set<T>();
+    let remaining = links.slice();
+    for (let groups = findCycleGroups(taskIds, remaining); groups.length > 0; groups = findCycleGroups(taskIds, remaining)) {
+        groups.forEach(group => {
+            const loop = traceCycle(group, remaining);
+            let weakest: T | null = null;
+            for (let i = 0; i + 1 < loop.length; i++) {
+                const link = remaining.find(l => l.predecessorId === loop[i] && l.successorId === loop[i + 1])!;
+                if (weakest === null || strength(link) < strength(weakest)) weakest = link;
+            }
+            if (weakest) removed.add(weakest);
+        });
+        remaining = remaining.filter(link => !removed.has(link));
+    }
+    return Array.from(removed);
+}
@@ -0,0 +1,205 @@
+// dcma.ts
+import { WorkCalendar, createCalendarResolver } from './calendar';
+import { CpmInput } from './cpmEngine';
+import { forwardPass, applyScenario } from './scenario';
+
+// Delay the critical path test adds to a task, in work days
+export const CRITICAL_PATH_TEST_DELAY = 600;
+
+// Constraints that fix a date regardless of logic
+const HARD_CONSTRAINTS = ['MSO', 'MFO', 'SNLT', 'FNLT'];
+
+export interface DcmaTask {
+    id: string;
+    isMilestone: boolean;
+    completed: boolean;
+    predecessorCount: number;
+    successorCount: number;
+    constraintType: string | null;
+    totalFloat: number;                // Work days
+    duration: number;                  // Planned work days
+    start: number | null;              // Schedule times, as used by the CPM engine
+    finish: number | null;
+    actualStart: number | null;
+    actualFinish: number | null;
+    baselineFinish: number | null;
+}
+
+export interface DcmaLink {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    lag: number | null;
+}
+
+export interface DcmaThresholds {
+    maxPercent: number;                // Logic, lags, hard constraints, high float and high duration
+    minFsPercent: number;
+    highFloatDays: number;
+    highDurationDays: number;
+    minIndex: number;                  // CPLI and BEI
+}
+
+export const DEFAULT_DCMA_THRESHOLDS: DcmaThresholds = {
+    maxPercent: 5,
+    minFsPercent: 90,
+    highFloatDays: 44,
+    highDurationDays: 44,
+    minIndex: 0.95
+};
+
+export interface CriticalPathTestResult {
+    taskId: string;
+    delay: number;
+    finishShift: number;               // Work days the project finish moved
+    passed: boolean;
+}
+
+export interface DcmaInput {
+    tasks: DcmaTask[];
+    links: DcmaLink[];
+    dataDate: number | null;
+    calendar: WorkCalendar;            // Project calendar, for the critical path length
+    criticalPathTest: CriticalPathTestResult | null | undefined;   // Undefined while the test is still running
+    tolerance: number;
+}
+
+export interface DcmaCheck {
+    name: string;
+    result: string;                    // Measured value, e.g. "3.2%"
+    target: string;
+    passed: boolean | null;            // Null when there is nothing to measure
+    taskIds: string[];                 // Offending tasks
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/** A share of a population against a maximum percentage; an empty population has nothing to fail */
+function percentCheck(name: string, offenders: string[], population: number, maxPercent: number): DcmaCheck {
+    if (population === 0) return { name, result: "N/A", target: `≤ ${maxPercent}%`, passed: null, taskIds: [] };
+    const percent = offenders.length / population * 100;
+    return { name, result: `${round(percent, 1)}% (${offenders.length})`, target: `≤ ${maxPercent}%`, passed: percent <= maxPercent, taskIds: offenders };
+}
+
+function countCheck(name: string, offenders: string[], population: number): DcmaCheck {
+    if (population === 0) return { name, result: "N/A", target: "0", passed: null, taskIds: [] };
+    return { name, result: String(offenders.length), target: "0", passed: offenders.length === 0, taskIds: offenders };
+}
+
+function indexCheck(name: string, value: number | null, minIndex: number, taskIds: string[] = []): DcmaCheck {
+    if (value === null || !isFinite(value)) return { name, result: "N/A", target: `≥ ${minIndex}`, passed: null, taskIds: [] };
+    return { name, result: round(value, 2).toFixed(2), target: `≥ ${minIndex}`, passed: value >= minIndex, taskIds };
+}
+
+const unique = (ids: string[]) => Array.from(new Set(ids));
+
+/**
+ * The DCMA 14-point assessment checks that can be measured from the schedule
+ * data. Task checks count incomplete work; link checks count the links into
+ * incomplete tasks.
+ */
+export function assessSchedule(input: DcmaInput, thresholds: DcmaThresholds = DEFAULT_DCMA_THRESHOLDS): DcmaCheck[] {
+    const { tasks, dataDate, tolerance } = input;
+    const open = tasks.filter(t => !t.completed);
+    const openIds = new Set(open.map(t => t.id));
+    const links = input.links.filter(l => openIds.has(l.successorId));
+    const successorsOf = (filter: (l: DcmaLink) => boolean) => unique(links.filter(filter).map(l => l.successorId));
+
+    const checks: DcmaCheck[] = [
+        percentCheck("Missing Logic", open.filter(t => t.predecessorCount === 0 || t.successorCount === 0).map(t => t.id), open.length, thresholds.maxPercent),
+        countCheck("Leads", successorsOf(l => (l.lag ?? 0) < 0), links.length),
+        percentCheck("Lags", successorsOf(l => (l.lag ?? 0) > 0), links.length, thresholds.maxPercent)
+    ];
+
+    // Most links should be finish-to-start, and none start-to-finish
+    const fsCount = links.filter(l => l.type === 'FS').length;
+    const sfLinks = successorsOf(l => l.type === 'SF');
+    const fsPercent = links.length ? fsCount / links.length * 100 : 0;
+    checks.push(links.length === 0
+        ? { name: "Relationship Types", result: "N/A", target: `≥ ${thresholds.minFsPercent}% FS, no SF`, passed: null, taskIds: [] }
+        : {
+            name: "Relationship Types",
+            result: `${round(fsPercent, 1)}% FS, ${links.filter(l => l.type === 'SF').length} SF`,
+            target: `≥ ${thresholds.minFsPercent}% FS, no SF`,
+            passed: fsPercent >= thresholds.minFsPercent && sfLinks.length === 0,
+            taskIds: unique([...sfLinks, ...successorsOf(l => l.type !== 'FS')])
+        });
+
+    checks.push(
+        percentCheck("Hard Constraints", open.filter(t => t.constraintType !== null && HARD_CONSTRAINTS.includes(t.constraintType)).map(t => t.id), open.length, thresholds.maxPercent),
+        percentCheck(`High Float (> ${thresholds.highFloatDays}d)`, open.filter(t => isFinite(t.totalFloat) && t.totalFloat > thresholds.highFloatDays).map(t => t.id), open.length, thresholds.maxPercent),
+        countCheck("Negative Float", open.filter(t => t.totalFloat < -tolerance).map(t => t.id), open.length)
+    );
+
+    const openWork = open.filter(t => !t.isMilestone);
+    checks.push(percentCheck(`High Duration (> ${thresholds.highDurationDays}d)`, openWork.filter(t => t.duration > thresholds.highDurationDays).map(t => t.id), openWork.length, thresholds.maxPercent));
+
+    // Actuals cannot be in the future, and forecasts cannot be in the past
+    if (dataDate === null) {
+        checks.push({ name: "Invalid Dates", result: "No data date", target: "0", passed: null, taskIds: [] });
+    } else {
+        const invalid = tasks.filter(t =>
+            (t.actualStart !== null && t.actualStart > dataDate) ||
+            (t.actualFinish !== null && t.actualFinish > dataDate) ||
+            (!t.completed && t.finish !== null && t.finish < dataDate) ||
+            (!t.completed && t.actualStart === null && t.start !== null && t.start < dataDate));
+        checks.push(countCheck("Invalid Dates", invalid.map(t => t.id), tasks.length));
+    }
+
+    const test = input.criticalPathTest;
+    checks.push(test
+        ? { name: "Critical Path Test", result: `Finish moved ${round(test.finishShift, 1)}d of ${test.delay}d`, target: "Full delay", passed: test.passed, taskIds: test.passed ? [] : [test.taskId] }
+        : { name: "Critical Path Test", result: test === undefined ? "Testing..." : "No open critical task", target: "Full delay", passed: null, taskIds: [] });
+
+    checks.push(indexCheck("CPLI", criticalPathLengthIndex(input), thresholds.minIndex));
+
+    // Baseline execution: work finished against work the baseline had finished by the data date
+    const due = dataDate === null ? [] : tasks.filter(t => t.baselineFinish !== null && t.baselineFinish <= dataDate);
+    checks.push(indexCheck("BEI", due.length ? tasks.filter(t => t.completed).length / due.length : null, thresholds.minIndex,
+        due.filter(t => !t.completed).map(t => t.id)));
+
+    return checks;
+}
+
+/**
+ * (Critical path length + its total float) / critical path length, where the
+ * length runs from the data date (or project start) to the project finish.
+ */
+function criticalPathLengthIndex(input: DcmaInput): number | null {
+    const open = input.tasks.filter(t => !t.completed && isFinite(t.totalFloat));
+    const starts = input.tasks.map(t => t.start).filter((t): t is number => t !== null);
+    const finishes = input.tasks.map(t => t.finish).filter((t): t is number => t !== null);
+    if (open.length === 0 || starts.length === 0 || finishes.length === 0) return null;
+
+    const from = input.dataDate ?? Math.min(...starts);
+    const length = input.calendar.workDaysBetween(from, Math.max(...finishes));
+    if (length <= 0) return null;
+    const pathFloat = Math.min(...open.map(t => t.totalFloat));
+    return (length + pathFloat) / length;
+}
+
+/**
+ * DCMA critical path test: adds a large delay to one task and checks that the
+ * project finish moves by the whole delay. A shorter move means the path
+ * through the task is broken somewhere downstream. The returned function
+ * tests one task at a time against a single run of the undelayed schedule.
+ */
+export function criticalPathTester(input: CpmInput, delay: number = CRITICAL_PATH_TEST_DELAY): (taskId: string) => CriticalPathTestResult | null {
+    const resolveCalendar = createCalendarResolver(input.calendar, input.calendars, input.baseDay ?? 0);
+    const projectFinish = (data: CpmInput) => Math.max(...forwardPass(data).tasks.map(t => t.earlyFinish));
+    let before: number | null = null;
+
+    return (taskId: string) => {
+        const task = input.tasks.find(t => t.internalId === taskId);
+        if (!task) return null;
+        if (before === null) before = projectFinish(input);
+        const duration = task.duration ?? resolveCalendar(task.calendar).workDaysBetween(task.start, task.finish);
+        const after = projectFinish(applyScenario(input, { tasks: { [taskId]: { duration: duration + delay } }, links: {} }));
+        const finishShift = resolveCalendar(null).workDaysBetween(before, after);
+        return { taskId, delay, finishShift, passed: finishShift >= delay - input.floatTolerance };
+    };
+}
+
+export function runCriticalPathTest(input: CpmInput, taskId: string, delay: number = CRITICAL_PATH_TEST_DELAY): CriticalPathTestResult | null {
+    return criticalPathTester(input, delay)(taskId);
+}
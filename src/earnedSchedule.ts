@@ -0,0 +1,73 @@
+// earnedSchedule.ts
+import { ProgressFields, getProgressStatus } from './progress';
+
+export interface EarnedScheduleTask extends ProgressFields {
+    baselineStart: number | null;      // Same time base as the data date
+    baselineFinish: number | null;
+}
+
+export interface EarnedScheduleResult {
+    earnedSchedule: number;            // ES: days into the baseline at which the work done so far was planned to be done
+    actualTime: number;                // AT: days from the baseline start to the data date
+    spiT: number | null;               // ES / AT; null at or before the baseline start
+    svT: number;                       // ES - AT; negative when behind the baseline
+    plannedDuration: number;           // PD: baseline start to baseline finish
+    ieacT: number | null;              // PD / SPI(t): forecast duration; null while nothing has been earned
+    forecastFinish: number | null;     // Baseline start + IEAC(t)
+}
+
+/** Share of a task earned at the data date: all of it once completed, else its percent complete */
+function earnedShare(task: EarnedScheduleTask): number {
+    if (getProgressStatus(task) === 'completed') return 1;
+    const percent = task.percentComplete;
+    return percent === null || percent === undefined || isNaN(percent) ? 0 : Math.min(100, Math.max(0, percent)) / 100;
+}
+
+/**
+ * Earned schedule at the data date, in days. Each task with baseline dates is
+ * weighted by its baseline length and planned to progress evenly between
+ * them. ES is the point on the baseline where the planned share of the work
+ * equals the share earned, interpolated within the day it falls in. Returns
+ * null when no task has a baseline of any length.
+ */
+export function earnedSchedule(tasks: EarnedScheduleTask[], dataDate: number): EarnedScheduleResult | null {
+    const planned = tasks.filter(t =>
+        t.baselineStart !== null && t.baselineFinish !== null && isFinite(t.baselineStart) && isFinite(t.baselineFinish) &&
+        t.baselineFinish > t.baselineStart);
+    if (planned.length === 0) return null;
+
+    const start = Math.min(...planned.map(t => t.baselineStart!));
+    const finish = Math.max(...planned.map(t => t.baselineFinish!));
+    const totalWeight = planned.reduce((sum, t) => sum + (t.baselineFinish! - t.baselineStart!), 0);
+    const earned = planned.reduce((sum, t) => sum + (t.baselineFinish! - t.baselineStart!) * earnedShare(t), 0) / totalWeight;
+    // Planned share of the work done by a time on the baseline
+    const plannedShare = (time: number) => planned.reduce((sum, t) => {
+        const length = t.baselineFinish! - t.baselineStart!;
+        return sum + length * Math.min(1, Math.max(0, (time - t.baselineStart!) / length));
+    }, 0) / totalWeight;
+
+    const plannedDuration = finish - start;
+    let es = plannedDuration;
+    for (let day = 0; day < plannedDuration; day++) {
+        const next = plannedShare(start + day + 1);
+        if (next > earned) {
+            const current = plannedShare(start + day);
+            es = day + (next > current ? (earned - current) / (next - current) : 0);
+            break;
+        }
+    }
+    es = Math.max(0, es);
+
+    const actualTime = dataDate - start;
+    const spiT = actualTime > 0 ? es / actualTime : null;
+    const ieacT = spiT !== null && spiT > 0 ? plannedDuration / spiT : null;
+    return {
+        earnedSchedule: es,
+        actualTime,
+        spiT,
+        svT: es - actualTime,
+        plannedDuration,
+        ieacT,
+        forecastFinish: ieacT === null ? null : start + ieacT
+    };
+}
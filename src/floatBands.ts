@@ -0,0 +1,59 @@
+// floatBands.ts
+
+export interface FloatBand {
+    label: string;
+    min: number;                       // Float range covered by the band (inclusive at both ends)
+    max: number;
+    color: string;
+}
+
+/** Band limits typed as a comma-separated list of days, sorted with duplicates and non-numbers dropped */
+export function parseBandLimits(text: string | null | undefined): number[] {
+    const limits = (text ?? '').split(/[,;\s]+/)
+        .filter(part => part !== '')
+        .map(Number)
+        .filter(value => isFinite(value))
+        .map(value => Math.round(value));
+    return Array.from(new Set(limits)).sort((a, b) => a - b);
+}
+
+/**
+ * Bands from the limits in whole days. Limits of 0, 10 and 20 give "< 0 d",
+ * "0 d", "1–10 d", "11–20 d" and "> 20 d". Colours are used in band order
+ * and repeat when there are more bands than colours.
+ */
+export function buildFloatBands(limits: number[], colors: string[]): FloatBand[] {
+    if (limits.length === 0 || colors.length === 0) return [];
+    const ranges: { label: string; min: number; max: number }[] = [
+        { label: `< ${limits[0]} d`, min: -Infinity, max: limits[0] - 1e-9 },
+        { label: `${limits[0]} d`, min: limits[0], max: limits[0] }
+    ];
+    for (let i = 1; i < limits.length; i++) {
+        const low = limits[i - 1] + 1;
+        ranges.push({
+            label: low === limits[i] ? `${low} d` : `${low}–${limits[i]} d`,
+            min: limits[i - 1] + 1e-9,
+            max: limits[i]
+        });
+    }
+    ranges.push({ label: `> ${limits[limits.length - 1]} d`, min: limits[limits.length - 1] + 1e-9, max: Infinity });
+    return ranges.map((range, i) => ({ ...range, color: colors[i % colors.length] }));
+}
+
+/**
+ * Whole days of float, as the band labels read. Float within the tolerance
+ * is zero, as it is for criticality; any other float is at least a day either
+ * side of zero and otherwise rounds to the nearest day, halves down.
+ */
+export function wholeFloatDays(float: number, tolerance: number = 0): number {
+    const size = Math.abs(float);
+    if (size <= tolerance) return 0;
+    return Math.sign(float) * Math.max(1, Math.ceil(size - 0.5));
+}
+
+/** Index of the band holding the float in whole days, or -1 for tasks with no finite float */
+export function floatBandIndex(bands: FloatBand[], float: number | undefined, tolerance: number = 0): number {
+    if (float === undefined || !isFinite(float)) return -1;
+    const days = wholeFloatDays(float, tolerance);
+    return bands.findIndex(band => days >= band.min && days <= band.max);
+}
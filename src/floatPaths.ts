@@ -0,0 +1,72 @@
+// floatPaths.ts
+
+export interface FloatPathLink {
+    predecessorId: string;
+    successorId: string;
+    slack: number;         // Relationship free float in working days
+}
+
+/**
+ * Ranks the logic leading to (or, forward, following from) the seed tasks
+ * into float paths, as in Primavera P6's multiple float path analysis.
+ * Path 1 is the driving path through the seeds. Each later path starts at
+ * the unassigned task whose link into the paths found so far has the least
+ * cumulative slack, and then follows that task's own driving links.
+ * Returns the path number of every task that was reached.
+ */
+export function rankFloatPaths(
+    seedIds: string[],
+    links: FloatPathLink[],
+    maxPaths: number,
+    tolerance: number,
+    direction: 'backward' | 'forward' = 'backward'
+): Map<string, number> {
+    // "inner" is the end of a link nearer the seeds, "outer" the end further away
+    const inner = (link: FloatPathLink) => direction === 'backward' ? link.successorId : link.predecessorId;
+    const outer = (link: FloatPathLink) => direction === 'backward' ? link.predecessorId : link.successorId;
+
+    const linksByInner = new Map<string, FloatPathLink[]>();
+    links.forEach(link => {
+        const key = inner(link);
+        if (!linksByInner.has(key)) linksByInner.set(key, []);
+        linksByInner.get(key)!.push(link);
+    });
+
+    const paths = new Map<string, number>();
+    const pathFloat = new Map<string, number>();
+
+    const claim = (startIds: string[], path: number, float: number) => {
+        const stack = startIds.filter(id => !paths.has(id));
+        stack.forEach(id => { paths.set(id, path); pathFloat.set(id, float); });
+        while (stack.length) {
+            const id = stack.pop()!;
+            for (const link of linksByInner.get(id) || []) {
+                const next = outer(link);
+                if (link.slack > tolerance || paths.has(next)) continue;
+                paths.set(next, path);
+                pathFloat.set(next, float);
+                stack.push(next);
+            }
+        }
+    };
+
+    claim(seedIds, 1, 0);
+    for (let path = 2; path <= maxPaths; path++) {
+        let bestId: string | null = null;
+        let bestFloat = Infinity;
+        paths.forEach((_, id) => {
+            for (const link of linksByInner.get(id) || []) {
+                const next = outer(link);
+                if (paths.has(next)) continue;
+                const float = pathFloat.get(id)! + Math.max(0, link.slack);
+                if (float < bestFloat) {
+                    bestFloat = float;
+                    bestId = next;
+                }
+            }
+        });
+        if (bestId === null) break;
+        claim([bestId], path, bestFloat);
+    }
+    return paths;
+}
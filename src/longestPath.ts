@@ -0,0 +1,103 @@
+// longestPath.ts
+import PriorityQueue from './priorityQueue';
+
+export type CriticalityMode = 'totalFloat' | 'longestPath';
+
+export interface DrivingLink {
+    predecessorId: string;
+    successorId: string;
+}
+
+/**
+ * Ids of the tasks that finish the project, i.e. whose early finish is within
+ * the tolerance of the latest early finish.
+ */
+export function findProjectFinishTasks(tasks: { internalId: string; earlyFinish: number }[], tolerance: number): string[] {
+    let projectFinish = -Infinity;
+    tasks.forEach(t => { if (t.earlyFinish > projectFinish) projectFinish = t.earlyFinish; });
+    return tasks.filter(t => t.earlyFinish >= projectFinish - tolerance).map(t => t.internalId);
+}
+
+/**
+ * Follows driving links from the seed tasks, backward through predecessors or
+ * forward through successors, and returns every task and link reached.
+ */
+export function traceDrivingPath<L extends DrivingLink>(
+    seedIds: string[],
+    drivingLinks: L[],
+    direction: 'backward' | 'forward' = 'backward'
+): { taskIds: Set<string>; links: Set<L> } {
+    const linksByTask = new Map<string, L[]>();
+    drivingLinks.forEach(link => {
+        const key = direction === 'backward' ? link.successorId : link.predecessorId;
+        if (!linksByTask.has(key)) linksByTask.set(key, []);
+        linksByTask.get(key)!.push(link);
+    });
+
+    const taskIds = new Set<string>(seedIds);
+    const links = new Set<L>();
+    const stack = seedIds.slice();
+    while (stack.length) {
+        const id = stack.pop()!;
+        for (const link of linksByTask.get(id) || []) {
+            links.add(link);
+            const next = direction === 'backward' ? link.predecessorId : link.successorId;
+            if (!taskIds.has(next)) {
+                taskIds.add(next);
+                stack.push(next);
+            }
+        }
+    }
+    return { taskIds, links };
+}
+
+/**
+ * The chain of logic from the source to the target with the least total
+ * relationship slack. Slack summed along a path is the gap that path leaves
+ * before the target, so this is the longest path between the two tasks; with
+ * every link on it driving, it is their driving path. Null when no logic leads
+ * from the source to the target.
+ */
+export function findPathBetween<L extends DrivingLink & { slack: number }>(
+    sourceId: string,
+    targetId: string,
+    links: L[]
+): { taskIds: Set<string>; links: Set<L> } | null {
+    const linksFrom = new Map<string, L[]>();
+    links.forEach(link => {
+        if (!linksFrom.has(link.predecessorId)) linksFrom.set(link.predecessorId, []);
+        linksFrom.get(link.predecessorId)!.push(link);
+    });
+
+    // Dijkstra over non-negative slack
+    const slackTo = new Map<string, number>([[sourceId, 0]]);
+    const via = new Map<string, L>();
+    const settled = new Set<string>();
+    const queue = new PriorityQueue<string>();
+    queue.enqueue(sourceId, 0);
+    while (queue.size() > 0) {
+        const id = queue.dequeue()!;
+        if (settled.has(id)) continue;
+        settled.add(id);
+        if (id === targetId) break;
+        for (const link of linksFrom.get(id) || []) {
+            const slack = slackTo.get(id)! + Math.max(0, link.slack);
+            if (slack < (slackTo.get(link.successorId) ?? Infinity)) {
+                slackTo.set(link.successorId, slack);
+                via.set(link.successorId, link);
+                queue.enqueue(link.successorId, slack);
+            }
+        }
+    }
+    if (!settled.has(targetId)) return null;
+
+    const taskIds = new Set<string>([targetId]);
+    const pathLinks = new Set<L>();
+    for (let id = targetId; id !== sourceId;) {
+        const link = via.get(id)!;
+        pathLinks.add(link);
+        id = link.predecessorId;
+        taskIds.add(id);
+    }
+    return { taskIds, links: pathLinks };
+}
@@ -0,0 +1,279 @@
+// monteCarlo.ts
+import { CalendarResolver, WorkCalendar, successorStartFromRelationship } from './calendar';
+import { constraintEarliestStart } from './constraints';
+import { DrivingLink, findProjectFinishTasks, traceDrivingPath } from './longestPath';
+import { ProgressFields, applyProgress } from './progress';
+
+export type DurationDistribution = 'triangular' | 'pert';
+
+export interface MonteCarloOptions {
+    iterations: number;
+    seed: number;
+    distribution: DurationDistribution;
+}
+
+export interface RiskTask extends ProgressFields {
+    internalId: string;
+    start: number;
+    finish: number;
+    predecessorIds: string[];
+    relationshipTypes: { [predId: string]: string };
+    relationshipLags: { [predId: string]: number | null };
+    calendar?: string | null;
+    constraintType?: string | null;
+    constraintDate?: number | null;
+    optimisticDuration?: number | null;   // Three-point estimate in working days
+    mostLikelyDuration?: number | null;   // Defaults to the deterministic duration
+    pessimisticDuration?: number | null;
+}
+
+export interface FinishHistogram {
+    start: number;         // Schedule time of the first bin's lower edge
+    binWidth: number;
+    counts: number[];
+}
+
+export interface MonteCarloResult {
+    iterations: number;
+    deterministicFinish: number;
+    p50: number;
+    p80: number;
+    p90: number;
+    criticalityIndex: { [taskId: string]: number }; // Share of iterations on the driving path to the finish
+    histogram: FinishHistogram;
+}
+
+const HISTOGRAM_BINS = 20;
+
+/** Mulberry32: small, fast and reproducible for a given seed */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function sampleTriangular(min: number, mode: number, max: number, random: () => number): number {
+    if (max <= min) return min;
+    const u = random();
+    const split = (mode - min) / (max - min);
+    return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+/** PERT: a beta distribution scaled to [min, max] with the mode weighted four times */
+export function samplePert(min: number, mode: number, max: number, random: () => number): number {
+    if (max <= min) return min;
+    const alpha = 1 + 4 * (mode - min) / (max - min);
+    const beta = 1 + 4 * (max - mode) / (max - min);
+    const x = sampleGamma(alpha, random);
+    const y = sampleGamma(beta, random);
+    return min + (x / (x + y)) * (max - min);
+}
+
+// Marsaglia-Tsang; PERT shapes are always >= 1
+function sampleGamma(shape: number, random: () => number): number {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        let x: number;
+        let v: number;
+        do {
+            x = sampleNormal(random);
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = random();
+        if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+        if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+}
+
+// Box-Muller; 1 - u keeps the logarithm finite
+function sampleNormal(random: () => number): number {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Nearest-rank percentile of an ascending array */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return NaN;
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+    return sorted[index];
+}
+
+interface SimulationNode {
+    task: RiskTask;
+    calendar: WorkCalendar;
+    duration: number;
+    range: [number, number, number] | null;   // Optimistic, most likely, pessimistic
+    projectStart: number;
+    isMandatory: boolean;
+    actualStart: number | null;                // Started work is not moved or sampled
+    predecessors: { index: number; type: string; lag: number }[];
+}
+
+/** A simulation that can be run a batch of iterations at a time, e.g. to stay responsive to cancellation */
+export interface MonteCarloRun {
+    readonly iterations: number;
+    readonly completed: number;
+    /** Runs up to `count` more iterations and returns true once all of them are done */
+    step(count: number): boolean;
+    result(): MonteCarloResult;
+}
+
+/**
+ * Repeats the forward pass with durations drawn from each task's three-point
+ * estimate. Tasks without an optimistic and pessimistic duration keep their
+ * deterministic duration, and started work keeps its progressed dates.
+ * The same seed always gives the same result.
+ */
+export function runMonteCarlo(tasks: RiskTask[], resolveCalendar: CalendarResolver, options: MonteCarloOptions, tolerance: number, dataDate: number | null = null): MonteCarloResult {
+    const run = startMonteCarlo(tasks, resolveCalendar, options, tolerance, dataDate);
+    run.step(run.iterations);
+    return run.result();
+}
+
+/** Prepares the simulation behind runMonteCarlo without running any sampled iterations */
+export function startMonteCarlo(tasks: RiskTask[], resolveCalendar: CalendarResolver, options: MonteCarloOptions, tolerance: number, dataDate: number | null = null): MonteCarloRun {
+    const indexById = new Map<string, number>();
+    tasks.forEach((t, i) => indexById.set(t.internalId, i));
+
+    const nodes: SimulationNode[] = tasks.map(task => {
+        const calendar = resolveCalendar(task.calendar);
+        const progressed = applyProgress(task.start, task.finish, task, dataDate, calendar);
+        const duration = calendar.workDaysBetween(progressed.start, progressed.finish);
+        const isStarted = progressed.status !== 'notStarted';
+        return {
+            task,
+            calendar,
+            duration,
+            range: isStarted ? null : threePointRange(task, duration),
+            projectStart: calendar.addWorkDays(dataDate === null ? 0 : Math.max(0, dataDate), 0, false),
+            isMandatory: task.constraintType === 'MSO' || task.constraintType === 'MFO',
+            actualStart: isStarted ? progressed.start : null,
+            predecessors: task.predecessorIds
+                .filter(id => indexById.has(id))
+                .map(id => ({ index: indexById.get(id)!, type: task.relationshipTypes[id] || 'FS', lag: task.relationshipLags[id] ?? 0 }))
+        };
+    });
+    const order = topologicalOrder(nodes);
+
+    const random = createSeededRandom(options.seed);
+    const sample = options.distribution === 'triangular' ? sampleTriangular : samplePert;
+    const iterations = Math.max(1, Math.floor(options.iterations));
+    const earlyStart = new Array<number>(nodes.length).fill(0);
+    const earlyFinish = new Array<number>(nodes.length).fill(0);
+    const criticalCounts = new Array<number>(nodes.length).fill(0);
+    const finishes: number[] = [];
+
+    const runIteration = (iteration: number) => {
+        const drivingLinks: DrivingLink[] = [];
+        for (const i of order) {
+            const node = nodes[i];
+            const duration = iteration > 0 && node.range ? sample(node.range[0], node.range[1], node.range[2], random) : node.duration;
+            const constraintStart = constraintEarliestStart(node.task.constraintType, node.task.constraintDate, duration, node.calendar);
+            let start = node.actualStart !== null ? node.actualStart
+                : constraintStart === null ? node.projectStart
+                : node.isMandatory ? constraintStart : Math.max(node.projectStart, constraintStart);
+            const required = node.predecessors.map(pred => successorStartFromRelationship(
+                pred.type, pred.lag, earlyStart[pred.index], earlyFinish[pred.index], duration, nodes[pred.index].calendar, node.calendar));
+            // Mandatory constraints and actual starts hold their date even when logic pushes past it
+            if (!node.isMandatory && node.actualStart === null) required.forEach(r => { start = Math.max(start, r); });
+            earlyStart[i] = start;
+            earlyFinish[i] = node.calendar.addWorkDays(start, duration, true);
+            required.forEach((r, k) => {
+                if (Math.abs(node.calendar.workDaysBetween(r, start)) <= tolerance) {
+                    drivingLinks.push({ predecessorId: nodes[node.predecessors[k].index].task.internalId, successorId: node.task.internalId });
+                }
+            });
+        }
+
+        let projectFinish = -Infinity;
+        earlyFinish.forEach(ef => { if (ef > projectFinish) projectFinish = ef; });
+        finishes.push(projectFinish);
+        if (iteration === 0) return;
+
+        const finishTimes = nodes.map((node, i) => ({ internalId: node.task.internalId, earlyFinish: earlyFinish[i] }));
+        const path = traceDrivingPath(findProjectFinishTasks(finishTimes, tolerance), drivingLinks);
+        path.taskIds.forEach(id => { criticalCounts[indexById.get(id)!]++; });
+    };
+
+    // Iteration 0 uses the deterministic durations and is not counted
+    runIteration(0);
+    let completed = 0;
+
+    return {
+        iterations,
+        get completed() { return completed; },
+        step(count: number) {
+            const end = Math.min(iterations, completed + Math.max(0, Math.floor(count)));
+            while (completed < end) runIteration(++completed);
+            return completed >= iterations;
+        },
+        result() {
+            const deterministicFinish = finishes[0];
+            const sorted = finishes.slice(1).sort((a, b) => a - b);
+            const criticalityIndex: { [taskId: string]: number } = {};
+            nodes.forEach((node, i) => { criticalityIndex[node.task.internalId] = criticalCounts[i] / Math.max(1, completed); });
+
+            return {
+                iterations: completed,
+                deterministicFinish,
+                p50: percentile(sorted, 0.5),
+                p80: percentile(sorted, 0.8),
+                p90: percentile(sorted, 0.9),
+                criticalityIndex,
+                histogram: buildHistogram(sorted)
+            };
+        }
+    };
+}
+
+function threePointRange(task: RiskTask, duration: number): [number, number, number] | null {
+    const optimistic = task.optimisticDuration;
+    const pessimistic = task.pessimisticDuration;
+    if (optimistic === null || optimistic === undefined || isNaN(optimistic) ||
+        pessimistic === null || pessimistic === undefined || isNaN(pessimistic)) {
+        return null;
+    }
+    const likely = task.mostLikelyDuration ?? duration;
+    const min = Math.max(0, Math.min(optimistic, likely, pessimistic));
+    const max = Math.max(optimistic, likely, pessimistic);
+    return [min, Math.min(max, Math.max(min, likely)), max];
+}
+
+// Kahn's algorithm; tasks caught in a cycle are left out of the simulation
+function topologicalOrder(nodes: SimulationNode[]): number[] {
+    const successors: number[][] = nodes.map(() => []);
+    const inDegree = nodes.map(node => node.predecessors.length);
+    nodes.forEach((node, i) => node.predecessors.forEach(pred => successors[pred.index].push(i)));
+    const queue: number[] = [];
+    inDegree.forEach((d, i) => { if (d === 0) queue.push(i); });
+    const order: number[] = [];
+    for (let head = 0; head < queue.length; head++) {
+        const i = queue[head];
+        order.push(i);
+        for (const s of successors[i]) {
+            if (--inDegree[s] === 0) queue.push(s);
+        }
+    }
+    return order;
+}
+
+function buildHistogram(sorted: number[]): FinishHistogram {
+    const start = sorted[0];
+    const range = sorted[sorted.length - 1] - start;
+    const binWidth = range > 0 ? range / HISTOGRAM_BINS : 1;
+    const counts = new Array<number>(range > 0 ? HISTOGRAM_BINS : 1).fill(0);
+    sorted.forEach(value => {
+        counts[Math.min(counts.length - 1, Math.floor((value - start) / binWidth))]++;
+    });
+    return { start, binWidth, counts };
+}
@@ -0,0 +1,53 @@
+// openEnds.ts
+
+/** 'missing': no links at all on that end; 'dangling': links only of types that leave that end free */
+export type OpenEnd = 'missing' | 'dangling';
+
+export interface OpenEndLink {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+}
+
+export interface TaskOpenEnds {
+    start: OpenEnd | null;
+    finish: OpenEnd | null;
+}
+
+// Predecessor links that drive the successor's start, and successor links that hang off the predecessor's finish
+const DRIVES_START = ['FS', 'SS'];
+const FROM_FINISH = ['FS', 'FF'];
+
+/**
+ * Tasks with an open end: a start that no link drives, or a finish that no
+ * link depends on. A task with only FF predecessors can start at any time,
+ * and one with only SS successors can finish at any time. Links to tasks
+ * outside the list are ignored; tasks tied at both ends are left out.
+ */
+export function findOpenEnds(taskIds: string[], links: OpenEndLink[]): Map<string, TaskOpenEnds> {
+    const known = new Set(taskIds);
+    const predecessorTypes = new Map<string, string[]>();
+    const successorTypes = new Map<string, string[]>();
+    const add = (map: Map<string, string[]>, id: string, type: string) => {
+        const types = map.get(id);
+        if (types) types.push(type);
+        else map.set(id, [type]);
+    };
+    links.forEach(link => {
+        if (!known.has(link.predecessorId) || !known.has(link.successorId)) return;
+        add(predecessorTypes, link.successorId, link.type);
+        add(successorTypes, link.predecessorId, link.type);
+    });
+
+    const classify = (types: string[] | undefined, tying: string[]): OpenEnd | null => {
+        if (!types) return 'missing';
+        return types.some(type => tying.includes(type)) ? null : 'dangling';
+    };
+    const openEnds = new Map<string, TaskOpenEnds>();
+    taskIds.forEach(id => {
+        const start = classify(predecessorTypes.get(id), DRIVES_START);
+        const finish = classify(successorTypes.get(id), FROM_FINISH);
+        if (start || finish) openEnds.set(id, { start, finish });
+    });
+    return openEnds;
+}
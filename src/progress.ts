@@ -0,0 +1,61 @@
+// progress.ts
+import { WorkCalendar } from './calendar';
+
+export type ProgressStatus = 'notStarted' | 'inProgress' | 'completed';
+
+export interface ProgressFields {
+    percentComplete?: number | null;    // 0-100
+    actualStart?: number | null;        // Same time base as the planned dates
+    actualFinish?: number | null;
+    remainingDuration?: number | null;  // Working days left
+}
+
+export interface ProgressedDates {
+    start: number;
+    finish: number;
+    status: ProgressStatus;
+}
+
+function isSet(value: number | null | undefined): value is number {
+    return value !== null && value !== undefined && !isNaN(value);
+}
+
+export function getProgressStatus(progress: ProgressFields): ProgressStatus {
+    if (isSet(progress.actualFinish) || (isSet(progress.percentComplete) && progress.percentComplete >= 100)) return 'completed';
+    if (isSet(progress.actualStart) || (isSet(progress.percentComplete) && progress.percentComplete > 0)) return 'inProgress';
+    return 'notStarted';
+}
+
+/**
+ * Dates to schedule a task from once progress is applied. Completed work
+ * keeps its actual dates. The remaining work of a started task runs from the
+ * data date, and an unstarted task cannot start before it. Without a data date
+ * only the actual dates are applied.
+ */
+export function applyProgress(
+    start: number, finish: number,
+    progress: ProgressFields, dataDate: number | null,
+    calendar: WorkCalendar
+): ProgressedDates {
+    const status = getProgressStatus(progress);
+    const actualStart = isSet(progress.actualStart) ? progress.actualStart : start;
+
+    if (status === 'completed') {
+        const actualFinish = isSet(progress.actualFinish) ? progress.actualFinish : finish;
+        return { start: actualStart, finish: Math.max(actualStart, actualFinish), status };
+    }
+
+    const duration = Math.max(0, calendar.workDaysBetween(start, finish));
+    if (status === 'inProgress') {
+        if (dataDate === null) return { start: actualStart, finish: Math.max(actualStart, finish), status };
+        const remaining = isSet(progress.remainingDuration) ? Math.max(0, progress.remainingDuration)
+            : isSet(progress.percentComplete) ? duration * (1 - Math.min(100, progress.percentComplete) / 100)
+            : Math.max(0, duration - calendar.workDaysBetween(actualStart, dataDate));
+        const resume = calendar.addWorkDays(Math.max(dataDate, actualStart), 0, false);
+        return { start: actualStart, finish: Math.max(resume, calendar.addWorkDays(resume, remaining, true)), status };
+    }
+
+    if (dataDate === null || start >= dataDate) return { start, finish, status };
+    const shiftedStart = calendar.addWorkDays(dataDate, 0, false);
+    return { start: shiftedStart, finish: calendar.addWorkDays(shiftedStart, duration, true), status };
+}
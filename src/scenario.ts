@@ -0,0 +1,122 @@
+// scenario.ts
+import { createCalendarResolver } from './calendar';
+import { CpmInput, CpmResult, runCpm } from './cpmEngine';
+
+export const RELATIONSHIP_TYPES = ['FS', 'SS', 'FF', 'SF'];
+
+export interface TaskOverride {
+    duration?: number;                 // Work days
+}
+
+export interface LinkOverride {
+    type?: string;
+    lag?: number;                      // Work days; 0 removes the lag
+}
+
+/** What-if changes layered over the source data; the data itself is never modified */
+export interface Scenario {
+    tasks: { [taskId: string]: TaskOverride };
+    links: { [linkKey: string]: LinkOverride };
+}
+
+export function emptyScenario(): Scenario {
+    return { tasks: {}, links: {} };
+}
+
+export function linkKey(predecessorId: string, successorId: string): string {
+    return `${predecessorId}->${successorId}`;
+}
+
+export function countOverrides(scenario: Scenario): number {
+    return Object.keys(scenario.tasks).length + Object.keys(scenario.links).length;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+/** Reads a saved scenario, dropping anything malformed; empty or invalid text gives an empty scenario */
+export function parseScenario(text: string | null | undefined): Scenario {
+    const scenario = emptyScenario();
+    if (!text) return scenario;
+    let saved: { tasks?: unknown; links?: unknown };
+    try {
+        saved = JSON.parse(text);
+    } catch {
+        return scenario;
+    }
+    if (!saved || typeof saved !== 'object') return scenario;
+    Object.entries((saved.tasks ?? {}) as { [id: string]: TaskOverride }).forEach(([id, override]) => {
+        if (isNumber(override?.duration) && override.duration >= 0) scenario.tasks[id] = { duration: override.duration };
+    });
+    Object.entries((saved.links ?? {}) as { [key: string]: LinkOverride }).forEach(([key, override]) => {
+        const link: LinkOverride = {};
+        if (typeof override?.type === 'string' && RELATIONSHIP_TYPES.includes(override.type)) link.type = override.type;
+        if (isNumber(override?.lag)) link.lag = override.lag;
+        if (Object.keys(link).length > 0) scenario.links[key] = link;
+    });
+    return scenario;
+}
+
+export function serializeScenario(scenario: Scenario): string {
+    return countOverrides(scenario) === 0 ? "" : JSON.stringify(scenario);
+}
+
+/**
+ * The engine input with the scenario's overrides applied. A new duration
+ * moves the task's finish; on started work the change is added to the
+ * remaining duration.
+ */
+export function applyScenario(input: CpmInput, scenario: Scenario): CpmInput {
+    const resolveCalendar = createCalendarResolver(input.calendar, input.calendars, input.baseDay ?? 0);
+    const tasks = input.tasks.map(task => {
+        const override = scenario.tasks[task.internalId];
+        const links = task.predecessorIds.filter(id => scenario.links[linkKey(id, task.internalId)]);
+        if (!override && links.length === 0) return task;
+
+        const changed = { ...task, relationshipTypes: { ...task.relationshipTypes }, relationshipLags: { ...task.relationshipLags } };
+        links.forEach(id => {
+            const link = scenario.links[linkKey(id, task.internalId)];
+            if (link.type !== undefined) changed.relationshipTypes[id] = link.type;
+            if (link.lag !== undefined) changed.relationshipLags[id] = link.lag;
+        });
+        if (override?.duration !== undefined) {
+            const calendar = resolveCalendar(task.calendar);
+            const current = task.duration ?? calendar.workDaysBetween(task.start, task.finish);
+            changed.duration = override.duration;
+            changed.finish = calendar.addWorkDays(task.start, override.duration, true);
+            if (task.remainingDuration != null) {
+                changed.remainingDuration = Math.max(0, task.remainingDuration + override.duration - current);
+            }
+        }
+        return changed;
+    });
+    const relationships = input.relationships.map(rel => {
+        const link = scenario.links[linkKey(rel.predecessorId, rel.successorId)];
+        if (!link) return rel;
+        // Free float from the data no longer describes the changed link
+        return { ...rel, type: link.type ?? rel.type, lag: link.lag ?? rel.lag, freeFloat: null };
+    });
+    return { ...input, tasks, relationships };
+}
+
+/** Logic-driven schedule from the data date, ignoring the plotted dates of unstarted work */
+export function forwardPass(input: CpmInput): CpmResult {
+    return runCpm({ ...input, unconstrainedMode: true, trace: null, monteCarlo: null, criticalityMode: 'totalFloat' });
+}
+
+/**
+ * How many work days each task's finish moves under the scenario. Both the
+ * current and the scenario schedule are run as a forward pass from the data
+ * date, so changes push through to every successor.
+ */
+export function scenarioFinishShifts(input: CpmInput, scenario: Scenario): { [taskId: string]: number } {
+    const current = forwardPass(input);
+    const changed = forwardPass(applyScenario(input, scenario));
+    const resolveCalendar = createCalendarResolver(input.calendar, input.calendars, input.baseDay ?? 0);
+
+    const shifts: { [taskId: string]: number } = {};
+    current.tasks.forEach((task, i) => {
+        const calendar = resolveCalendar(input.tasks[i].calendar);
+        shifts[task.internalId] = calendar.workDaysBetween(task.earlyFinish, changed.tasks[i].earlyFinish);
+    });
+    return shifts;
+}
@@ -26,10 +26,11 @@ class TaskAppearanceCard extends Card {
     name: string = "taskAppearance"; displayName: string = "Task Appearance";
     taskColor = new ColorPicker({ name: "taskColor", displayName: "Non-Critical Task Color", value: { value: "#0078D4" } }); // Blue color for non-critical tasks
     criticalPathColor = new ColorPicker({ name: "criticalPathColor", displayName: "Critical Path Color", value: { value: "#E81123" } });
-    milestoneColor = new ColorPicker({ name: "milestoneColor", displayName: "Milestone Color", value: { value: "#555555" } });
+    milestoneColor = new ColorPicker({ name: "milestoneColor", displayName: "Start Milestone Color", value: { value: "#555555" } });
+    finishMilestoneColor = new ColorPicker({ name: "finishMilestoneColor", displayName: "Finish Milestone Color", value: { value: "#555555" } });
     taskHeight = new NumUpDown({ name: "taskHeight", displayName: "Task Height (px)", value: 18, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 5 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 40 } } });
     milestoneSize = new NumUpDown({ name: "milestoneSize", displayName: "Milestone Size (px)", description: "Size of milestone markers (px)", value: 12, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 4 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 30 } } });
-    slices: Slice[] = [ this.taskColor, this.criticalPathColor, this.milestoneColor, this.taskHeight, this.milestoneSize ];
+    slices: Slice[] = [ this.taskColor, this.criticalPathColor, this.milestoneColor, this.finishMilestoneColor, this.taskHeight, this.milestoneSize ];
  }
 
  class ConnectorLinesCard extends Card {
@@ -54,7 +55,9 @@ class TaskAppearanceCard extends Card {
             maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 50 } 
         } 
     });
-    slices: Slice[] = [ this.showConnectorToggle, this.connectorColor, this.connectorWidth, this.criticalConnectorWidth, this.elbowOffset ];
+    drivingLineStyle = new ItemDropdown({ name: "drivingLineStyle", displayName: "Driving Style", description: "Line style for relationships that drive their successor's start", items: lineStyleItems, value: lineStyleItems.find(item => item.value === "solid") });
+    nonDrivingLineStyle = new ItemDropdown({ name: "nonDrivingLineStyle", displayName: "Non-Driving Style", description: "Line style for relationships with free float", items: lineStyleItems, value: lineStyleItems.find(item => item.value === "dashed") });
+    slices: Slice[] = [ this.showConnectorToggle, this.connectorColor, this.connectorWidth, this.criticalConnectorWidth, this.elbowOffset, this.drivingLineStyle, this.nonDrivingLineStyle ];
 }
 
 class TextAndLabelsCard extends Card {
@@ -149,7 +152,15 @@ class ProjectEndLineCard extends Card {
     lineColor = new ColorPicker({ name: "lineColor", displayName: "Color", value: { value: "green" } });
     lineWidth = new NumUpDown({ name: "lineWidth", displayName: "Width (px)", value: 1.5, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0.5 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 5 } } });
     lineStyle = new ItemDropdown({ name: "lineStyle", displayName: "Style", items: lineStyleItems, value: lineStyleItems.find(item => item.value === "dashed") });
-    slices: Slice[] = [this.show, this.lineColor, this.lineWidth, this.lineStyle];
+    requiredFinish = new TextInput({
+        name: "requiredFinish",
+        displayName: "Required Finish",
+        description: "Contract finish as YYYY-MM-DD. Float is measured back from this date instead of from the forecast finish",
+        value: "",
+        placeholder: "2026-12-31"
+    });
+    requiredFinishColor = new ColorPicker({ name: "requiredFinishColor", displayName: "Required Finish Color", value: { value: "#D32F2F" } });
+    slices: Slice[] = [this.show, this.lineColor, this.lineWidth, this.lineStyle, this.requiredFinish, this.requiredFinishColor];
 }
 
 class DisplayOptionsCard extends Card {
@@ -162,6 +173,28 @@ class DisplayOptionsCard extends Card {
         value: false
     });
 
+    criticalityMode = new ItemDropdown({
+        name: "criticalityMode",
+        displayName: "Critical Path Definition",
+        description: "Total Float marks tasks at or below the float tolerance; Longest Path follows driving relationships back from the project finish",
+        items: [
+            { value: "totalFloat", displayName: "Total Float" },
+            { value: "longestPath", displayName: "Longest Path" }
+        ],
+        value: { value: "totalFloat", displayName: "Total Float" }
+    });
+
+    nearCriticalBasis = new ItemDropdown({
+        name: "nearCriticalBasis",
+        displayName: "Near-Critical Based On",
+        description: "Float compared against the near-critical threshold",
+        items: [
+            { value: "totalFloat", displayName: "Total Float" },
+            { value: "freeFloat", displayName: "Free Float" }
+        ],
+        value: { value: "totalFloat", displayName: "Total Float" }
+    });
+
     // Hidden property used only for persisting the toggle state
     showAllTasks = new ToggleSwitch({
         name: "showAllTasks",
@@ -172,7 +205,98 @@ class DisplayOptionsCard extends Card {
     });
 
     // Include hidden slice so formatting service reads persisted value
-    slices: Slice[] = [this.showTooltips, this.showAllTasks, this.unconstrainedMode];
+    slices: Slice[] = [this.showTooltips, this.showAllTasks, this.unconstrainedMode, this.criticalityMode, this.nearCriticalBasis];
+}
+
+class CalendarCard extends Card {
+    name: string = "calendar"; displayName: string = "Working Calendar";
+
+    useCalendar = new ToggleSwitch({
+        name: "useCalendar",
+        displayName: "Use Working Calendar",
+        description: "Count durations, lags and float in working days instead of calendar days",
+        value: false
+    });
+
+    workWeek = new TextInput({
+        name: "workWeek",
+        displayName: "Working Days",
+        description: "Working days of the week, e.g. Mon-Fri or Mon,Tue,Wed,Thu",
+        value: "Mon-Fri",
+        placeholder: "Mon-Fri"
+    });
+
+    holidays = new TextInput({
+        name: "holidays",
+        displayName: "Holidays",
+        description: "Non-working dates as YYYY-MM-DD, separated by commas",
+        value: "",
+        placeholder: "2025-12-25, 2026-01-01"
+    });
+
+    calendarDefinitions = new TextInput({
+        name: "calendarDefinitions",
+        displayName: "Named Calendars",
+        description: "Calendars referenced by the Calendar field, e.g. 6-Day: Mon-Sat; 7-Day: Sun-Sat",
+        value: "",
+        placeholder: "6-Day: Mon-Sat; 7-Day: Sun-Sat"
+    });
+
+    slices: Slice[] = [this.useCalendar, this.workWeek, this.holidays, this.calendarDefinitions];
+}
+
+class ProgressCard extends Card {
+    name: string = "progress"; displayName: string = "Progress";
+
+    dataDate = new TextInput({
+        name: "dataDate",
+        displayName: "Data Date",
+        description: "Status date as YYYY-MM-DD. Remaining work is scheduled from this date",
+        value: "",
+        placeholder: "2025-06-30"
+    });
+
+    showDataDateLine = new ToggleSwitch({ name: "showDataDateLine", displayName: "Show Data Date Line", value: true });
+    dataDateLineColor = new ColorPicker({ name: "dataDateLineColor", displayName: "Line Color", value: { value: "#1E88E5" } });
+    showEarnedSchedule = new ToggleSwitch({
+        name: "showEarnedSchedule",
+        displayName: "Show Earned Schedule",
+        description: "ES, SPI(t), SV(t) and IEAC(t) at the data date, from the baseline dates and progress",
+        value: true
+    });
+
+    slices: Slice[] = [this.dataDate, this.showDataDateLine, this.dataDateLineColor, this.showEarnedSchedule];
+}
+
+class BaselineCard extends Card {
+    name: string = "baseline"; displayName: string = "Baseline";
+
+    showBaseline = new ToggleSwitch({ name: "showBaseline", displayName: "Show Baseline Bars", value: true });
+    baselineColor = new ColorPicker({ name: "baselineColor", displayName: "Baseline Color", value: { value: "#9E9E9E" } });
+    showSlippageSummary = new ToggleSwitch({ name: "showSlippageSummary", displayName: "Show Slipped Milestones", value: true });
+    slippageCount = new NumUpDown({
+        name: "slippageCount",
+        displayName: "Milestones Listed",
+        value: 5,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 20 } }
+    });
+
+    slices: Slice[] = [this.showBaseline, this.baselineColor, this.showSlippageSummary, this.slippageCount];
+}
+
+class CycleDiagnosticsCard extends Card {
+    name: string = "cycles"; displayName: string = "Circular Dependencies";
+
+    showCyclePanel = new ToggleSwitch({ name: "showCyclePanel", displayName: "Show Cycle Panel", value: true });
+    breakLoops = new ToggleSwitch({
+        name: "breakLoops",
+        displayName: "Break Loops at Weakest Link",
+        description: "Drop the link in each loop that the plotted dates honour least, so CPM can run on the rest of the schedule",
+        value: false
+    });
+    cycleColor = new ColorPicker({ name: "cycleColor", displayName: "Loop Highlight Color", value: { value: "#D32F2F" } });
+
+    slices: Slice[] = [this.showCyclePanel, this.breakLoops, this.cycleColor];
 }
 
 class TaskSelectionCard extends Card {
@@ -214,10 +338,11 @@ class TaskSelectionCard extends Card {
     traceMode = new ItemDropdown({ 
         name: "traceMode", 
         displayName: "Trace Mode",
-        description: "Select whether to trace the critical path backward to or forward from the selected task",
+        description: "Select whether to trace the critical path backward to or forward from the selected task, or between it and a second task",
         items: [
             { value: "backward", displayName: "Trace Backward" },
-            { value: "forward", displayName: "Trace Forward" }
+            { value: "forward", displayName: "Trace Forward" },
+            { value: "between", displayName: "Trace Between" }
         ],
         value: { value: "backward", displayName: "Trace Backward" }
     });
@@ -231,6 +356,171 @@ class TaskSelectionCard extends Card {
     ];
 }
 
+class FloatPathsCard extends Card {
+    name: string = "floatPaths"; displayName: string = "Multiple Float Paths";
+    show = new ToggleSwitch({
+        name: "show",
+        displayName: "Show Float Paths",
+        description: "Rank the logic to the selected task (or the project finish) into float paths and colour each path",
+        value: false
+    });
+    pathCount = new NumUpDown({
+        name: "pathCount",
+        displayName: "Number of Paths",
+        value: 3,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 10 }
+        }
+    });
+    slices: Slice[] = [this.show, this.pathCount];
+}
+
+class FloatBandsCard extends Card {
+    name: string = "floatBands"; displayName: string = "Float Bands";
+
+    show = new ToggleSwitch({
+        name: "show",
+        displayName: "Colour by Float Band",
+        description: "Colour tasks by total float band instead of critical and near-critical",
+        value: false
+    });
+    bandLimits = new TextInput({
+        name: "bandLimits",
+        displayName: "Band Limits (days)",
+        description: "Upper limits of the bands, separated by commas. 0, 10, 20 gives < 0 d, 0 d, 1–10 d, 11–20 d and > 20 d",
+        value: "0, 10, 20",
+        placeholder: "0, 10, 20"
+    });
+    band1Color = new ColorPicker({ name: "band1Color", displayName: "Band 1 Color", value: { value: "#8B0000" } });
+    band2Color = new ColorPicker({ name: "band2Color", displayName: "Band 2 Color", value: { value: "#E81123" } });
+    band3Color = new ColorPicker({ name: "band3Color", displayName: "Band 3 Color", value: { value: "#F7941F" } });
+    band4Color = new ColorPicker({ name: "band4Color", displayName: "Band 4 Color", value: { value: "#FFB900" } });
+    band5Color = new ColorPicker({ name: "band5Color", displayName: "Band 5 Color", value: { value: "#8CBD18" } });
+    band6Color = new ColorPicker({ name: "band6Color", displayName: "Band 6 Color", value: { value: "#0063B1" } });
+
+    slices: Slice[] = [this.show, this.bandLimits, this.band1Color, this.band2Color, this.band3Color, this.band4Color, this.band5Color, this.band6Color];
+}
+
+class RiskAnalysisCard extends Card {
+    name: string = "riskAnalysis"; displayName: string = "Schedule Risk Analysis";
+    enableSimulation = new ToggleSwitch({
+        name: "enableSimulation",
+        displayName: "Run Simulation",
+        description: "Run a Monte Carlo simulation using the Optimistic/Most Likely/Pessimistic duration fields",
+        value: false
+    });
+    iterations = new NumUpDown({
+        name: "iterations",
+        displayName: "Iterations",
+        value: 1000,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 100 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 10000 }
+        }
+    });
+    distribution = new ItemDropdown({
+        name: "distribution",
+        displayName: "Distribution",
+        items: [
+            { value: "pert", displayName: "PERT" },
+            { value: "triangular", displayName: "Triangular" }
+        ],
+        value: { value: "pert", displayName: "PERT" }
+    });
+    seed = new NumUpDown({
+        name: "seed",
+        displayName: "Random Seed",
+        description: "The same seed always gives the same results",
+        value: 1,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 } }
+    });
+    showResults = new ToggleSwitch({
+        name: "showResults",
+        displayName: "Show P50/P80/P90 Lines",
+        description: "Show the percentile finish dates and the finish-date histogram on the timeline",
+        value: true
+    });
+    resultColor = new ColorPicker({ name: "resultColor", displayName: "Color", value: { value: "#7A4FB0" } });
+    slices: Slice[] = [this.enableSimulation, this.iterations, this.distribution, this.seed, this.showResults, this.resultColor];
+}
+
+class OpenEndsCard extends Card {
+    name: string = "openEnds"; displayName: string = "Open Ends";
+
+    showMarkers = new ToggleSwitch({
+        name: "showMarkers",
+        displayName: "Mark Open Ends",
+        description: "Filled dot: no predecessors or successors. Hollow dot: links that leave the start or finish free",
+        value: false
+    });
+    markerColor = new ColorPicker({ name: "markerColor", displayName: "Marker Color", value: { value: "#C2185B" } });
+    showOnlyOpenEnds = new ToggleSwitch({ name: "showOnlyOpenEnds", displayName: "Show Only Open-Ended Tasks", value: false });
+
+    slices: Slice[] = [this.showMarkers, this.markerColor, this.showOnlyOpenEnds];
+}
+
+class ScenarioCard extends Card {
+    name: string = "scenario"; displayName: string = "What-If Scenario";
+
+    showScenario = new ToggleSwitch({
+        name: "showScenario",
+        displayName: "Show Scenario Finishes",
+        description: "Right-click a task to override its duration or its predecessor links without changing the source data",
+        value: true
+    });
+    scenarioColor = new ColorPicker({ name: "scenarioColor", displayName: "Scenario Color", value: { value: "#EF6C00" } });
+
+    slices: Slice[] = [this.showScenario, this.scenarioColor];
+}
+
+class DcmaCard extends Card {
+    name: string = "dcma"; displayName: string = "Schedule Health (DCMA)";
+
+    showPanel = new ToggleSwitch({ name: "showPanel", displayName: "Show Health Check Panel", value: false });
+    maxPercent = new NumUpDown({
+        name: "maxPercent",
+        displayName: "Max Share of Tasks (%)",
+        description: "Limit for missing logic, lags, hard constraints, high float and high duration",
+        value: 5,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 } }
+    });
+    minFsPercent = new NumUpDown({
+        name: "minFsPercent",
+        displayName: "Min Finish-to-Start Links (%)",
+        value: 90,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 } }
+    });
+    highFloatDays = new NumUpDown({
+        name: "highFloatDays",
+        displayName: "High Float (days)",
+        value: 44,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 } }
+    });
+    highDurationDays = new NumUpDown({
+        name: "highDurationDays",
+        displayName: "High Duration (days)",
+        value: 44,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 } }
+    });
+    minIndex = new NumUpDown({
+        name: "minIndex",
+        displayName: "Min CPLI / BEI",
+        value: 0.95,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 2 } }
+    });
+
+    testDelay = new NumUpDown({
+        name: "testDelay",
+        displayName: "Critical Path Test Delay (days)",
+        description: "Delay added to a task by the critical path test; the project finish should move by the same amount",
+        value: 600,
+        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 } }
+    });
+
+    slices: Slice[] = [this.showPanel, this.maxPercent, this.minFsPercent, this.highFloatDays, this.highDurationDays, this.minIndex, this.testDelay];
+}
+
 class PersistedStateCard extends Card {
     name: string = "persistedState";
     displayName: string = "Persisted State";
@@ -255,7 +545,28 @@ class PersistedStateCard extends Card {
         placeholder: "",
         visible: false
     });
-    slices: Slice[] = [this.selectedTaskId, this.floatThreshold, this.traceMode];
+    secondTaskId = new TextInput({
+        name: "secondTaskId",
+        displayName: "",
+        value: "",
+        placeholder: "",
+        visible: false
+    });
+    traceTargets = new TextInput({
+        name: "traceTargets",
+        displayName: "",
+        value: "",
+        placeholder: "",
+        visible: false
+    });
+    scenario = new TextInput({
+        name: "scenario",
+        displayName: "",
+        value: "",
+        placeholder: "",
+        visible: false
+    });
+    slices: Slice[] = [this.selectedTaskId, this.floatThreshold, this.traceMode, this.secondTaskId, this.traceTargets, this.scenario];
 }
 
 // Main VisualSettings class 
@@ -269,7 +580,17 @@ export class VisualSettings extends Model {
     verticalGridLines = new VerticalGridLinesCard(); // Add instance of the new card
     projectEndLine = new ProjectEndLineCard();
     displayOptions = new DisplayOptionsCard();
+    calendar = new CalendarCard();
+    progress = new ProgressCard();
+    baseline = new BaselineCard();
+    cycles = new CycleDiagnosticsCard();
     taskSelection = new TaskSelectionCard(); // Add the new card
+    floatPaths = new FloatPathsCard();
+    floatBands = new FloatBandsCard();
+    riskAnalysis = new RiskAnalysisCard();
+    openEnds = new OpenEndsCard();
+    scenario = new ScenarioCard();
+    dcma = new DcmaCard();
     persistedState = new PersistedStateCard();
     // REMOVED: performanceOptions
 
@@ -283,7 +604,17 @@ export class VisualSettings extends Model {
         this.verticalGridLines,
         this.projectEndLine,
         this.displayOptions,
+        this.calendar,
+        this.progress,
+        this.baseline,
+        this.cycles,
         this.taskSelection,
+        this.floatPaths,
+        this.floatBands,
+        this.riskAnalysis,
+        this.openEnds,
+        this.scenario,
+        this.dcma,
         this.persistedState
         // REMOVED: performanceOptions from array
     ];
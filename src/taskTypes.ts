@@ -0,0 +1,61 @@
+// taskTypes.ts
+import { WorkCalendar } from './calendar';
+
+/** Level-of-effort, WBS summary and hammock tasks span the work they are linked to and never drive it */
+export const SPAN_TASK_TYPES = ['TT_LOE', 'TT_WBS', 'TT_Hammock'];
+
+// Accepts the P6 codes plus common long names; matched without case, spaces, dashes or underscores
+const TASK_TYPE_ALIASES: { [key: string]: string } = {
+    'TTTASK': 'TT_Task', 'TASK': 'TT_Task', 'TASKDEPENDENT': 'TT_Task',
+    'TTMILE': 'TT_Mile', 'STARTMILESTONE': 'TT_Mile',
+    'TTFINMILE': 'TT_FinMile', 'FINISHMILESTONE': 'TT_FinMile',
+    'TTLOE': 'TT_LOE', 'LOE': 'TT_LOE', 'LEVELOFEFFORT': 'TT_LOE',
+    'TTWBS': 'TT_WBS', 'WBS': 'TT_WBS', 'WBSSUMMARY': 'TT_WBS',
+    'TTHAMMOCK': 'TT_Hammock', 'HAMMOCK': 'TT_Hammock'
+};
+
+/** The canonical type code; unrecognised values are kept as given and treated as ordinary tasks */
+export function normalizeTaskType(value: unknown): string {
+    if (value === null || value === undefined) return 'TT_Task';
+    const raw = String(value).trim();
+    if (!raw) return 'TT_Task';
+    return TASK_TYPE_ALIASES[raw.toUpperCase().replace(/[\s_-]/g, '')] || raw;
+}
+
+export function isSpanTaskType(type: string | null | undefined): boolean {
+    return !!type && SPAN_TASK_TYPES.includes(type);
+}
+
+/** 'start' milestones sit on their start date, 'finish' milestones on their finish date */
+export type MilestoneKind = 'start' | 'finish';
+
+export function milestoneKind(type: string | null | undefined): MilestoneKind | null {
+    return type === 'TT_Mile' ? 'start' : type === 'TT_FinMile' ? 'finish' : null;
+}
+
+export interface SpanLink {
+    type: string;
+    lag: number;
+    start: number;                     // Dates of the task at the other end of the link
+    finish: number;
+}
+
+/**
+ * Dates of a span task from the tasks linked to it. FS and SS predecessors
+ * set the start (the earliest wins); FS and FF successors set the finish (the
+ * latest wins). An end with no such links keeps its own date.
+ */
+export function spanDates(
+    predecessors: SpanLink[], successors: SpanLink[],
+    own: { start: number; finish: number }, calendar: WorkCalendar
+): { start: number; finish: number } {
+    const starts = predecessors
+        .filter(link => link.type === 'FS' || link.type === 'SS')
+        .map(link => calendar.addWorkDays(link.type === 'SS' ? link.start : link.finish, link.lag, false));
+    const finishes = successors
+        .filter(link => link.type === 'FS' || link.type === 'FF')
+        .map(link => calendar.addWorkDays(link.type === 'FF' ? link.finish : link.start, -link.lag, true));
+    const start = starts.length ? Math.min(...starts) : own.start;
+    const finish = finishes.length ? Math.max(...finishes) : own.finish;
+    return { start, finish: Math.max(start, finish) };
+}
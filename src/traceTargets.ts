@@ -0,0 +1,45 @@
+// traceTargets.ts
+
+/** Target ids saved in the persisted state; anything unreadable gives no targets */
+export function parseTraceTargets(text: string | null | undefined): string[] {
+    if (!text) return [];
+    let saved: unknown;
+    try {
+        saved = JSON.parse(text);
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(saved)) return [];
+    return Array.from(new Set(saved.filter((id): id is string => typeof id === 'string' && id !== '')));
+}
+
+export function serializeTraceTargets(targetIds: string[]): string {
+    return targetIds.length > 1 ? JSON.stringify(targetIds) : "";
+}
+
+/**
+ * The target set after a ctrl-click on a task: adds it, or removes it when
+ * already a target. Targets keep the order they were picked in.
+ */
+export function toggleTraceTarget(targetIds: string[], taskId: string): string[] {
+    return targetIds.includes(taskId)
+        ? targetIds.filter(id => id !== taskId)
+        : [...targetIds, taskId];
+}
+
+/**
+ * For each task on a driving path, the targets it drives in target order,
+ * from the driving path traced to each target. A task listed under more than
+ * one target drives all of them.
+ */
+export function drivenTargets(targetIds: string[], pathsByTarget: Map<string, Set<string>>): Map<string, string[]> {
+    const membership = new Map<string, string[]>();
+    targetIds.forEach(targetId => {
+        pathsByTarget.get(targetId)?.forEach(taskId => {
+            const targets = membership.get(taskId);
+            if (targets) targets.push(targetId);
+            else membership.set(taskId, [targetId]);
+        });
+    });
+    return membership;
+}
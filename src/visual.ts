@@ -18,6 +18,26 @@ import { FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel
 import { IBasicFilter, FilterType } from "powerbi-models";
 import FilterAction = powerbi.FilterAction;
 import PriorityQueue from "./priorityQueue";
+import { normalizeConstraintType } from "./constraints";
+import { CriticalityMode, findProjectFinishTasks } from "./longestPath";
+import { FloatPathLink, rankFloatPaths } from "./floatPaths";
+import { MonteCarloOptions, MonteCarloResult } from "./monteCarlo";
+import { ProgressFields, getProgressStatus } from "./progress";
+import { SlippedMilestone, baselineVariance, rankSlippedMilestones } from "./baseline";
+import { breakCycles, findCycleGroups, traceCycle } from "./cycles";
+import { CpmInput, CpmResponse, CpmResult, CpmTask, CpmTrace, handleCpmRequest } from "./cpmEngine";
+import { CpmResultCache, cpmVariantKey, hashCpmInput } from "./cpmCache";
+import { CpmStage, CpmWorkerReply, CpmWorkerRequest, PATH_TEST_BATCH } from "./cpmWorker";
+import { createCpmWorker } from "./cpmWorkerHost";
+import { PACKED_TASK_THRESHOLD, isPacked, packCpmInput, transferablesOf, unpackCpmResponse } from "./cpmTransfer";
+import { CriticalPathTestResult, DcmaTask, assessSchedule, criticalPathTester } from "./dcma";
+import { OpenEnd, findOpenEnds } from "./openEnds";
+import { SpanLink, isSpanTaskType, milestoneKind, normalizeTaskType, spanDates } from "./taskTypes";
+import { EarnedScheduleTask, earnedSchedule } from "./earnedSchedule";
+import { FloatBand, buildFloatBands, floatBandIndex, parseBandLimits } from "./floatBands";
+import { drivenTargets, parseTraceTargets, serializeTraceTargets, toggleTraceTarget } from "./traceTargets";
+import { RELATIONSHIP_TYPES, Scenario, countOverrides, emptyScenario, linkKey, parseScenario, scenarioFinishShifts, serializeScenario } from "./scenario";
+import { CalendarDefinition, CalendarResolver, createCalendarResolver, STANDARD_WORK_WEEK, parseCalendarDefinitions, parseDayNumber, parseHolidayList, parseWorkWeek, relationshipSlack, fromLocalDayNumber, toLocalDayNumber } from "./calendar";
 
 // --- Update Task Interface to include tooltipData ---
 interface Task {
@@ -36,6 +56,7 @@ interface Task {
     lateStart: number;         // Calculated by CPM
     lateFinish: number;        // Calculated by CPM
     totalFloat: number;        // Calculated by CPM
+    freeFloat?: number;        // Slip available before any successor is delayed
     violatesConstraints?: boolean;
     isCritical: boolean;       // Final CPM criticality
     isCriticalByFloat?: boolean; // Intermediate CPM flag
@@ -46,6 +67,28 @@ interface Task {
     yOrder?: number;             // Vertical order index for plotting
     tooltipData?: Map<string, PrimitiveValue>; // Custom tooltip data
     relationshipLags: { [predId: string]: number | null; };
+    calendarName?: string | null; // Named working calendar from the Calendar field
+    constraintType?: string | null;   // Normalized constraint code (SNET, FNLT, ...)
+    constraintDate?: Date | null;
+    violatedConstraint?: string | null; // Constraint type, or 'Logic' when a relationship is broken
+    requiredFinish?: Date | null;  // Deadline from the Required Finish field
+    floatPath?: number;          // Multiple float path number (1 = driving path)
+    optimisticDuration?: number | null;  // Three-point estimate for risk simulation (work days)
+    mostLikelyDuration?: number | null;
+    pessimisticDuration?: number | null;
+    criticalityIndex?: number;   // Share of simulation iterations the task was critical in
+    percentComplete?: number | null;
+    actualStart?: Date | null;
+    actualFinish?: Date | null;
+    remainingDuration?: number | null;   // Work days left on a started task
+    baselineStart?: Date | null;
+    baselineFinish?: Date | null;
+    inCycle?: boolean;           // Part of a circular dependency
+    scenarioFinish?: Date | null;    // Finish under the what-if scenario
+    scenarioShift?: number;      // Scenario finish minus current finish (work days)
+    openStart?: OpenEnd | null;  // Start that no link drives
+    openFinish?: OpenEnd | null; // Finish that no link depends on
+    drivenTargets?: string[];    // Multi-target trace: the targets whose driving path runs through the task
 }
 
 interface Relationship {
@@ -55,8 +98,25 @@ interface Relationship {
     freeFloat: number | null;  // Optional free float value from data
     isCritical: boolean;       // Determined by numerical CPM based on float/driving logic
     lag: number | null; 
+    isDriving?: boolean;       // Zero relationship free float: controls the successor's start
+    inCycle?: boolean;         // Joins two tasks of the same circular dependency
 }
 
+// Offending tasks listed under an expanded DCMA check
+const DCMA_TASKS_LISTED = 20;
+
+// Fill of WBS summary bars, which are never critical
+const SUMMARY_BAR_COLOR = "#424242";
+
+// Colours for float paths 2..N (path 1 uses the critical path colour)
+const FLOAT_PATH_COLORS = ["#F7941F", "#FFB900", "#8CBD18", "#00B7C3", "#0063B1", "#8764B8", "#E3008C", "#7A7574", "#498205"];
+
+// Colours for the driving paths of a multi-target trace, one per target in the order picked
+const TRACE_TARGET_COLORS = ["#0063B1", "#8764B8", "#00B7C3", "#498205", "#E3008C", "#F7941F", "#7A7574", "#8CBD18"];
+
+// Outline of tasks that drive more than one trace target
+const SHARED_DRIVER_STROKE = "#000000";
+
 // Update type enumeration
 enum UpdateType {
     Full = "Full",
@@ -115,6 +175,12 @@ export class Visual implements IVisual {
     private headerHeight = 100;
     private dateLabelOffset = 8;
     private floatTolerance = 0.001;
+    private taskCalendars: CalendarResolver = createCalendarResolver(null, null);
+    private scheduleBaseDay = 0;
+    private riskResult: MonteCarloResult | null = null;
+    private cycleDetails: string[] = [];
+    private brokenCycleLinks: Relationship[] = [];
+    private hasUnresolvedCycles = false;     // Loops left in place: CPM is skipped and dates are plotted as given
     private defaultMaxTasks = 500;
     private labelPaddingLeft = 10;
     private dateBackgroundPadding = { horizontal: 4, vertical: 2 };
@@ -133,8 +199,24 @@ export class Visual implements IVisual {
     private dropdownInput: Selection<HTMLInputElement, unknown, null, undefined>;
     private dropdownList: Selection<HTMLDivElement, unknown, null, undefined>;
     private selectedTaskLabel: Selection<HTMLDivElement, unknown, null, undefined>;
+    private slippageSummaryDiv: Selection<HTMLDivElement, unknown, null, undefined>;
+    private earnedScheduleDiv: Selection<HTMLDivElement, unknown, null, undefined>;
+    private cyclePanelDiv: Selection<HTMLDivElement, unknown, null, undefined>;
+    private scenarioPanelDiv: Selection<HTMLDivElement, unknown, null, undefined>;
+    private scenarioEditorDiv: Selection<HTMLDivElement, unknown, null, undefined>;
+    private scenario: Scenario = emptyScenario();
+    private scenarioShifts: { key: string; shifts: { [taskId: string]: number } } | null = null;
+    private dcmaPanelDiv: Selection<HTMLDivElement, unknown, null, undefined>;
+    private dcmaExpandedCheck: string | null = null;
+    private criticalPathTest: { key: string; result: CriticalPathTestResult | null | undefined } | null = null;   // Result undefined while the test runs
+    private pendingPathTest: { requestId: number; input: CpmInput; taskIds: string[]; delay: number; resolve: (results: CriticalPathTestResult[] | null) => void } | null = null;
+    private pathTestResults: { scheduleHash: string; mode: 'selected' | 'batch'; results: CriticalPathTestResult[] } | null = null;
+    private pathTestRunning = false;
+    private pathTestRun = 0;                 // Latest test started from the panel; older ones leave the panel alone
 
     private traceMode: string = "backward"; // Default to "backward"
+    private secondTaskId: string | null = null;   // Other end of a "between" trace
+    private traceTargetIds: string[] = [];        // Every target of a multi-target trace; empty when tracing to one task
 
     private floatThresholdInput: Selection<HTMLInputElement, unknown, null, undefined>;
     private floatThreshold: number = 0;
@@ -157,10 +239,14 @@ export class Visual implements IVisual {
     private renderBatchTimer: number | null = null;
     private renderQueue: Set<string> = new Set();
     private cpmWorker: Worker | null = null;
+    private cpmWorkerFailed = false;
+    private cpmRequestId = 0;                // Generation of the latest worker request; older replies are ignored
+    private pendingCpmRequest: { requestId: number; input: CpmInput; scheduleHash: string; resolve: (applied: boolean) => void } | null = null;
+    private cpmCache = new CpmResultCache();  // Results for the current schedule content, full and per traced task
+    private cpmProgressDiv: Selection<HTMLDivElement, unknown, null, undefined>;
     
     // Enhanced data structures for performance
     private predecessorIndex: Map<string, Set<string>> = new Map(); // taskId -> Set of tasks that have this as predecessor
-    private taskDepthCache: Map<string, number> = new Map(); // Cache for task depths in dependency graph
     private sortedTasksCache: Task[] | null = null; // Cache for topologically sorted tasks
     private relationshipIndex: Map<string, Relationship[]> = new Map(); // Quick lookup for relationships by successorId
 
@@ -180,6 +266,7 @@ export class Visual implements IVisual {
                 .attr("class", "visual-wrapper")
                 .style("height", "100%")
                 .style("width", "100%")
+                .style("position", "relative")
                 .style("overflow", "hidden");
         
             // --- Sticky Header Container ---
@@ -265,6 +352,46 @@ export class Visual implements IVisual {
                 .style("color", "#333")
                 .style("font-weight", "bold")
                 .style("display", "none");
+
+            // --- Earned schedule KPIs (right of the float threshold, above the timeline) ---
+            this.earnedScheduleDiv = this.stickyHeaderContainer.append("div")
+                .attr("class", "earned-schedule-strip")
+                .style("position", "absolute")
+                .style("top", "38px")
+                .style("right", "15px")
+                .style("gap", "10px")
+                .style("padding", "4px 8px")
+                .style("background-color", "#f8f8f8")
+                .style("border", "1px solid #e0e0e0")
+                .style("border-radius", "6px")
+                .style("font-family", "Segoe UI, sans-serif")
+                .style("font-size", "9px")
+                .style("color", "#424242")
+                .style("z-index", "20")
+                .style("display", "none");
+
+            // --- CPM progress (shown while the worker is busy) ---
+            this.cpmProgressDiv = this.stickyHeaderContainer.append("div")
+                .attr("class", "cpm-progress")
+                .style("position", "absolute")
+                .style("bottom", "6px")
+                .style("right", "15px")
+                .style("width", "120px")
+                .style("font-family", "Segoe UI, sans-serif")
+                .style("font-size", "8px")
+                .style("color", "#555")
+                .style("pointer-events", "none")
+                .style("display", "none");
+            this.cpmProgressDiv.append("div").attr("class", "cpm-progress-label");
+            this.cpmProgressDiv.append("div")
+                .style("height", "3px")
+                .style("margin-top", "2px")
+                .style("background-color", "#e0e0e0")
+                .append("div")
+                .attr("class", "cpm-progress-bar")
+                .style("height", "100%")
+                .style("width", "0%")
+                .style("background-color", "#1976D2");
         
             // --- Scrollable Container for main chart content ---
             this.scrollableContainer = visualWrapper.append("div")
@@ -275,6 +402,94 @@ export class Visual implements IVisual {
                 .style("overflow-x", "hidden")
                 .style("padding-top", `0px`);
         
+            // --- Slipped milestones summary (floats over the bottom-right of the chart) ---
+            this.slippageSummaryDiv = visualWrapper.append("div")
+                .attr("class", "slippage-summary")
+                .style("position", "absolute")
+                .style("bottom", "10px")
+                .style("right", "25px")
+                .style("max-width", "260px")
+                .style("padding", "5px 8px")
+                .style("background-color", "rgba(255,255,255,0.9)")
+                .style("border", "1px solid #ccc")
+                .style("border-radius", "4px")
+                .style("font-family", "Segoe UI, sans-serif")
+                .style("font-size", "9px")
+                .style("color", "#333")
+                .style("z-index", "15")
+                .style("pointer-events", "none")
+                .style("display", "none");
+        
+            // --- Circular dependency panel (bottom-left of the chart) ---
+            this.cyclePanelDiv = visualWrapper.append("div")
+                .attr("class", "cycle-panel")
+                .style("position", "absolute")
+                .style("bottom", "10px")
+                .style("left", "10px")
+                .style("max-width", "45%")
+                .style("max-height", "40%")
+                .style("overflow-y", "auto")
+                .style("padding", "5px 8px")
+                .style("background-color", "rgba(255,255,255,0.95)")
+                .style("border", "1px solid #ccc")
+                .style("border-radius", "4px")
+                .style("font-family", "Segoe UI, sans-serif")
+                .style("font-size", "9px")
+                .style("color", "#333")
+                .style("z-index", "15")
+                .style("display", "none");
+        
+            // --- What-if scenario summary (top-right of the chart) ---
+            this.scenarioPanelDiv = visualWrapper.append("div")
+                .attr("class", "scenario-panel")
+                .style("position", "absolute")
+                .style("top", `${this.headerHeight + 8}px`)
+                .style("right", "25px")
+                .style("max-width", "260px")
+                .style("padding", "5px 8px")
+                .style("background-color", "rgba(255,255,255,0.95)")
+                .style("border", "1px solid #ccc")
+                .style("border-radius", "4px")
+                .style("font-family", "Segoe UI, sans-serif")
+                .style("font-size", "9px")
+                .style("color", "#333")
+                .style("z-index", "15")
+                .style("display", "none");
+        
+            // --- DCMA schedule health panel (top-left of the chart) ---
+            this.dcmaPanelDiv = visualWrapper.append("div")
+                .attr("class", "dcma-panel")
+                .style("position", "absolute")
+                .style("top", `${this.headerHeight + 8}px`)
+                .style("left", "10px")
+                .style("max-height", "60%")
+                .style("overflow-y", "auto")
+                .style("padding", "5px 8px")
+                .style("background-color", "rgba(255,255,255,0.95)")
+                .style("border", "1px solid #ccc")
+                .style("border-radius", "4px")
+                .style("font-family", "Segoe UI, sans-serif")
+                .style("font-size", "9px")
+                .style("color", "#333")
+                .style("z-index", "15")
+                .style("display", "none");
+        
+            // --- What-if editor popup, opened by right-clicking a task ---
+            this.scenarioEditorDiv = visualWrapper.append("div")
+                .attr("class", "scenario-editor")
+                .style("position", "absolute")
+                .style("min-width", "200px")
+                .style("padding", "6px 8px")
+                .style("background-color", "white")
+                .style("border", "1px solid #ccc")
+                .style("border-radius", "4px")
+                .style("box-shadow", "0 2px 10px rgba(0,0,0,0.2)")
+                .style("font-family", "Segoe UI, sans-serif")
+                .style("font-size", "10px")
+                .style("color", "#333")
+                .style("z-index", "40")
+                .style("display", "none");
+        
             // --- Main SVG for the chart content ---
             this.mainSvg = this.scrollableContainer.append("svg")
                 .classed("criticalPathVisual", true)
@@ -332,36 +547,13 @@ export class Visual implements IVisual {
             d3.select(this.canvasElement).on("click", (event: MouseEvent) => {
                 if (!this.useCanvasRendering || !this.xScale || !this.yScale || !this.canvasElement) return;
                 
-                const rect = this.canvasElement.getBoundingClientRect();
-                const x = event.clientX - rect.left;
-                const y = event.clientY - rect.top;
-                
                 // Find clicked task
-                let clickedTask: Task | null = null;
-                
-                for (const task of this.allTasksToShow.slice(this.viewportStartIndex, this.viewportEndIndex + 1)) {
-                    const domainKey = task.yOrder?.toString() ?? '';
-                    const yPosition = this.yScale(domainKey);
-                    if (yPosition === undefined) continue;
-                    
-                    const taskHeight = this.settings.taskAppearance.taskHeight.value;
-                    
-                    // Check if click is within task bounds
-                    if (y >= yPosition && y <= yPosition + taskHeight) {
-                        if (task.startDate && task.finishDate) {
-                            const taskX = this.xScale(task.startDate);
-                            const taskWidth = this.xScale(task.finishDate) - taskX;
-                            
-                            if (x >= taskX && x <= taskX + taskWidth) {
-                                clickedTask = task;
-                                break;
-                            }
-                        }
-                    }
-                }
+                const clickedTask = this.findCanvasTaskAt(event);
                 
                 // Handle task selection
-                if (clickedTask) {
+                if (clickedTask && (event.ctrlKey || event.metaKey)) {
+                    this.toggleTraceTargetTask(clickedTask.internalId);
+                } else if (clickedTask) {
                     if (this.selectedTaskId === clickedTask.internalId) {
                         this.selectTask(null, null);
                     } else {
@@ -374,6 +566,12 @@ export class Visual implements IVisual {
                 }
             });
             
+            d3.select(this.canvasElement).on("contextmenu", (event: MouseEvent) => {
+                if (!this.useCanvasRendering || !this.xScale || !this.yScale || !this.canvasElement) return;
+                const task = this.findCanvasTaskAt(event);
+                if (task) this.openScenarioEditor(task, event);
+            });
+            
             // Add canvas tooltip handler using native element
             d3.select(this.canvasElement).on("mousemove", (event: MouseEvent) => {
                 if (!this.useCanvasRendering || !this.xScale || !this.yScale || !this.canvasElement) return;
@@ -401,7 +599,7 @@ export class Visual implements IVisual {
                     if (y >= yPosition && y <= yPosition + taskHeight) {
                         if (task.type === 'TT_Mile' || task.type === 'TT_FinMile') {
                             // Check milestone bounds
-                            const milestoneDate = task.startDate || task.finishDate;
+                            const milestoneDate = this.getMilestoneDate(task);
                             if (milestoneDate) {
                                 const milestoneX = this.xScale(milestoneDate);
                                 const size = Math.max(4, Math.min(milestoneSizeSetting, taskHeight * 0.9));
@@ -471,7 +669,7 @@ export class Visual implements IVisual {
                         .text(function() {
                             if (hoveredTask.internalId === self.selectedTaskId) return "Selected";
                             if (hoveredTask.isCritical) return "Critical";
-                            if (hoveredTask.isNearCritical) return `Near-Critical (Float: ${hoveredTask.totalFloat})`;
+                            if (hoveredTask.isNearCritical) return `Near-Critical (Float: ${self.getNearCriticalFloat(hoveredTask)})`;
                             return "Non-Critical";
                         });
                         
@@ -482,6 +680,72 @@ export class Visual implements IVisual {
                     cpmInfo.append("div").append("strong").text("Total Float: ")
                         .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
                         .append("span").text(isFinite(hoveredTask.totalFloat) ? hoveredTask.totalFloat : "N/A");
+
+                    cpmInfo.append("div").append("strong").text("Free Float: ")
+                        .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                        .append("span").text(hoveredTask.freeFloat !== undefined && isFinite(hoveredTask.freeFloat) ? hoveredTask.freeFloat : "N/A");
+
+                    const hoveredProgress = getProgressStatus(this.getProgressTimes(hoveredTask));
+                    if (hoveredProgress !== 'notStarted') {
+                        cpmInfo.append("div").append("strong").text("Progress: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(this.formatProgress(hoveredTask, hoveredProgress === 'completed'));
+                    }
+                    if (hoveredTask.baselineStart || hoveredTask.baselineFinish) {
+                        const hoveredVariance = this.getBaselineVariance(hoveredTask);
+                        cpmInfo.append("div").append("strong").text("Start Variance: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(this.formatVariance(hoveredVariance.start));
+                        cpmInfo.append("div").append("strong").text("Finish Variance: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(this.formatVariance(hoveredVariance.finish));
+                    }
+                    if (hoveredTask.scenarioFinish) {
+                        cpmInfo.append("div").append("strong").text("Scenario Finish: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(this.formatScenarioFinish(hoveredTask));
+                    }
+                    if (hoveredTask.openStart || hoveredTask.openFinish) {
+                        cpmInfo.append("div").append("strong").text("Open Ends: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(this.formatOpenEnds(hoveredTask));
+                    }
+                    if (hoveredTask.criticalityIndex !== undefined) {
+                        cpmInfo.append("div").append("strong").text("Criticality Index: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(`${Math.round(hoveredTask.criticalityIndex * 100)}%`);
+                    }
+                    if (hoveredTask.floatPath !== undefined) {
+                        cpmInfo.append("div").append("strong").text("Float Path: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(hoveredTask.floatPath);
+                    }
+                    const hoveredBand = this.getFloatBand(hoveredTask, this.getFloatBands());
+                    if (hoveredBand) {
+                        cpmInfo.append("div").append("strong").text("Float Band: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(hoveredBand.label);
+                    }
+                    if (hoveredTask.drivenTargets) {
+                        cpmInfo.append("div").append("strong").text("Drives: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(this.formatDrivenTargets(hoveredTask));
+                    }
+                    if (hoveredTask.constraintType) {
+                        cpmInfo.append("div").append("strong").text("Constraint: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(`${hoveredTask.constraintType} ${this.formatDate(hoveredTask.constraintDate)}`.trim());
+                    }
+                    if (hoveredTask.requiredFinish) {
+                        cpmInfo.append("div").append("strong").text("Required Finish: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(this.formatDate(hoveredTask.requiredFinish));
+                    }
+                    if (hoveredTask.violatedConstraint) {
+                        cpmInfo.append("div").append("strong").style("color", "#D32F2F").text("Violates: ")
+                            .select<HTMLElement>(function() { return this.parentNode as HTMLElement; })
+                            .append("span").text(hoveredTask.violatedConstraint);
+                    }
                     
                     // Custom Tooltip Fields
                     if (hoveredTask.tooltipData && hoveredTask.tooltipData.size > 0) {
@@ -596,6 +860,10 @@ export class Visual implements IVisual {
     }
 
     public destroy(): void {
+        this.cancelPendingCpmRequest();
+        this.cancelPendingPathTest();
+        this.cpmWorker?.terminate();
+        this.cpmWorker = null;
         this.tooltipDiv?.remove();
         this.applyTaskFilter([]);
         this.debugLog("Critical Path Visual destroyed.");
@@ -917,44 +1185,12 @@ export class Visual implements IVisual {
             });
             
         // Rest of the method remains the same...
-        const legendContainer = newContainer.append("div")
+        newContainer.append("div")
+            .attr("class", "float-legend")
             .style("display", "flex")
             .style("align-items", "center")
             .style("gap", "12px");
-        
-        // Critical indicator
-        const criticalIndicator = legendContainer.append("div")
-            .style("display", "flex")
-            .style("align-items", "center");
-        
-        criticalIndicator.append("div")
-            .style("width", "10px")
-            .style("height", "10px")
-            .style("background-color", "#E81123")
-            .style("border-radius", "2px")
-            .style("margin-right", "5px");
-        
-        criticalIndicator.append("span")
-            .style("font-size", "9px")
-            .style("color", "#424242")
-            .text("Critical");
-        
-        // Near-critical indicator
-        const nearCriticalIndicator = legendContainer.append("div")
-            .style("display", "flex")
-            .style("align-items", "center");
-        
-        nearCriticalIndicator.append("div")
-            .style("width", "10px")
-            .style("height", "10px")
-            .style("background-color", "#F7941F")
-            .style("border-radius", "2px")
-            .style("margin-right", "5px");
-        
-        nearCriticalIndicator.append("span")
-            .style("font-size", "9px")
-            .style("color", "#424242")
-            .text("Near-Critical");
+        this.updateFloatLegend();
         
         // Add event handler for float threshold input
         const self = this;
@@ -969,6 +1205,36 @@ export class Visual implements IVisual {
         });
     }
 
+    /** Legend beside the float threshold: one entry per float band when bands are on, else critical and near-critical */
+    private updateFloatLegend(): void {
+        const legendContainer = this.stickyHeaderContainer.select(".float-legend");
+        if (legendContainer.empty()) return;
+        legendContainer.selectAll("*").remove();
+
+        const bands = this.settings ? this.getFloatBands() : null;
+        const entries = bands
+            ? bands.map(band => ({ color: band.color, label: band.label }))
+            : [{ color: "#E81123", label: "Critical" }, { color: "#F7941F", label: "Near-Critical" }];
+        entries.forEach(entry => {
+            const indicator = legendContainer.append("div")
+                .style("display", "flex")
+                .style("align-items", "center");
+            
+            indicator.append("div")
+                .style("width", "10px")
+                .style("height", "10px")
+                .style("background-color", entry.color)
+                .style("border-radius", "2px")
+                .style("margin-right", "5px");
+            
+            indicator.append("span")
+                .style("font-size", "9px")
+                .style("color", "#424242")
+                .style("white-space", "nowrap")
+                .text(entry.label);
+        });
+    }
+
     private toggleConnectorLinesDisplay(): void {
         try {
             this.debugLog("Connector Lines Toggle method called!");
@@ -1051,6 +1317,15 @@ export class Visual implements IVisual {
                     const persistedMode = this.settings.persistedState.traceMode.value;
                     this.traceMode = persistedMode ? persistedMode : "backward";
                 }
+                if (this.settings?.persistedState?.secondTaskId !== undefined) {
+                    this.secondTaskId = this.settings.persistedState.secondTaskId.value || null;
+                }
+                if (this.settings?.persistedState?.traceTargets !== undefined) {
+                    this.traceTargetIds = parseTraceTargets(this.settings.persistedState.traceTargets.value);
+                }
+                if (this.settings?.persistedState?.scenario !== undefined) {
+                    this.scenario = parseScenario(this.settings.persistedState.scenario.value);
+                }
                 this.isInitialLoad = false;
             }
     
@@ -1077,6 +1352,7 @@ export class Visual implements IVisual {
                 return;
             }
             this.debugLog(`Transformed ${this.allTasksData.length} tasks.`);
+            this.resolveCycles();
     
             // Restore selected task name after data is loaded
             if (this.selectedTaskId) {
@@ -1096,11 +1372,22 @@ export class Visual implements IVisual {
                 }
             }
 
+            const traceTargets = this.getTraceTargets();
             if (this.selectedTaskLabel) {
                 if (this.selectedTaskId && this.selectedTaskName && this.settings.taskSelection.showSelectedTaskLabel.value) {
+                    const secondTask = this.traceMode === "between" && this.secondTaskId ? this.taskIdToTask.get(this.secondTaskId) : undefined;
                     this.selectedTaskLabel
                         .style("display", "block")
-                        .text(`Selected: ${this.selectedTaskName}`);
+                        .text(secondTask ? `Between: ${this.selectedTaskName} and ${secondTask.name}` : `Selected: ${this.selectedTaskName}`);
+                    if (traceTargets.length > 0) {
+                        // Each target's name in the colour of its driving path
+                        this.selectedTaskLabel.text("Targets: ");
+                        traceTargets.forEach((targetId, i) => {
+                            this.selectedTaskLabel.append("span")
+                                .style("color", this.getTraceTargetColor(targetId))
+                                .text(`${this.taskIdToTask.get(targetId)?.name || targetId}${i < traceTargets.length - 1 ? ", " : ""}`);
+                        });
+                    }
                 } else {
                     this.selectedTaskLabel.style("display", "none");
                 }
@@ -1108,6 +1395,7 @@ export class Visual implements IVisual {
 
             this.populateTaskDropdown();
             this.createTraceModeToggle();
+            this.updateFloatLegend();
             
             // Enable task selection flag
             const enableTaskSelection = this.settings.taskSelection.enableTaskSelection.value;
@@ -1115,13 +1403,24 @@ export class Visual implements IVisual {
             // Task-specific path calculation if task selected
             let tasksInPathToTarget = new Set<string>();
             let tasksInPathFromTarget = new Set<string>();
+            let tasksBetweenTargets: Set<string> | null = null;
+            let tasksOnTargetPaths: Set<string> | null = null;
+            const betweenEnds = this.getBetweenEndpoints();
     
             if (enableTaskSelection && this.selectedTaskId) {
                 // Get the trace mode from settings or UI toggle
                 const traceModeFromSettings = this.settings.taskSelection.traceMode.value.value;
                 const effectiveTraceMode = this.traceMode || traceModeFromSettings;
                 
-                if (effectiveTraceMode === "forward") {
+                if (betweenEnds) {
+                    // Only the logic joining the two tasks, with the longest path between them as critical
+                    tasksBetweenTargets = this.calculateCPMBetweenTasks(betweenEnds.sourceId, betweenEnds.targetId);
+                    this.debugLog(`Between CPM calculation complete. ${tasksBetweenTargets.size} tasks connect ${betweenEnds.sourceId} to ${betweenEnds.targetId}.`);
+                } else if (traceTargets.length > 0) {
+                    // One trace per target, each task coloured by the targets it drives
+                    tasksOnTargetPaths = this.calculateCPMForTargets(traceTargets, effectiveTraceMode === "forward" ? "forward" : "backward");
+                    this.debugLog(`Multi-target CPM calculation complete. ${tasksOnTargetPaths.size} tasks trace to ${traceTargets.length} targets.`);
+                } else if (effectiveTraceMode === "forward") {
                     // Calculate critical path from selected task (forward)
                     this.calculateCPMFromTask(this.selectedTaskId);
                     this.debugLog(`Forward CPM calculation complete. Found ${this.allTasksData.filter(t => t.isCritical).length} critical tasks from ${this.selectedTaskId}.`);
@@ -1140,9 +1439,19 @@ export class Visual implements IVisual {
                 }
             } else {
                 // Calculate standard critical path with optimized method off-thread
-                await this.calculateCPMOffThread();
+                if (!await this.calculateCPMOffThread()) {
+                    this.debugLog("CPM request superseded by a newer update.");
+                    return;
+                }
+                this.calculateFloatPaths(findProjectFinishTasks(this.allTasksData.filter(t => !isSpanTaskType(t.type)), this.floatTolerance), null);
                 this.debugLog(`CPM calculation complete. Found ${this.allTasksData.filter(t => t.isCritical).length} critical tasks.`);
             }
+            this.applySpanDates();
+            this.applyScenarioFinishes();
+            this.markOpenEnds();
+            if (this.pathTestResults && this.pathTestResults.scheduleHash !== hashCpmInput(this.buildCpmInput())) {
+                this.pathTestResults = null;
+            }
     
             // --- Filtering/Limiting/Sorting logic ---
             this.debugLog(`Filtering tasks based on internal state: showAllTasksInternal = ${this.showAllTasksInternal}`);
@@ -1160,7 +1469,7 @@ export class Visual implements IVisual {
             // Get critical path tasks AND near-critical tasks
             const criticalPathTasks = tasksSortedByES.filter(task => task.isCritical);
             const nearCriticalTasks = tasksSortedByES.filter(task => task.isNearCritical);
-            const criticalAndNearCriticalTasks = tasksSortedByES.filter(task => task.isCritical || task.isNearCritical);
+            const criticalAndNearCriticalTasks = tasksSortedByES.filter(task => task.isCritical || task.isNearCritical || task.floatPath !== undefined);
             
             // Handle task selection with showAllTasksInternal state
             let tasksToConsider: Task[] = [];
@@ -1170,7 +1479,22 @@ export class Visual implements IVisual {
                 const traceModeFromSettings = this.settings.taskSelection.traceMode.value.value;
                 const effectiveTraceMode = this.traceMode || traceModeFromSettings;
                 
-                if (effectiveTraceMode === "forward") {
+                if (tasksBetweenTargets && betweenEnds) {
+                    if (tasksBetweenTargets.size === 0) {
+                        const nameOf = (id: string) => this.taskIdToTask.get(id)?.name ?? id;
+                        this.displayMessage(`No logic path connects "${nameOf(betweenEnds.sourceId)}" and "${nameOf(betweenEnds.targetId)}".`);
+                        return;
+                    }
+                    const between = tasksBetweenTargets;
+                    tasksToConsider = this.showAllTasksInternal
+                        ? tasksSortedByES.filter(task => between.has(task.internalId))
+                        : criticalAndNearCriticalTasks;
+                } else if (tasksOnTargetPaths) {
+                    const onPaths = tasksOnTargetPaths;
+                    tasksToConsider = this.showAllTasksInternal
+                        ? tasksSortedByES.filter(task => onPaths.has(task.internalId))
+                        : criticalAndNearCriticalTasks;
+                } else if (effectiveTraceMode === "forward") {
                     // Handle forward tracing
                     if (this.showAllTasksInternal) {
                         // "Show All Tasks" mode + task selected = all successor tasks
@@ -1198,6 +1522,15 @@ export class Visual implements IVisual {
                     : (criticalAndNearCriticalTasks.length > 0) ? criticalAndNearCriticalTasks : tasksSortedByES;
             }
             
+            // Open-ends filter: every task with a free start or finish, whatever the other filters
+            if (this.settings.openEnds.showOnlyOpenEnds.value) {
+                tasksToConsider = tasksSortedByES.filter(task => task.openStart || task.openFinish);
+                if (tasksToConsider.length === 0) {
+                    this.displayMessage("No open-ended tasks: every task is tied into the logic at both ends.");
+                    return;
+                }
+            }
+            
             this.debugLog(`Tasks to consider for display (after filtering): ${tasksToConsider.length}`);
     
             // Update toggle button text
@@ -1383,6 +1716,11 @@ export class Visual implements IVisual {
         
             this.mainSvg?.selectAll(".message-text").remove();
             this.headerSvg?.selectAll(".message-text").remove();
+            this.slippageSummaryDiv?.style("display", "none");
+            this.cyclePanelDiv?.style("display", "none");
+            this.scenarioPanelDiv?.style("display", "none");
+            this.scenarioEditorDiv?.style("display", "none");
+            this.dcmaPanelDiv?.style("display", "none");
             
             // NEW: Clear canvas
             if (this.canvasElement && this.canvasContext) {
@@ -1460,6 +1798,9 @@ export class Visual implements IVisual {
 
         const startTimestamps = tasksToShow.map(d => d.startDate?.getTime()).filter(t => t != null && !isNaN(t)) as number[];
         const endTimestamps = tasksToShow.map(d => d.finishDate?.getTime()).filter(t => t != null && !isNaN(t)) as number[];
+        // Keep the required finish line in view
+        const requiredFinishDate = this.settings.projectEndLine.show.value ? this.getRequiredFinishDate() : null;
+        if (requiredFinishDate && endTimestamps.length > 0) endTimestamps.push(requiredFinishDate.getTime());
 
         if (startTimestamps.length === 0 || endTimestamps.length === 0) {
              console.warn("No valid Start/Finish dates found among tasks to plot. Cannot create time scale.");
@@ -1514,7 +1855,7 @@ export class Visual implements IVisual {
         const self = this;
         this.scrollListener = this.scrollableContainer.on("scroll", function() {
             if (!self.scrollThrottleTimeout) {
-                self.scrollThrottleTimeout = setTimeout(() => {
+                self.scrollThrottleTimeout = window.setTimeout(() => {
                     self.scrollThrottleTimeout = null;
                     self.handleScroll();
                 }, 50); // Throttle to 20fps
@@ -1566,7 +1907,7 @@ export class Visual implements IVisual {
         }
         
         // Batch render operations
-        this.renderBatchTimer = setTimeout(() => {
+        this.renderBatchTimer = window.setTimeout(() => {
             this.performRedrawVisibleTasks();
             this.renderBatchTimer = null;
         }, 16); // ~60fps
@@ -1842,6 +2183,17 @@ export class Visual implements IVisual {
             if (showProjectEndLine) {
                 this.drawProjectEndLine(chartWidth, xScale, tasksToShow, this.allTasksToShow, chartHeight, this.gridLayer, this.headerGridLayer);
             }
+            if (this.settings.progress.showDataDateLine.value) {
+                this.drawDataDateLine(xScale, chartHeight, this.gridLayer, this.headerGridLayer);
+            }
+            if (this.riskResult && this.settings.riskAnalysis.enableSimulation.value && this.settings.riskAnalysis.showResults.value) {
+                this.drawRiskResults(xScale, chartHeight, this.gridLayer, this.headerGridLayer);
+            }
+            this.drawSlippageSummary();
+            this.drawEarnedScheduleStrip();
+            this.drawCyclePanel();
+            this.drawScenarioPanel();
+            this.drawDcmaPanel();
         }
 
     private drawHorizontalGridLines(tasks: Task[], yScale: ScaleBand<string>, chartWidth: number, currentLeftMargin: number, chartHeight: number): void {
@@ -1991,6 +2343,8 @@ private drawTasks(
     const dateBgPaddingH = this.dateBackgroundPadding.horizontal;
     const dateBgPaddingV = this.dateBackgroundPadding.vertical;
     const nearCriticalColor = "#F7941F"; // Yellow for near-critical tasks
+    const cycleColor = this.settings.cycles.cycleColor.value.value;
+    const floatBands = this.getFloatBands();
     const self = this; // Store reference for callbacks
     
     // Define selection highlight styles
@@ -2038,11 +2392,26 @@ private drawTasks(
     
     // --- Draw Task Bars ---
     // First remove any existing bars to redraw them (simpler than updating positions)
-    allTaskGroups.selectAll(".task-bar, .milestone").remove();
+    allTaskGroups.selectAll(".task-bar, .milestone, .baseline-bar, .scenario-marker, .open-end-marker").remove();
+
+    // Thin baseline bars sit in the row padding under the current bars
+    if (this.settings.baseline.showBaseline.value) {
+        const baselineColor = this.settings.baseline.baselineColor.value.value;
+        allTaskGroups.each(function(d: Task) {
+            const extent = self.getBaselineBarExtent(d, xScale, taskHeight);
+            if (!extent) return;
+            d3.select(this).append("rect")
+                .attr("class", "baseline-bar")
+                .attr("x", extent.x).attr("y", extent.y)
+                .attr("width", extent.width).attr("height", extent.height)
+                .style("fill", baselineColor)
+                .style("pointer-events", "none");
+        });
+    }
     
     // Draw bars for normal tasks
     allTaskGroups.filter((d: Task) =>
-        d.type !== 'TT_Mile' && d.type !== 'TT_FinMile' &&
+        d.type !== 'TT_Mile' && d.type !== 'TT_FinMile' && !isSpanTaskType(d.type) &&
         d.startDate instanceof Date && !isNaN(d.startDate.getTime()) &&
         d.finishDate instanceof Date && !isNaN(d.finishDate.getTime()) &&
         d.finishDate >= d.startDate
@@ -2067,19 +2436,36 @@ private drawTasks(
         .attr("rx", Math.min(3, taskHeight * 0.1)).attr("ry", Math.min(3, taskHeight * 0.1))
         .style("fill", (d: Task) => {
             if (d.internalId === this.selectedTaskId) return selectionHighlightColor;
+            const targetFill = this.getDrivenTargetFill(d, criticalColor);
+            if (targetFill) return targetFill;
+            if (d.floatPath !== undefined) return this.getFloatPathColor(d.floatPath, criticalColor);
+            const band = this.getFloatBand(d, floatBands);
+            if (band) return band.color;
             if (d.isCritical) return criticalColor;
             if (d.isNearCritical) return nearCriticalColor;
             return taskColor;
         })
-        .style("stroke", (d: Task) => d.internalId === this.selectedTaskId ? selectionHighlightColor : "#333")
-        .style("stroke-width", (d: Task) => d.internalId === this.selectedTaskId ? selectionStrokeWidth : 0.5);
+        .style("stroke", (d: Task) => d.internalId === this.selectedTaskId ? selectionHighlightColor : (d.drivenTargets?.length ?? 0) > 1 ? SHARED_DRIVER_STROKE : d.inCycle ? cycleColor : "#333")
+        .style("stroke-width", (d: Task) => d.internalId === this.selectedTaskId ? selectionStrokeWidth : (d.drivenTargets?.length ?? 0) > 1 ? 2 : d.inCycle ? 2 : 0.5);
 
-    // --- Draw Milestones ---
-    allTaskGroups.filter((d: Task) =>
-        (d.type === 'TT_Mile' || d.type === 'TT_FinMile') &&
-        ((d.startDate instanceof Date && !isNaN(d.startDate.getTime())) ||
-            (d.finishDate instanceof Date && !isNaN(d.finishDate.getTime())))
-    )
+    // Span tasks: level of effort as a pale dashed bar, WBS summaries as a bracket, hammocks as a capped line
+    allTaskGroups.filter((d: Task) => isSpanTaskType(d.type) && this.getSpanBarOutline(d, xScale, taskHeight) !== null)
+    .append("path")
+        .attr("class", "task-bar span-bar normal")
+        .attr("d", (d: Task) => `M ${this.getSpanBarOutline(d, xScale, taskHeight)!.map(([x, y]) => `${x},${y}`).join(" L ")} Z`)
+        .style("fill", (d: Task) => {
+            if (d.internalId === this.selectedTaskId) return selectionHighlightColor;
+            return d.type === 'TT_WBS' ? SUMMARY_BAR_COLOR : taskColor;
+        })
+        .style("fill-opacity", (d: Task) => d.type === 'TT_LOE' ? 0.4 : 1)
+        .style("stroke", (d: Task) => d.internalId === this.selectedTaskId ? selectionHighlightColor : d.inCycle ? cycleColor : d.type === 'TT_LOE' ? taskColor : "#333")
+        .style("stroke-width", (d: Task) => d.internalId === this.selectedTaskId ? selectionStrokeWidth : d.inCycle ? 2 : d.type === 'TT_LOE' ? 1 : 0.5)
+        .style("stroke-dasharray", (d: Task) => d.type === 'TT_LOE' ? "4,2" : null);
+
+    // --- Draw Milestones --- (start milestones as diamonds, finish milestones as downward triangles)
+    const finishMilestoneColor = this.settings.taskAppearance.finishMilestoneColor.value.value;
+    const milestoneDrawSize = Math.max(4, Math.min(milestoneSizeSetting, taskHeight * 0.9));
+    allTaskGroups.filter((d: Task) => milestoneKind(d.type) !== null && this.getMilestoneDate(d) !== null)
     .append("path")
         .attr("class", (d: Task) => {
             if (d.isCritical) return "milestone critical";
@@ -2087,24 +2473,67 @@ private drawTasks(
             return "milestone normal";
         })
         .attr("transform", (d: Task) => {
-            const milestoneDate = (d.startDate instanceof Date && !isNaN(d.startDate.getTime())) ? d.startDate : d.finishDate;
-            const x = (milestoneDate instanceof Date && !isNaN(milestoneDate.getTime())) ? xScale(milestoneDate) : 0;
+            const x = xScale(this.getMilestoneDate(d)!);
             const y = taskHeight / 2;
             if (isNaN(x)) console.warn(`Invalid X position for milestone ${d.internalId}`);
-            return `translate(${x}, ${y})`;
-        })
-        .attr("d", () => {
-            const size = Math.max(4, Math.min(milestoneSizeSetting, taskHeight * 0.9));
-            return `M 0,-${size / 2} L ${size / 2},0 L 0,${size / 2} L -${size / 2},0 Z`;
+            return `translate(${isNaN(x) ? 0 : x}, ${y})`;
         })
+        .attr("d", (d: Task) => `M ${this.getMilestoneOutline(d, milestoneDrawSize).map(([x, y]) => `${x},${y}`).join(" L ")} Z`)
         .style("fill", (d: Task) => {
             if (d.internalId === this.selectedTaskId) return selectionHighlightColor;
+            const targetFill = this.getDrivenTargetFill(d, criticalColor);
+            if (targetFill) return targetFill;
+            if (d.floatPath !== undefined) return this.getFloatPathColor(d.floatPath, criticalColor);
+            const band = this.getFloatBand(d, floatBands);
+            if (band) return band.color;
             if (d.isCritical) return criticalColor;
             if (d.isNearCritical) return nearCriticalColor;
-            return milestoneColor;
+            return d.type === 'TT_FinMile' ? finishMilestoneColor : milestoneColor;
         })
-        .style("stroke", (d: Task) => d.internalId === this.selectedTaskId ? selectionHighlightColor : "#000")
-        .style("stroke-width", (d: Task) => d.internalId === this.selectedTaskId ? selectionStrokeWidth : 1);
+        .style("stroke", (d: Task) => d.internalId === this.selectedTaskId ? selectionHighlightColor : (d.drivenTargets?.length ?? 0) > 1 ? SHARED_DRIVER_STROKE : d.inCycle ? cycleColor : "#000")
+        .style("stroke-width", (d: Task) => d.internalId === this.selectedTaskId ? selectionStrokeWidth : (d.drivenTargets?.length ?? 0) > 1 ? 2.5 : d.inCycle ? 2 : 1);
+
+    // Scenario finishes: a dashed lead from the current finish to a tick at the what-if finish
+    if (this.settings.scenario.showScenario.value) {
+        const scenarioColor = this.settings.scenario.scenarioColor.value.value;
+        allTaskGroups.each(function(d: Task) {
+            const marker = self.getScenarioMarker(d, xScale);
+            if (!marker) return;
+            const group = d3.select(this).append("g")
+                .attr("class", "scenario-marker")
+                .style("pointer-events", "none");
+            group.append("line")
+                .attr("x1", marker.fromX).attr("x2", marker.toX)
+                .attr("y1", taskHeight / 2).attr("y2", taskHeight / 2)
+                .style("stroke", scenarioColor)
+                .style("stroke-width", 1.5)
+                .style("stroke-dasharray", "3,2");
+            group.append("line")
+                .attr("x1", marker.toX).attr("x2", marker.toX)
+                .attr("y1", 0).attr("y2", taskHeight)
+                .style("stroke", scenarioColor)
+                .style("stroke-width", 2);
+        });
+    }
+
+    // Open ends: filled dots where a task has no links, hollow where its links leave the end free
+    if (this.settings.openEnds.showMarkers.value) {
+        const markerColor = this.settings.openEnds.markerColor.value.value;
+        const radius = Math.max(2.5, taskHeight * 0.18);
+        allTaskGroups.each(function(d: Task) {
+            self.getOpenEndMarkers(d, xScale).forEach(marker => {
+                d3.select(this).append("circle")
+                    .attr("class", "open-end-marker")
+                    .attr("cx", marker.x)
+                    .attr("cy", taskHeight / 2)
+                    .attr("r", radius)
+                    .style("fill", marker.end === 'missing' ? markerColor : "white")
+                    .style("stroke", markerColor)
+                    .style("stroke-width", 1.5)
+                    .style("pointer-events", "none");
+            });
+        });
+    }
 
     // --- Update Task Labels ---
     // First remove existing labels to avoid updating complex wrapped text
@@ -2167,7 +2596,12 @@ private drawTasks(
         });
 
     // Add click handler to task labels
+    taskLabels.on("contextmenu", (event: MouseEvent, d: Task) => this.openScenarioEditor(d, event));
     taskLabels.on("click", (event: MouseEvent, d: Task) => {
+        if (event.ctrlKey || event.metaKey) {
+            this.toggleTraceTargetTask(d.internalId);
+            return;
+        }
         if (this.selectedTaskId === d.internalId) {
             this.selectTask(null, null);
         } else {
@@ -2202,8 +2636,8 @@ private drawTasks(
                 if (!(dateToUse instanceof Date && !isNaN(dateToUse.getTime()))) return null;
 
                 if (d.type === 'TT_Mile' || d.type === 'TT_FinMile') {
-                    const milestoneMarkerDate = (d.startDate instanceof Date && !isNaN(d.startDate.getTime())) ? d.startDate : d.finishDate;
-                    const milestoneX = (milestoneMarkerDate instanceof Date && !isNaN(milestoneMarkerDate.getTime())) ? xScale(milestoneMarkerDate) : NaN;
+                    const milestoneMarkerDate = self.getMilestoneDate(d);
+                    const milestoneX = milestoneMarkerDate ? xScale(milestoneMarkerDate) : NaN;
                     if (!isNaN(milestoneX)) {
                         const size = Math.max(4, Math.min(milestoneSizeSetting, taskHeight * 0.9));
                         xPos = milestoneX + size / 2;
@@ -2214,7 +2648,7 @@ private drawTasks(
                 }
                 return (xPos === null || isNaN(xPos)) ? null : (xPos + self.dateLabelOffset);
             })
-            .text((d: Task) => self.formatDate(d.finishDate))
+            .text((d: Task) => self.formatDate(milestoneKind(d.type) ? self.getMilestoneDate(d) : d.finishDate))
             .filter(function() { return d3.select(this).attr("x") !== null; });
 
         // Add background rect using BBox
@@ -2247,7 +2681,7 @@ private drawTasks(
         
         const durationFontSize = Math.max(7, generalFontSize * 0.8);
         allTaskGroups.filter((d: Task) =>
-            d.type !== 'TT_Mile' && d.type !== 'TT_FinMile' &&
+            d.type !== 'TT_Mile' && d.type !== 'TT_FinMile' && !isSpanTaskType(d.type) &&
             d.startDate instanceof Date && !isNaN(d.startDate.getTime()) &&
             d.finishDate instanceof Date && !isNaN(d.finishDate.getTime()) &&
             d.finishDate >= d.startDate &&
@@ -2319,12 +2753,50 @@ private drawTasks(
                         .text(function() {
                             if (d.internalId === self.selectedTaskId) return "Selected";
                             if (d.isCritical) return "Critical";
-                            if (d.isNearCritical) return `Near-Critical (Float: ${d.totalFloat})`;
+                            if (d.isNearCritical) return `Near-Critical (Float: ${self.getNearCriticalFloat(d)})`;
                             return "Non-Critical";
                         });
                         
                     cpmInfo.append("div").append("strong").text("Rem. Duration: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(`${d.duration} (work days)`);
                     cpmInfo.append("div").append("strong").text("Total Float: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(isFinite(d.totalFloat) ? d.totalFloat : "N/A");
+                    cpmInfo.append("div").append("strong").text("Free Float: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(d.freeFloat !== undefined && isFinite(d.freeFloat) ? d.freeFloat : "N/A");
+                    const progress = getProgressStatus(self.getProgressTimes(d));
+                    if (progress !== 'notStarted') {
+                        cpmInfo.append("div").append("strong").text("Progress: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(self.formatProgress(d, progress === 'completed'));
+                    }
+                    if (d.baselineStart || d.baselineFinish) {
+                        const variance = self.getBaselineVariance(d);
+                        cpmInfo.append("div").append("strong").text("Start Variance: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(self.formatVariance(variance.start));
+                        cpmInfo.append("div").append("strong").text("Finish Variance: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(self.formatVariance(variance.finish));
+                    }
+                    if (d.scenarioFinish) {
+                        cpmInfo.append("div").append("strong").text("Scenario Finish: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(self.formatScenarioFinish(d));
+                    }
+                    if (d.openStart || d.openFinish) {
+                        cpmInfo.append("div").append("strong").text("Open Ends: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(self.formatOpenEnds(d));
+                    }
+                    if (d.criticalityIndex !== undefined) {
+                        cpmInfo.append("div").append("strong").text("Criticality Index: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(`${Math.round(d.criticalityIndex * 100)}%`);
+                    }
+                    if (d.floatPath !== undefined) {
+                        cpmInfo.append("div").append("strong").text("Float Path: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(d.floatPath);
+                    }
+                    const band = self.getFloatBand(d, floatBands);
+                    if (band) {
+                        cpmInfo.append("div").append("strong").text("Float Band: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(band.label);
+                    }
+                    if (d.drivenTargets) {
+                        cpmInfo.append("div").append("strong").text("Drives: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(self.formatDrivenTargets(d));
+                    }
+                    if (d.constraintType) {
+                        cpmInfo.append("div").append("strong").text("Constraint: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(`${d.constraintType} ${self.formatDate(d.constraintDate)}`.trim());
+                    }
+                    if (d.requiredFinish) {
+                        cpmInfo.append("div").append("strong").text("Required Finish: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(self.formatDate(d.requiredFinish));
+                    }
+                    if (d.violatedConstraint) {
+                        cpmInfo.append("div").append("strong").style("color", "#D32F2F").text("Violates: ").select<HTMLElement>(function() { return this.parentNode as HTMLElement; }).append("span").text(d.violatedConstraint);
+                    }
                     
                     // Custom Tooltip Fields
                     if (d.tooltipData && d.tooltipData.size > 0) {
@@ -2392,6 +2864,11 @@ private drawTasks(
                 }
             })
             .on("click", (event: MouseEvent, d: Task) => {
+                // Ctrl-click adds or removes a trace target
+                if (event.ctrlKey || event.metaKey) {
+                    self.toggleTraceTargetTask(d.internalId);
+                    return;
+                }
                 // Toggle task selection
                 if (self.selectedTaskId === d.internalId) {
                     self.selectTask(null, null);
@@ -2404,13 +2881,37 @@ private drawTasks(
                 }
                 
                 event.stopPropagation();
-            });
+            })
+            .on("contextmenu", (event: MouseEvent, d: Task) => self.openScenarioEditor(d, event));
     };
 
     // Apply interactivity to both task bars and milestones
     setupInteractivity(allTaskGroups.selectAll(".task-bar, .milestone"));
 }
 
+/** The visible task under the pointer on the canvas, matched against its bar */
+private findCanvasTaskAt(event: MouseEvent): Task | null {
+    if (!this.xScale || !this.yScale || !this.canvasElement) return null;
+    const rect = this.canvasElement.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const taskHeight = this.settings.taskAppearance.taskHeight.value;
+
+    for (const task of this.allTasksToShow.slice(this.viewportStartIndex, this.viewportEndIndex + 1)) {
+        const domainKey = task.yOrder?.toString() ?? '';
+        const yPosition = this.yScale(domainKey);
+        if (yPosition === undefined) continue;
+
+        // Check if the pointer is within task bounds
+        if (y >= yPosition && y <= yPosition + taskHeight && task.startDate && task.finishDate) {
+            const taskX = this.xScale(task.startDate);
+            const taskWidth = this.xScale(task.finishDate) - taskX;
+            if (x >= taskX && x <= taskX + taskWidth) return task;
+        }
+    }
+    return null;
+}
+
 private drawTasksCanvas(
         tasks: Task[],
         xScale: ScaleTime<number, number>,
@@ -2442,6 +2943,16 @@ private drawTasksCanvas(
         const milestoneSizeSetting = this.settings.taskAppearance.milestoneSize.value;
         const currentLeftMargin = this.settings.layoutSettings.leftMargin.value;
         const nearCriticalColor = "#F7941F";
+        const showBaseline = this.settings.baseline.showBaseline.value;
+        const cycleColor = this.settings.cycles.cycleColor.value.value;
+        const floatBands = this.getFloatBands();
+        const baselineColor = this.settings.baseline.baselineColor.value.value;
+        const showScenario = this.settings.scenario.showScenario.value;
+        const scenarioColor = this.settings.scenario.scenarioColor.value.value;
+        const showOpenEnds = this.settings.openEnds.showMarkers.value;
+        const openEndColor = this.settings.openEnds.markerColor.value.value;
+        const openEndRadius = Math.max(2.5, taskHeight * 0.18);
+        const finishMilestoneColor = this.settings.taskAppearance.finishMilestoneColor.value.value;
         
         // Set font for measurements
         ctx.font = `${taskNameFontSize}pt Segoe UI, sans-serif`;
@@ -2453,36 +2964,67 @@ private drawTasksCanvas(
             if (yPosition === undefined || isNaN(yPosition)) return;
             
             // Determine task color
-            let fillColor = taskColor;
+            const kind = milestoneKind(task.type);
+            let fillColor = kind === 'finish' ? finishMilestoneColor : kind === 'start' ? milestoneColor : taskColor;
+            const isSharedDriver = (task.drivenTargets?.length ?? 0) > 1;
+            const band = this.getFloatBand(task, floatBands);
             if (task.internalId === this.selectedTaskId) {
                 fillColor = "#8A2BE2"; // Selection purple
+            } else if (task.drivenTargets) {
+                fillColor = this.getDrivenTargetFill(task, criticalColor)!;
+            } else if (task.floatPath !== undefined) {
+                fillColor = this.getFloatPathColor(task.floatPath, criticalColor);
+            } else if (band) {
+                fillColor = band.color;
             } else if (task.isCritical) {
                 fillColor = criticalColor;
             } else if (task.isNearCritical) {
                 fillColor = nearCriticalColor;
             }
+
+            if (showBaseline) {
+                const extent = this.getBaselineBarExtent(task, xScale, taskHeight);
+                if (extent) {
+                    ctx.fillStyle = baselineColor;
+                    ctx.fillRect(extent.x, yPosition + extent.y, extent.width, extent.height);
+                }
+            }
             
             // Draw task or milestone
-            if (task.type === 'TT_Mile' || task.type === 'TT_FinMile') {
-                // Draw milestone diamond
-                const milestoneDate = task.startDate || task.finishDate;
+            if (kind) {
+                // Draw milestone marker in its type's shape
+                const milestoneDate = this.getMilestoneDate(task);
                 if (milestoneDate) {
                     const x = xScale(milestoneDate);
                     const y = yPosition + taskHeight / 2;
                     const size = Math.max(4, Math.min(milestoneSizeSetting, taskHeight * 0.9));
                     
                     ctx.beginPath();
-                    ctx.moveTo(x, y - size / 2);
-                    ctx.lineTo(x + size / 2, y);
-                    ctx.lineTo(x, y + size / 2);
-                    ctx.lineTo(x - size / 2, y);
+                    this.getMilestoneOutline(task, size).forEach(([dx, dy], i) => i === 0 ? ctx.moveTo(x + dx, y + dy) : ctx.lineTo(x + dx, y + dy));
                     ctx.closePath();
                     
                     ctx.fillStyle = fillColor;
                     ctx.fill();
-                    ctx.strokeStyle = task.internalId === this.selectedTaskId ? fillColor : "#000";
-                    ctx.lineWidth = task.internalId === this.selectedTaskId ? 2.5 : 1;
+                    ctx.strokeStyle = task.internalId === this.selectedTaskId ? fillColor : isSharedDriver ? SHARED_DRIVER_STROKE : task.inCycle ? cycleColor : "#000";
+                    ctx.lineWidth = task.internalId === this.selectedTaskId || isSharedDriver ? 2.5 : task.inCycle ? 2 : 1;
+                    ctx.stroke();
+                }
+            } else if (isSpanTaskType(task.type)) {
+                const outline = this.getSpanBarOutline(task, xScale, taskHeight);
+                if (outline) {
+                    const isSelected = task.internalId === this.selectedTaskId;
+                    ctx.beginPath();
+                    outline.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, yPosition + y) : ctx.lineTo(x, yPosition + y));
+                    ctx.closePath();
+                    ctx.globalAlpha = task.type === 'TT_LOE' ? 0.4 : 1;
+                    ctx.fillStyle = isSelected ? fillColor : task.type === 'TT_WBS' ? SUMMARY_BAR_COLOR : taskColor;
+                    ctx.fill();
+                    ctx.globalAlpha = 1;
+                    ctx.strokeStyle = isSelected ? fillColor : task.inCycle ? cycleColor : task.type === 'TT_LOE' ? taskColor : "#333";
+                    ctx.lineWidth = isSelected ? 2.5 : task.inCycle ? 2 : task.type === 'TT_LOE' ? 1 : 0.5;
+                    if (task.type === 'TT_LOE') ctx.setLineDash([4, 2]);
                     ctx.stroke();
+                    ctx.setLineDash([]);
                 }
             } else {
                 // Draw regular task bar
@@ -2512,6 +3054,14 @@ private drawTasksCanvas(
                         ctx.strokeStyle = fillColor;
                         ctx.lineWidth = 2.5;
                         ctx.stroke();
+                    } else if (isSharedDriver) {
+                        ctx.strokeStyle = SHARED_DRIVER_STROKE;
+                        ctx.lineWidth = 2;
+                        ctx.stroke();
+                    } else if (task.inCycle) {
+                        ctx.strokeStyle = cycleColor;
+                        ctx.lineWidth = 2;
+                        ctx.stroke();
                     }
                     
                     // Draw duration text if enabled
@@ -2532,6 +3082,36 @@ private drawTasksCanvas(
                     }
                 }
             }
+
+            const scenarioMarker = showScenario ? this.getScenarioMarker(task, xScale) : null;
+            if (scenarioMarker) {
+                const midY = yPosition + taskHeight / 2;
+                ctx.strokeStyle = scenarioColor;
+                ctx.lineWidth = 1.5;
+                ctx.setLineDash([3, 2]);
+                ctx.beginPath();
+                ctx.moveTo(scenarioMarker.fromX, midY);
+                ctx.lineTo(scenarioMarker.toX, midY);
+                ctx.stroke();
+                ctx.setLineDash([]);
+                ctx.lineWidth = 2;
+                ctx.beginPath();
+                ctx.moveTo(scenarioMarker.toX, yPosition);
+                ctx.lineTo(scenarioMarker.toX, yPosition + taskHeight);
+                ctx.stroke();
+            }
+
+            if (showOpenEnds) {
+                this.getOpenEndMarkers(task, xScale).forEach(marker => {
+                    ctx.beginPath();
+                    ctx.arc(marker.x, yPosition + taskHeight / 2, openEndRadius, 0, 2 * Math.PI);
+                    ctx.fillStyle = marker.end === 'missing' ? openEndColor : "white";
+                    ctx.fill();
+                    ctx.strokeStyle = openEndColor;
+                    ctx.lineWidth = 1.5;
+                    ctx.stroke();
+                });
+            }
             
             // Draw task name
             const labelX = -currentLeftMargin + this.labelPaddingLeft;
@@ -2559,9 +3139,10 @@ private drawTasksCanvas(
             
             // Draw finish date if enabled
             if (showFinishDates && task.finishDate) {
-                const dateText = this.formatDate(task.finishDate);
-                const dateX = task.type === 'TT_Mile' || task.type === 'TT_FinMile'
-                    ? xScale(task.startDate || task.finishDate) + milestoneSizeSetting / 2 + this.dateLabelOffset
+                const milestoneDate = kind ? this.getMilestoneDate(task) : null;
+                const dateText = this.formatDate(milestoneDate ?? task.finishDate);
+                const dateX = milestoneDate
+                    ? xScale(milestoneDate) + milestoneSizeSetting / 2 + this.dateLabelOffset
                     : xScale(task.finishDate) + this.dateLabelOffset;
                     
                 ctx.font = `${Math.max(8, generalFontSize * 0.85)}pt Segoe UI, sans-serif`;
@@ -2611,6 +3192,7 @@ private drawArrowsCanvas(
         
         const connectionEndPadding = 0;
         const elbowOffset = this.settings.connectorLines.elbowOffset.value;
+        const cycleColor = this.settings.cycles.cycleColor.value.value;
         
         // Build position map
         const taskPositions = new Map<string, number>();
@@ -2646,20 +3228,21 @@ private drawArrowsCanvas(
             let baseStartDate: Date | null | undefined = null;
             let baseEndDate: Date | null | undefined = null;
             
+            // A milestone has one date, whichever end the link type names
             switch (relType) {
                 case 'FS': case 'FF': 
-                    baseStartDate = predIsMilestone ? (pred.startDate ?? pred.finishDate) : pred.finishDate; 
+                    baseStartDate = predIsMilestone ? this.getMilestoneDate(pred) : pred.finishDate; 
                     break;
                 case 'SS': case 'SF': 
-                    baseStartDate = pred.startDate; 
+                    baseStartDate = predIsMilestone ? this.getMilestoneDate(pred) : pred.startDate; 
                     break;
             }
             switch (relType) {
                 case 'FS': case 'SS': 
-                    baseEndDate = succ.startDate; 
+                    baseEndDate = succIsMilestone ? this.getMilestoneDate(succ) : succ.startDate; 
                     break;
                 case 'FF': case 'SF': 
-                    baseEndDate = succIsMilestone ? (succ.startDate ?? succ.finishDate) : succ.finishDate; 
+                    baseEndDate = succIsMilestone ? this.getMilestoneDate(succ) : succ.finishDate; 
                     break;
             }
             
@@ -2684,8 +3267,9 @@ private drawArrowsCanvas(
             if (succIsMilestone && (relType === 'FF' || relType === 'SF')) effectiveEndX = endX + endGap - connectionEndPadding;
             
             // Set line style
-            ctx.strokeStyle = rel.isCritical ? criticalColor : connectorColor;
-            ctx.lineWidth = rel.isCritical ? criticalConnectorWidth : connectorWidth;
+            ctx.strokeStyle = rel.inCycle ? cycleColor : rel.isCritical ? criticalColor : connectorColor;
+            ctx.lineWidth = rel.isCritical || rel.inCycle ? criticalConnectorWidth : connectorWidth;
+            ctx.setLineDash(this.getConnectorDashPattern(rel));
             
             // Draw path
             ctx.beginPath();
@@ -2732,6 +3316,20 @@ private drawArrowsCanvas(
             
             ctx.stroke();
         });
+        ctx.setLineDash([]);
+    }
+
+    /** Dash pattern for a connector: driving and non-driving links are styled separately */
+    private getConnectorDashPattern(rel: Relationship): number[] {
+        const connectorSettings = this.settings.connectorLines;
+        const style = rel.isDriving
+            ? connectorSettings.drivingLineStyle.value.value
+            : connectorSettings.nonDrivingLineStyle.value.value;
+        switch (style) {
+            case "dashed": return [4, 3];
+            case "dotted": return [1, 2];
+            default: return [];
+        }
     }
 
 /** 
@@ -2806,6 +3404,7 @@ private drawArrowsCanvas(
         // Replace arrowHeadVisibleLength calculation with fixed value
         const connectionEndPadding = 0; // Fixed padding instead of dynamic arrow size
         const elbowOffset = this.settings.connectorLines.elbowOffset.value;
+        const cycleColor = this.settings.cycles.cycleColor.value.value;
 
         const taskPositions = new Map<string, number>();
         tasks.forEach((task: Task) => {
@@ -2820,10 +3419,11 @@ private drawArrowsCanvas(
             .data(visibleRelationships, (d: Relationship) => `${d.predecessorId}-${d.successorId}`)
             .enter()
             .append("path")
-            .attr("class", (d: Relationship) => `relationship-arrow ${d.isCritical ? "critical" : "normal"}`)
+            .attr("class", (d: Relationship) => `relationship-arrow ${d.isCritical ? "critical" : "normal"} ${d.isDriving ? "driving" : "non-driving"}`)
             .attr("fill", "none")
-            .attr("stroke", (d: Relationship) => d.isCritical ? criticalColor : connectorColor)
-            .attr("stroke-width", (d: Relationship) => d.isCritical ? criticalConnectorWidth : connectorWidth)
+            .attr("stroke", (d: Relationship) => d.inCycle ? cycleColor : d.isCritical ? criticalColor : connectorColor)
+            .attr("stroke-width", (d: Relationship) => d.isCritical || d.inCycle ? criticalConnectorWidth : connectorWidth)
+            .attr("stroke-dasharray", (d: Relationship) => this.getConnectorDashPattern(d).join(",") || "none")
             // marker-end attribute removed
             .attr("d", (rel: Relationship): string | null => {
                 const pred = this.taskIdToTask.get(rel.predecessorId);
@@ -2847,12 +3447,12 @@ private drawArrowsCanvas(
                 let baseEndDate: Date | null | undefined = null;
 
                 switch (relType) {
-                    case 'FS': case 'FF': baseStartDate = predIsMilestone ? (pred.startDate ?? pred.finishDate) : pred.finishDate; break;
-                    case 'SS': case 'SF': baseStartDate = pred.startDate; break;
+                    case 'FS': case 'FF': baseStartDate = predIsMilestone ? this.getMilestoneDate(pred) : pred.finishDate; break;
+                    case 'SS': case 'SF': baseStartDate = predIsMilestone ? this.getMilestoneDate(pred) : pred.startDate; break;
                 }
                 switch (relType) {
-                    case 'FS': case 'SS': baseEndDate = succ.startDate; break;
-                    case 'FF': case 'SF': baseEndDate = succIsMilestone ? (succ.startDate ?? succ.finishDate) : succ.finishDate; break;
+                    case 'FS': case 'SS': baseEndDate = succIsMilestone ? this.getMilestoneDate(succ) : succ.startDate; break;
+                    case 'FF': case 'SF': baseEndDate = succIsMilestone ? this.getMilestoneDate(succ) : succ.finishDate; break;
                 }
 
                 let startX: number | null = null;
@@ -2968,8 +3568,33 @@ private drawArrowsCanvas(
         const latestFinishDate = new Date(latestFinishTimestamp);
         const endX = xScale(latestFinishDate);
     
-        mainGridLayer.select(".project-end-line").remove();
-        headerLayer.select(".project-end-label").remove();
+        mainGridLayer.selectAll(".project-end-line, .required-finish-line").remove();
+        headerLayer.selectAll(".project-end-label, .required-finish-label").remove();
+
+        // Required finish: its own solid line, labelled on the side away from the forecast finish
+        const requiredDate = this.getRequiredFinishDate();
+        const requiredX = requiredDate ? xScale(requiredDate) : NaN;
+        const requiredFirst = isFinite(requiredX) && requiredX < endX;
+        if (requiredDate && isFinite(requiredX)) {
+            const requiredColor = settings.requiredFinishColor.value.value;
+            mainGridLayer.append("line")
+                .attr("class", "required-finish-line")
+                .attr("x1", requiredX).attr("y1", 0)
+                .attr("x2", requiredX).attr("y2", chartHeight)
+                .attr("stroke", requiredColor)
+                .attr("stroke-width", lineWidth)
+                .style("pointer-events", "none");
+            headerLayer.append("text")
+                .attr("class", "required-finish-label")
+                .attr("x", requiredFirst ? requiredX - 5 : requiredX + 5)
+                .attr("y", this.headerHeight - 45)
+                .attr("text-anchor", requiredFirst ? "end" : "start")
+                .style("fill", requiredColor)
+                .style("font-size", generalFontSize + "pt")
+                .style("font-weight", "bold")
+                .style("pointer-events", "none")
+                .text(`Required: ${this.formatDate(requiredDate)}`);
+        }
     
         if (isNaN(endX) || !isFinite(endX)) { console.warn("Calculated project end line position is invalid:", endX); return; }
     
@@ -2986,11 +3611,12 @@ private drawArrowsCanvas(
     
         // --- Draw the LABEL in the HEADER layer ---
         const endDateText = `Finish: ${this.formatDate(latestFinishDate)}`;
+        const finishAfterRequired = !requiredDate || !isFinite(requiredX) || requiredFirst;
         headerLayer.append("text")
               .attr("class", "project-end-label")
-              .attr("x", endX + 5)
+              .attr("x", finishAfterRequired ? endX + 5 : endX - 5)
               .attr("y", this.headerHeight - 45) // Adjust Y pos within header
-              .attr("text-anchor", "start")
+              .attr("text-anchor", finishAfterRequired ? "start" : "end")
               .style("fill", lineColor)
               .style("font-size", generalFontSize + "pt")
               .style("font-weight", "bold")
@@ -2998,408 +3624,1275 @@ private drawArrowsCanvas(
               .text(endDateText);
     }
 
-    private calculateCriticalPathDuration(tasks: Task[]): number {
-        const validEarlyFinishes = tasks
-            .map(task => task.earlyFinish)
-            .filter(ef => ef !== undefined && !isNaN(ef) && isFinite(ef)) as number[]; // Added type assertion
-        return validEarlyFinishes.length > 0 ? Math.max(0, ...validEarlyFinishes) : 0;
-    }
+    private drawDataDateLine(
+        xScale: ScaleTime<number, number>,
+        chartHeight: number,
+        mainGridLayer: Selection<SVGGElement, unknown, null, undefined>,
+        headerLayer: Selection<SVGGElement, unknown, null, undefined>
+    ): void {
+        if (!mainGridLayer?.node() || !headerLayer?.node() || !xScale) return;
+        const dataDay = parseDayNumber(this.settings.progress.dataDate.value);
+        if (dataDay === null) return;
 
+        const lineColor = this.settings.progress.dataDateLineColor.value.value;
+        const generalFontSize = this.settings.textAndLabels.fontSize.value;
+        const dataDate = fromLocalDayNumber(dataDay);
+        const x = xScale(dataDate);
 
-/**
- * Detects cycles in the task dependency graph and returns affected tasks
- * @returns Object containing whether cycles exist and which tasks are involved
- */
-private detectAndReportCycles(): {hasCycles: boolean, cyclicTasks: Set<string>, cycleDetails: string[]} {
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-    const cyclicTasks = new Set<string>();
-    const cycleDetails: string[] = [];
-    
-    // Helper function to detect cycles using Depth-First Search
-    const detectCycleDFS = (taskId: string, path: string[] = []): boolean => {
-        visited.add(taskId);
-        recursionStack.add(taskId);
-        path.push(taskId);
-        
-        const task = this.taskIdToTask.get(taskId);
-        if (!task) {
-            recursionStack.delete(taskId);
-            path.pop();
-            return false;
-        }
-        
-        // Check all successors of the current task
-        for (const successor of task.successors || []) {
-            const succId = successor.internalId;
-            
-            if (!visited.has(succId)) {
-                if (detectCycleDFS(succId, [...path])) {
-                    cyclicTasks.add(taskId);
-                    return true;
-                }
-            } else if (recursionStack.has(succId)) {
-                // Found a cycle
-                cyclicTasks.add(taskId);
-                cyclicTasks.add(succId);
-                
-                // Create cycle description
-                const cycleStartIndex = path.indexOf(succId);
-                const cyclePath = [...path.slice(cycleStartIndex), succId];
-                const cycleDescription = cyclePath
-                    .map(id => {
-                        const t = this.taskIdToTask.get(id);
-                        return t ? `${t.name} (${id})` : id;
-                    })
-                    .join(' → ');
-                    
-                cycleDetails.push(`Cycle found: ${cycleDescription}`);
-                return true;
-            }
-        }
-        
-        recursionStack.delete(taskId);
-        path.pop();
-        return false;
-    };
-    
-    // Check all tasks for cycles
-    for (const task of this.allTasksData) {
-        if (!visited.has(task.internalId)) {
-            detectCycleDFS(task.internalId);
-        }
-    }
-    
-    return {
-        hasCycles: cyclicTasks.size > 0,
-        cyclicTasks,
-        cycleDetails
-    };
-}
+        mainGridLayer.select(".data-date-line").remove();
+        headerLayer.select(".data-date-label").remove();
+        if (isNaN(x) || !isFinite(x)) return;
 
-private ensureCpmWorker(): void {
-    if (!this.cpmWorker) {
-        try {
-            this.cpmWorker = new Worker("cpmWorker.js");
-        } catch (e) {
-            console.error("Failed to create CPM worker:", e);
-            this.cpmWorker = null;
-        }
+        mainGridLayer.append("line")
+            .attr("class", "data-date-line")
+            .attr("x1", x).attr("y1", 0)
+            .attr("x2", x).attr("y2", chartHeight)
+            .attr("stroke", lineColor)
+            .attr("stroke-width", 1.5)
+            .style("pointer-events", "none");
+
+        headerLayer.append("text")
+            .attr("class", "data-date-label")
+            .attr("x", x - 5)
+            .attr("y", this.headerHeight - 45)
+            .attr("text-anchor", "end")
+            .style("fill", lineColor)
+            .style("font-size", generalFontSize + "pt")
+            .style("font-weight", "bold")
+            .style("pointer-events", "none")
+            .text(`Data Date: ${this.formatDate(dataDate)}`);
     }
-}
 
-private runScheduleAnalysis(tasks: Task[], relationships: Relationship[], floatTol: number, floatThreshold: number): void {
-    if (tasks.length === 0) return;
-    const dayMs = 1000 * 60 * 60 * 24;
-    const base = tasks.reduce((m, t) => Math.min(m, t.startDate ? t.startDate.getTime() : m), Infinity);
-    const taskMap = new Map<string, Task>();
-    tasks.forEach(t => {
-        taskMap.set(t.internalId, t);
-        t.earlyStart = ((t.startDate!.getTime() - base) / dayMs);
-        t.earlyFinish = ((t.finishDate!.getTime() - base) / dayMs);
-        t.duration = t.earlyFinish - t.earlyStart;
-        t.lateStart = t.earlyStart;
-        t.lateFinish = t.earlyFinish;
-        t.totalFloat = 0;
-        t.isCritical = false;
-        t.isCriticalByFloat = false;
-        t.isCriticalByRel = false;
-        t.isNearCritical = false;
-        (t as any).earliestReqStart = t.earlyStart;
-        (t as any).latestReqFinish = t.earlyFinish;
-        (t as any).violatesConstraints = false;
-    });
+    /** The one date a milestone is plotted on: its start for start milestones, its finish for finish milestones */
+    private getMilestoneDate(task: Task): Date | null {
+        const valid = (date: Date | null | undefined) => date instanceof Date && !isNaN(date.getTime()) ? date : null;
+        return milestoneKind(task.type) === 'finish'
+            ? valid(task.finishDate) ?? valid(task.startDate)
+            : valid(task.startDate) ?? valid(task.finishDate);
+    }
 
-    const successors = new Map<string, string[]>();
-    relationships.forEach(r => {
-        if (!successors.has(r.predecessorId)) successors.set(r.predecessorId, []);
-        successors.get(r.predecessorId)!.push(r.successorId);
-    });
+    /** Milestone marker points around its centre: a diamond for start milestones, a downward triangle for finish milestones */
+    private getMilestoneOutline(task: Task, size: number): [number, number][] {
+        const r = size / 2;
+        return milestoneKind(task.type) === 'finish'
+            ? [[-r, -r], [r, -r], [0, r]]
+            : [[0, -r], [r, 0], [0, r], [-r, 0]];
+    }
 
-    const inDeg = new Map<string, number>();
-    tasks.forEach(t => inDeg.set(t.internalId, t.predecessorIds.length));
-    const queue: string[] = [];
-    inDeg.forEach((d, id) => { if (d === 0) queue.push(id); });
-    const topo: string[] = [];
-    while (queue.length) {
-        const id = queue.shift()!;
-        topo.push(id);
-        const succs = successors.get(id) || [];
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const pred = taskMap.get(id)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let req = (succ as any).earliestReqStart;
-            switch (relType) {
-                case 'FS': req = Math.max(req, pred.earlyFinish + lag); break;
-                case 'SS': req = Math.max(req, pred.earlyStart + lag); break;
-                case 'FF': req = Math.max(req, pred.earlyFinish - succ.duration + lag); break;
-                case 'SF': req = Math.max(req, pred.earlyStart - succ.duration + lag); break;
-                default: req = Math.max(req, pred.earlyFinish + lag); break;
-            }
-            (succ as any).earliestReqStart = req;
-            const nd = inDeg.get(succId)! - 1;
-            inDeg.set(succId, nd);
-            if (nd === 0) queue.push(succId);
+    /**
+     * Row-relative outline of a level-of-effort, WBS summary or hammock bar,
+     * or null when its dates cannot be plotted. Shared by the SVG and canvas renderers.
+     */
+    private getSpanBarOutline(task: Task, xScale: ScaleTime<number, number>, taskHeight: number): [number, number][] | null {
+        if (!(task.startDate instanceof Date) || !(task.finishDate instanceof Date)) return null;
+        const x1 = xScale(task.startDate);
+        const x2 = Math.max(x1 + this.minTaskWidthPixels, xScale(task.finishDate));
+        if (!isFinite(x1) || !isFinite(x2)) return null;
+        const h = taskHeight;
+        if (task.type === 'TT_WBS') {
+            // Summary bar with downward points at both ends
+            const w = Math.min(h * 0.3, (x2 - x1) / 2);
+            return [[x1, h * 0.2], [x2, h * 0.2], [x2, h * 0.9], [x2 - w, h * 0.55], [x1 + w, h * 0.55], [x1, h * 0.9]];
+        }
+        if (task.type === 'TT_Hammock') {
+            // Thin line between full-height end caps
+            const c = Math.min(2, (x2 - x1) / 4);
+            return [[x1, 0], [x1 + c, 0], [x1 + c, h * 0.4], [x2 - c, h * 0.4], [x2 - c, 0], [x2, 0],
+                [x2, h], [x2 - c, h], [x2 - c, h * 0.6], [x1 + c, h * 0.6], [x1 + c, h], [x1, h]];
         }
+        return [[x1, h * 0.2], [x2, h * 0.2], [x2, h * 0.8], [x1, h * 0.8]];
     }
 
-    for (let i = topo.length - 1; i >= 0; i--) {
-        const id = topo[i];
-        const task = taskMap.get(id)!;
-        const succs = successors.get(id) || [];
-        if (succs.length === 0) continue;
-        let minFinish = Infinity;
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let reqFinish = Infinity;
-            switch (relType) {
-                case 'FS': reqFinish = succ.earlyStart - lag; break;
-                case 'SS': reqFinish = succ.earlyStart - lag + task.duration; break;
-                case 'FF': reqFinish = succ.earlyFinish - lag; break;
-                case 'SF': reqFinish = succ.earlyFinish - lag - succ.duration + task.duration; break;
-                default: reqFinish = succ.earlyStart - lag; break;
-            }
-            if (reqFinish < minFinish) minFinish = reqFinish;
+    /** Row-relative position of a task's baseline bar, or null when it has no baseline dates */
+    private getBaselineBarExtent(
+        task: Task,
+        xScale: ScaleTime<number, number>,
+        taskHeight: number
+    ): { x: number; y: number; width: number; height: number } | null {
+        const start = task.baselineStart ?? task.baselineFinish;
+        const finish = task.baselineFinish ?? task.baselineStart;
+        if (!(start instanceof Date) || !(finish instanceof Date)) return null;
+        const x1 = xScale(start);
+        const x2 = xScale(finish);
+        if (!isFinite(x1) || !isFinite(x2)) return null;
+        const height = Math.max(2, Math.round(taskHeight * 0.2));
+        const width = Math.abs(x2 - x1);
+        // Milestone baselines are drawn as a short tick centred on the date
+        return width < 2
+            ? { x: Math.min(x1, x2) - 1, y: taskHeight + 1, width: 2, height }
+            : { x: Math.min(x1, x2), y: taskHeight + 1, width, height };
+    }
+
+    /** Start and finish variance against the baseline in the task's working days (positive = late) */
+    private getBaselineVariance(task: Task): { start: number | null; finish: number | null } {
+        const toTime = (date: Date | null | undefined) => date instanceof Date ? toLocalDayNumber(date) - this.scheduleBaseDay : null;
+        const calendar = this.taskCalendars(task.calendarName);
+        return {
+            start: baselineVariance(toTime(task.baselineStart), toTime(task.startDate), calendar),
+            finish: baselineVariance(toTime(task.baselineFinish), toTime(task.finishDate), calendar)
+        };
+    }
+
+    private formatVariance(variance: number | null): string {
+        if (variance === null) return "N/A";
+        const rounded = Math.round(variance * 10) / 10;
+        if (rounded === 0) return "On baseline";
+        return `${rounded > 0 ? "+" : ""}${rounded} days (${rounded > 0 ? "late" : "early"})`;
+    }
+
+    /** Lists the milestones whose forecast finish slipped furthest past the baseline */
+    private drawSlippageSummary(): void {
+        if (!this.slippageSummaryDiv) return;
+        this.slippageSummaryDiv.selectAll("*").remove();
+        this.slippageSummaryDiv.style("display", "none");
+        if (!this.settings.baseline.showSlippageSummary.value) return;
+
+        const milestones: SlippedMilestone[] = [];
+        this.allTasksData.forEach(task => {
+            if (task.type !== 'TT_Mile' && task.type !== 'TT_FinMile') return;
+            const finishVariance = this.getBaselineVariance(task).finish;
+            if (finishVariance !== null) milestones.push({ id: task.internalId, name: task.name, finishVariance });
+        });
+        const slipped = rankSlippedMilestones(milestones, this.settings.baseline.slippageCount.value);
+        if (slipped.length === 0) return;
+
+        this.slippageSummaryDiv.style("display", "block");
+        this.slippageSummaryDiv.append("div")
+            .style("font-weight", "bold")
+            .style("margin-bottom", "3px")
+            .text("Most Slipped Milestones");
+        slipped.forEach(m => {
+            const row = this.slippageSummaryDiv.append("div")
+                .style("display", "flex")
+                .style("justify-content", "space-between");
+            row.append("span")
+                .style("overflow", "hidden")
+                .style("text-overflow", "ellipsis")
+                .style("white-space", "nowrap")
+                .style("margin-right", "8px")
+                .text(m.name);
+            row.append("span")
+                .style("color", "#D32F2F")
+                .style("white-space", "nowrap")
+                .text(`+${Math.round(m.finishVariance * 10) / 10}d`);
+        });
+    }
+
+    /** Earned schedule at the data date; hidden without a data date or baseline dates */
+    private drawEarnedScheduleStrip(): void {
+        if (!this.earnedScheduleDiv) return;
+        this.earnedScheduleDiv.selectAll("*").remove();
+        this.earnedScheduleDiv.style("display", "none");
+        const dataDate = this.getDataDateTime();
+        if (!this.settings.progress.showEarnedSchedule.value || dataDate === null) return;
+
+        const toTime = (date: Date | null | undefined) => date instanceof Date ? toLocalDayNumber(date) - this.scheduleBaseDay : null;
+        const tasks: EarnedScheduleTask[] = this.allTasksData
+            .filter(task => !isSpanTaskType(task.type))
+            .map(task => ({ ...this.getProgressTimes(task), baselineStart: toTime(task.baselineStart), baselineFinish: toTime(task.baselineFinish) }));
+        const result = earnedSchedule(tasks, dataDate);
+        if (!result) return;
+
+        const days = (value: number) => `${Math.round(value * 10) / 10}d`;
+        const behindColor = result.svT < -this.floatTolerance ? "#D32F2F" : "#2E7D32";
+        const forecastDate = result.forecastFinish === null ? null : fromLocalDayNumber(this.scheduleBaseDay + Math.round(result.forecastFinish));
+        const kpis = [
+            { label: "ES", value: days(result.earnedSchedule), color: null },
+            { label: "SPI(t)", value: result.spiT === null ? "N/A" : result.spiT.toFixed(2), color: behindColor },
+            { label: "SV(t)", value: `${result.svT > 0 ? "+" : ""}${days(result.svT)}`, color: behindColor },
+            { label: "IEAC(t)", value: result.ieacT === null ? "N/A" : `${days(result.ieacT)} (${this.formatDate(forecastDate)})`, color: null }
+        ];
+
+        this.earnedScheduleDiv.style("display", "flex");
+        kpis.forEach(kpi => {
+            const item = this.earnedScheduleDiv.append("div").style("white-space", "nowrap");
+            item.append("span").style("color", "#757575").style("margin-right", "3px").text(kpi.label);
+            item.append("span").style("font-weight", "bold").style("color", kpi.color).text(kpi.value);
+        });
+        this.earnedScheduleDiv.attr("title", `Planned duration ${days(result.plannedDuration)}, actual time ${days(result.actualTime)}`);
+    }
+
+    /** Lists circular dependencies and lets the user break them at their weakest links */
+    private drawCyclePanel(): void {
+        if (!this.cyclePanelDiv) return;
+        this.cyclePanelDiv.selectAll("*").remove();
+        this.cyclePanelDiv.style("display", "none");
+        if (this.cycleDetails.length === 0 || !this.settings.cycles.showCyclePanel.value) return;
+
+        const color = this.settings.cycles.cycleColor.value.value;
+        const loopsBroken = this.settings.cycles.breakLoops.value;
+        const taskName = (id: string) => this.taskIdToTask.get(id)?.name ?? id;
+
+        this.cyclePanelDiv.style("display", "block");
+        this.cyclePanelDiv.append("div")
+            .style("font-weight", "bold")
+            .style("color", color)
+            .style("margin-bottom", "3px")
+            .text(`Circular Dependencies (${this.cycleDetails.length})`);
+        this.cycleDetails.forEach(detail => {
+            this.cyclePanelDiv.append("div").style("margin-bottom", "2px").text(detail);
+        });
+
+        if (loopsBroken) {
+            this.cyclePanelDiv.append("div")
+                .style("font-weight", "bold")
+                .style("margin-top", "4px")
+                .text("Links dropped so CPM can run:");
+            this.brokenCycleLinks.forEach(rel => {
+                this.cyclePanelDiv.append("div").text(`${taskName(rel.predecessorId)} → ${taskName(rel.successorId)} (${rel.type})`);
+            });
+        } else {
+            this.cyclePanelDiv.append("div")
+                .style("margin-top", "4px")
+                .style("font-style", "italic")
+                .text("Critical path is not calculated while loops remain.");
         }
-        if (minFinish !== Infinity) {
-            (task as any).latestReqFinish = Math.min(task.earlyFinish, minFinish);
+
+        // The host sends a fresh update carrying the new setting
+        this.cyclePanelDiv.append("button")
+            .attr("class", "cycle-break-button")
+            .style("margin-top", "5px")
+            .style("font-family", "Segoe UI, sans-serif")
+            .style("font-size", "9px")
+            .style("cursor", "pointer")
+            .text(loopsBroken ? "Restore Loop Links" : "Break Loops at Weakest Link")
+            .on("click", () => {
+                this.host.persistProperties({ merge: [{ objectName: "cycles", properties: { breakLoops: !loopsBroken }, selector: null }] });
+            });
+    }
+
+    /** Stretches level-of-effort, WBS summary and hammock bars across the plotted dates of their linked tasks */
+    private applySpanDates(): void {
+        const baseDay = this.scheduleBaseDay;
+        const time = (date: Date | null | undefined) => date ? toLocalDayNumber(date) - baseDay : null;
+        const linkTo = (rel: Relationship, otherId: string): SpanLink | null => {
+            const other = this.taskIdToTask.get(otherId);
+            const start = time(other?.startDate);
+            const finish = time(other?.finishDate);
+            return start === null || finish === null ? null : { type: rel.type || 'FS', lag: rel.lag ?? 0, start, finish };
+        };
+        const present = (link: SpanLink | null): link is SpanLink => link !== null;
+
+        this.allTasksData.forEach(task => {
+            if (!isSpanTaskType(task.type)) return;
+            const ownStart = time(task.startDate) ?? time(task.finishDate);
+            const ownFinish = time(task.finishDate) ?? ownStart;
+            if (ownStart === null || ownFinish === null) return;
+            const predecessors = this.relationships.filter(r => r.successorId === task.internalId).map(r => linkTo(r, r.predecessorId)).filter(present);
+            const successors = this.relationships.filter(r => r.predecessorId === task.internalId).map(r => linkTo(r, r.successorId)).filter(present);
+            const { start, finish } = spanDates(predecessors, successors, { start: ownStart, finish: ownFinish }, this.taskCalendars(task.calendarName));
+            task.startDate = fromLocalDayNumber(baseDay + start);
+            task.finishDate = fromLocalDayNumber(baseDay + finish);
+        });
+    }
+
+    /** Finish dates under the what-if scenario; bars keep plotting the data dates */
+    private applyScenarioFinishes(): void {
+        this.allTasksData.forEach(task => {
+            task.scenarioFinish = null;
+            task.scenarioShift = undefined;
+        });
+        if (countOverrides(this.scenario) === 0 || this.hasUnresolvedCycles) return;
+
+        const input = this.buildCpmInput();
+        const key = `${hashCpmInput(input)}|${serializeScenario(this.scenario)}`;
+        if (this.scenarioShifts?.key !== key) {
+            this.scenarioShifts = { key, shifts: scenarioFinishShifts(input, this.scenario) };
         }
+        const shifts = this.scenarioShifts.shifts;
+        this.allTasksData.forEach(task => {
+            const shift = shifts[task.internalId];
+            if (shift === undefined || !task.finishDate) return;
+            const finish = toLocalDayNumber(task.finishDate) - this.scheduleBaseDay;
+            task.scenarioShift = Math.abs(shift) <= this.floatTolerance ? 0 : shift;
+            task.scenarioFinish = task.scenarioShift === 0
+                ? task.finishDate
+                : fromLocalDayNumber(this.scheduleBaseDay + this.taskCalendars(task.calendarName).addWorkDays(finish, task.scenarioShift, true));
+        });
     }
 
-    tasks.forEach(t => {
-        const est = (t as any).earliestReqStart as number;
-        const lrf = (t as any).latestReqFinish as number;
-        const startSlack = t.earlyStart - est;
-        const finishSlack = lrf - t.earlyFinish;
-        t.totalFloat = Math.min(startSlack, finishSlack);
-        t.lateFinish = t.earlyFinish + Math.max(0, t.totalFloat);
-        t.lateStart = t.lateFinish - t.duration;
-        (t as any).violatesConstraints = t.totalFloat < -floatTol;
-        t.isCriticalByFloat = Math.abs(t.totalFloat) <= floatTol && !(t as any).violatesConstraints;
-        t.isNearCritical = !t.isCriticalByFloat && !(t as any).violatesConstraints && t.totalFloat > floatTol && t.totalFloat <= floatThreshold;
-        t.isCriticalByRel = false;
-        t.isCritical = false;
-    });
+    /** Lead line from the plotted finish to the scenario finish; null when the scenario leaves the task alone */
+    private getScenarioMarker(task: Task, xScale: ScaleTime<number, number>): { fromX: number; toX: number } | null {
+        if (!task.scenarioFinish || !task.scenarioShift) return null;
+        const isMilestone = task.type === 'TT_Mile' || task.type === 'TT_FinMile';
+        const current = isMilestone ? this.getMilestoneDate(task) : task.finishDate;
+        if (!current) return null;
+        const fromX = xScale(current);
+        const toX = xScale(task.scenarioFinish);
+        return isFinite(fromX) && isFinite(toX) ? { fromX, toX } : null;
+    }
+
+    private formatScenarioFinish(task: Task): string {
+        const shift = Math.round((task.scenarioShift ?? 0) * 10) / 10;
+        const date = this.formatDate(task.scenarioFinish);
+        return shift === 0 ? `${date} (no change)` : `${date} (${shift > 0 ? "+" : ""}${shift} days)`;
+    }
 
-    relationships.forEach(rel => {
-        const pred = taskMap.get(rel.predecessorId);
-        const succ = taskMap.get(rel.successorId);
-        if (!pred || !succ) { rel.isCritical = false; return; }
-        if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) {
-            rel.isCritical = rel.freeFloat <= floatTol;
+    /** Flags each task's start and finish that the logic leaves free */
+    private markOpenEnds(): void {
+        const openEnds = findOpenEnds(this.allTasksData.map(t => t.internalId), this.relationships);
+        this.allTasksData.forEach(task => {
+            const ends = openEnds.get(task.internalId);
+            task.openStart = ends?.start ?? null;
+            task.openFinish = ends?.finish ?? null;
+        });
+    }
+
+    /** Dots on the bar ends the logic leaves free; milestones carry both on their one date */
+    private getOpenEndMarkers(task: Task, xScale: ScaleTime<number, number>): { x: number; end: OpenEnd }[] {
+        const isMilestone = task.type === 'TT_Mile' || task.type === 'TT_FinMile';
+        const start = isMilestone ? this.getMilestoneDate(task) : task.startDate;
+        const finish = isMilestone ? start : task.finishDate;
+        const markers: { x: number; end: OpenEnd }[] = [];
+        if (task.openStart && start) markers.push({ x: xScale(start), end: task.openStart });
+        if (task.openFinish && finish) markers.push({ x: xScale(finish), end: task.openFinish });
+        return markers.filter(m => isFinite(m.x));
+    }
+
+    private formatOpenEnds(task: Task): string {
+        const parts: string[] = [];
+        if (task.openStart === 'missing') parts.push("No predecessors");
+        if (task.openStart === 'dangling') parts.push("Start not driven (FF/SF predecessors only)");
+        if (task.openFinish === 'missing') parts.push("No successors");
+        if (task.openFinish === 'dangling') parts.push("Finish drives nothing (SS/SF successors only)");
+        return parts.join("; ");
+    }
+
+    /** Current and scenario project finish side by side, with the overrides behind the difference */
+    private drawScenarioPanel(): void {
+        if (!this.scenarioPanelDiv) return;
+        this.scenarioPanelDiv.selectAll("*").remove();
+        this.scenarioPanelDiv.style("display", "none");
+        const overrideCount = countOverrides(this.scenario);
+        if (overrideCount === 0 || !this.settings.scenario.showScenario.value) return;
+
+        const color = this.settings.scenario.scenarioColor.value.value;
+        const taskName = (id: string) => this.taskIdToTask.get(id)?.name ?? id;
+
+        this.scenarioPanelDiv.style("display", "block");
+        this.scenarioPanelDiv.append("div")
+            .style("font-weight", "bold")
+            .style("color", color)
+            .style("margin-bottom", "3px")
+            .text(`What-If Scenario (${overrideCount} ${overrideCount === 1 ? "change" : "changes"})`);
+
+        if (this.hasUnresolvedCycles) {
+            this.scenarioPanelDiv.append("div")
+                .style("font-style", "italic")
+                .text("Scenario is not calculated while loops remain.");
         } else {
-            const lag = rel.lag || 0;
-            const type = rel.type || 'FS';
-            let isDriving = false;
-            switch (type) {
-                case 'FS': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= floatTol; break;
-                case 'SS': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyStart) <= floatTol; break;
-                case 'FF': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyFinish) <= floatTol; break;
-                case 'SF': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyFinish) <= floatTol; break;
-                default: isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= floatTol; break;
+            const latest = (dates: (Date | null | undefined)[]) =>
+                dates.reduce<Date | null>((max, d) => d instanceof Date && (!max || d > max) ? d : max, null);
+            const currentFinish = latest(this.allTasksData.map(t => t.finishDate));
+            const scenarioFinish = latest(this.allTasksData.map(t => t.scenarioFinish ?? t.finishDate));
+            if (currentFinish && scenarioFinish) {
+                const toTime = (date: Date) => toLocalDayNumber(date) - this.scheduleBaseDay;
+                const shift = Math.round(this.taskCalendars(null).workDaysBetween(toTime(currentFinish), toTime(scenarioFinish)) * 10) / 10;
+                this.scenarioPanelDiv.append("div")
+                    .style("margin-bottom", "3px")
+                    .text(`Project finish: ${this.formatDate(currentFinish)} → ${this.formatDate(scenarioFinish)} (${shift > 0 ? "+" : ""}${shift} days)`);
             }
-            rel.isCritical = isDriving && pred.isCriticalByFloat && succ.isCriticalByFloat;
-        }
-        if (rel.isCritical) {
-            pred.isCriticalByRel = true;
-            succ.isCriticalByRel = true;
         }
-    });
 
-    tasks.forEach(t => {
-        const violates = (t as any).violatesConstraints;
-        t.isCritical = (t.isCriticalByFloat && !violates) || t.isCriticalByRel;
-    });
-}
+        Object.entries(this.scenario.tasks).forEach(([id, override]) => {
+            this.scenarioPanelDiv.append("div").text(`${taskName(id)}: ${override.duration} days`);
+        });
+        Object.entries(this.scenario.links).forEach(([key, override]) => {
+            const [predecessorId, successorId] = key.split("->");
+            const changes = [override.type, override.lag !== undefined ? `lag ${override.lag}` : null].filter(Boolean).join(", ");
+            this.scenarioPanelDiv.append("div").text(`${taskName(predecessorId)} → ${taskName(successorId)}: ${changes}`);
+        });
 
-private runUnconstrainedAnalysis(tasks: Task[], relationships: Relationship[], floatTol: number, floatThreshold: number): void {
-    if (tasks.length === 0) return;
-
-    const taskMap = new Map<string, Task>();
-    tasks.forEach(t => {
-        taskMap.set(t.internalId, t);
-        // reset
-        t.earlyStart = 0;
-        t.earlyFinish = t.duration;
-        t.lateStart = 0;
-        t.lateFinish = 0;
-        t.totalFloat = 0;
-        t.isCritical = false;
-        t.isCriticalByFloat = false;
-        t.isCriticalByRel = false;
-        t.isNearCritical = false;
-    });
+        this.scenarioPanelDiv.append("button")
+            .attr("class", "scenario-clear-button")
+            .style("margin-top", "5px")
+            .style("font-family", "Segoe UI, sans-serif")
+            .style("font-size", "9px")
+            .style("cursor", "pointer")
+            .text("Clear Scenario")
+            .on("click", () => this.saveScenario(emptyScenario()));
+    }
 
-    const successors = new Map<string, string[]>();
-    const predecessors = new Map<string, string[]>();
-    relationships.forEach(r => {
-        if (!successors.has(r.predecessorId)) successors.set(r.predecessorId, []);
-        successors.get(r.predecessorId)!.push(r.successorId);
-        if (!predecessors.has(r.successorId)) predecessors.set(r.successorId, []);
-        predecessors.get(r.successorId)!.push(r.predecessorId);
-    });
+    /** Popup for one task's what-if duration and predecessor links, opened by right-clicking the task */
+    private openScenarioEditor(task: Task, event: MouseEvent): void {
+        if (!this.scenarioEditorDiv || !this.settings.scenario.showScenario.value) return;
+        event.preventDefault();
+        event.stopPropagation();
+        this.tooltipDiv?.style("visibility", "hidden");
 
-    const inDeg = new Map<string, number>();
-    tasks.forEach(t => inDeg.set(t.internalId, (predecessors.get(t.internalId) || []).length));
-    const queue: string[] = [];
-    inDeg.forEach((d, id) => { if (d === 0) queue.push(id); });
-    const topo: string[] = [];
-    while (queue.length) {
-        const id = queue.shift()!;
-        topo.push(id);
-        const succs = successors.get(id) || [];
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const pred = taskMap.get(id)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let reqStart = 0;
-            switch (relType) {
-                case 'FS': reqStart = pred.earlyFinish + lag; break;
-                case 'SS': reqStart = pred.earlyStart + lag; break;
-                case 'FF': reqStart = pred.earlyFinish - succ.duration + lag; break;
-                case 'SF': reqStart = pred.earlyStart - succ.duration + lag; break;
-                default: reqStart = pred.earlyFinish + lag; break;
+        const editor = this.scenarioEditorDiv;
+        editor.selectAll("*").remove();
+        const bounds = (editor.node()!.parentNode as HTMLElement).getBoundingClientRect();
+        editor
+            .style("left", `${Math.max(0, Math.min(event.clientX - bounds.left, bounds.width - 230))}px`)
+            .style("top", `${Math.max(0, Math.min(event.clientY - bounds.top, bounds.height - 150))}px`)
+            .style("display", "block");
+
+        editor.append("div")
+            .style("font-weight", "bold")
+            .style("margin-bottom", "5px")
+            .text(`What-if: ${task.name}`);
+
+        const row = (label: string) => {
+            const line = editor.append("div")
+                .style("display", "flex")
+                .style("justify-content", "space-between")
+                .style("align-items", "center")
+                .style("gap", "6px")
+                .style("margin-bottom", "3px");
+            line.append("span")
+                .style("overflow", "hidden")
+                .style("text-overflow", "ellipsis")
+                .style("white-space", "nowrap")
+                .text(label);
+            return line;
+        };
+        const numberInput = (line: Selection<HTMLDivElement, unknown, null, undefined>, value: number) =>
+            line.append("input")
+                .attr("type", "number")
+                .attr("step", "1")
+                .style("width", "50px")
+                .property("value", String(value));
+
+        const taskOverride = this.scenario.tasks[task.internalId];
+        const durationInput = numberInput(row("Duration (days)"), taskOverride?.duration ?? task.duration).attr("min", "0");
+
+        const predecessors = task.predecessorIds.filter(id => this.taskIdToTask.has(id));
+        if (predecessors.length > 0) {
+            editor.append("div")
+                .style("font-weight", "bold")
+                .style("margin", "5px 0 3px")
+                .text("Predecessors");
+        }
+        const linkInputs = predecessors.map(id => {
+            const override = this.scenario.links[linkKey(id, task.internalId)];
+            const line = row(this.taskIdToTask.get(id)!.name);
+            const typeSelect = line.append("select").style("font-size", "10px");
+            typeSelect.selectAll("option")
+                .data(RELATIONSHIP_TYPES)
+                .enter().append("option")
+                .attr("value", d => d)
+                .text(d => d);
+            typeSelect.property("value", override?.type ?? task.relationshipTypes[id] ?? "FS");
+            const lagInput = numberInput(line, override?.lag ?? task.relationshipLags[id] ?? 0);
+            return { id, typeSelect, lagInput };
+        });
+
+        // Overrides are kept only where they differ from the source data
+        const withoutTask = (): Scenario => {
+            const next: Scenario = { tasks: { ...this.scenario.tasks }, links: { ...this.scenario.links } };
+            delete next.tasks[task.internalId];
+            task.predecessorIds.forEach(id => delete next.links[linkKey(id, task.internalId)]);
+            return next;
+        };
+        const apply = () => {
+            const next = withoutTask();
+            const duration = parseFloat(durationInput.property("value"));
+            if (isFinite(duration) && duration >= 0 && duration !== task.duration) {
+                next.tasks[task.internalId] = { duration };
             }
-            succ.earlyStart = Math.max(succ.earlyStart, reqStart);
-            succ.earlyFinish = succ.earlyStart + succ.duration;
-            const nd = inDeg.get(succId)! - 1;
-            inDeg.set(succId, nd);
-            if (nd === 0) queue.push(succId);
+            linkInputs.forEach(({ id, typeSelect, lagInput }) => {
+                const type: string = typeSelect.property("value");
+                const lag = parseFloat(lagInput.property("value"));
+                const link: { type?: string; lag?: number } = {};
+                if (type !== (task.relationshipTypes[id] ?? "FS")) link.type = type;
+                if (isFinite(lag) && lag !== (task.relationshipLags[id] ?? 0)) link.lag = lag;
+                if (Object.keys(link).length > 0) next.links[linkKey(id, task.internalId)] = link;
+            });
+            this.saveScenario(next);
+        };
+
+        const buttons = editor.append("div")
+            .style("display", "flex")
+            .style("justify-content", "flex-end")
+            .style("gap", "4px")
+            .style("margin-top", "6px");
+        const button = (label: string, onClick: () => void) => buttons.append("button")
+            .style("font-family", "Segoe UI, sans-serif")
+            .style("font-size", "10px")
+            .style("cursor", "pointer")
+            .text(label)
+            .on("click", onClick);
+        button("Apply", apply);
+        button("Reset Task", () => this.saveScenario(withoutTask()));
+        button("Close", () => editor.style("display", "none"));
+    }
+
+    /** Saves the scenario with the report; only the overrides are stored, never the source data */
+    private saveScenario(scenario: Scenario): void {
+        this.scenario = scenario;
+        this.scenarioEditorDiv?.style("display", "none");
+        this.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { scenario: serializeScenario(scenario) }, selector: null }] });
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
         }
     }
 
-    const projectEnd = Math.max(...tasks.map(t => t.earlyFinish));
-
-    for (let i = topo.length - 1; i >= 0; i--) {
-        const id = topo[i];
-        const task = taskMap.get(id)!;
-        const succs = successors.get(id) || [];
-        let minFinish = Infinity;
-        for (const succId of succs) {
-            const succ = taskMap.get(succId)!;
-            const relType = succ.relationshipTypes[id] || 'FS';
-            const lag = succ.relationshipLags[id] ?? 0;
-            let reqFinish = Infinity;
-            switch (relType) {
-                case 'FS': reqFinish = succ.lateStart - lag; break;
-                case 'SS': reqFinish = succ.lateStart - lag + task.duration; break;
-                case 'FF': reqFinish = succ.lateFinish - lag; break;
-                case 'SF': reqFinish = succ.lateFinish - lag - succ.duration + task.duration; break;
-                default: reqFinish = succ.lateStart - lag; break;
+    /**
+     * The health panel's critical path test on the first open critical task.
+     * Results are kept per schedule hash; a missing or stale one is started
+     * off-thread and the panel redrawn when it arrives. Undefined until then.
+     */
+    private currentCriticalPathTest(): CriticalPathTestResult | null | undefined {
+        const testTask = this.hasUnresolvedCycles ? undefined : this.allTasksData
+            .filter(t => t.isCritical && getProgressStatus(this.getProgressTimes(t)) !== 'completed')
+            .sort((a, b) => (a.earlyStart ?? 0) - (b.earlyStart ?? 0))[0];
+        if (!testTask) return null;
+
+        const input = this.buildCpmInput();
+        const delay = this.settings.dcma.testDelay.value;
+        const key = `${hashCpmInput(input)}|${testTask.internalId}|${delay}`;
+        if (this.criticalPathTest?.key === key) return this.criticalPathTest.result;
+        // Tests started from the panel keep the worker until they finish
+        if (this.pathTestRunning) return undefined;
+
+        this.criticalPathTest = { key, result: undefined };
+        this.runCriticalPathTestsOffThread(input, [testTask.internalId], delay).then(results => {
+            if (this.criticalPathTest?.key !== key) return;
+            // Superseded by a test from the panel; the next draw starts it again
+            if (!results) {
+                this.criticalPathTest = null;
+                return;
             }
-            if (reqFinish < minFinish) minFinish = reqFinish;
-        }
-        if (succs.length === 0) {
-            task.lateFinish = projectEnd;
-        } else {
-            task.lateFinish = minFinish === Infinity ? projectEnd : minFinish;
-        }
-        task.lateStart = task.lateFinish - task.duration;
+            this.criticalPathTest = { key, result: results[0] ?? null };
+            this.drawDcmaPanel();
+        });
+        return undefined;
     }
 
-    tasks.forEach(t => {
-        t.totalFloat = t.lateStart - t.earlyStart;
-        t.violatesConstraints = false;
-        t.isCriticalByFloat = Math.abs(t.totalFloat) <= floatTol;
-        t.isNearCritical = !t.isCriticalByFloat && t.totalFloat > floatTol && t.totalFloat <= floatThreshold;
-        t.isCriticalByRel = false;
-    });
+    /** DCMA checks on the current schedule */
+    private assessScheduleQuality() {
+        const toTime = (date: Date | null | undefined) => date instanceof Date ? toLocalDayNumber(date) - this.scheduleBaseDay : null;
+
+        // Span tasks follow other work, so the checks leave them and their links out
+        const assessed = this.allTasksData.filter(t => !isSpanTaskType(t.type));
+        const assessedIds = new Set(assessed.map(t => t.internalId));
+        const tasks: DcmaTask[] = assessed.map(t => ({
+            id: t.internalId,
+            isMilestone: t.type === 'TT_Mile' || t.type === 'TT_FinMile',
+            completed: getProgressStatus(this.getProgressTimes(t)) === 'completed',
+            predecessorCount: t.predecessorIds.filter(id => assessedIds.has(id)).length,
+            successorCount: t.successors.filter(s => assessedIds.has(s.internalId)).length,
+            constraintType: t.constraintType ?? null,
+            totalFloat: t.totalFloat,
+            duration: t.duration,
+            start: toTime(t.startDate),
+            finish: toTime(t.finishDate),
+            actualStart: toTime(t.actualStart),
+            actualFinish: toTime(t.actualFinish),
+            baselineFinish: toTime(t.baselineFinish)
+        }));
+        const dcma = this.settings.dcma;
+        return assessSchedule({
+            tasks,
+            links: this.relationships.filter(r => assessedIds.has(r.predecessorId) && assessedIds.has(r.successorId)),
+            dataDate: this.getDataDateTime(),
+            calendar: this.taskCalendars(null),
+            criticalPathTest: this.currentCriticalPathTest(),
+            tolerance: this.floatTolerance
+        }, {
+            maxPercent: dcma.maxPercent.value,
+            minFsPercent: dcma.minFsPercent.value,
+            highFloatDays: dcma.highFloatDays.value,
+            highDurationDays: dcma.highDurationDays.value,
+            minIndex: dcma.minIndex.value
+        });
+    }
 
-    relationships.forEach(rel => {
-        const pred = taskMap.get(rel.predecessorId);
-        const succ = taskMap.get(rel.successorId);
-        if (!pred || !succ) { rel.isCritical = false; return; }
-        if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) {
-            rel.isCritical = rel.freeFloat <= floatTol;
-        } else {
-            const lag = rel.lag || 0;
-            const type = rel.type || 'FS';
-            let isDriving = false;
-            switch (type) {
-                case 'FS': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= floatTol; break;
-                case 'SS': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyStart) <= floatTol; break;
-                case 'FF': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyFinish) <= floatTol; break;
-                case 'SF': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyFinish) <= floatTol; break;
-                default: isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= floatTol; break;
+    /** Pass/fail table of the DCMA checks; a failed check lists its tasks, which select on click */
+    private drawDcmaPanel(): void {
+        if (!this.dcmaPanelDiv) return;
+        this.dcmaPanelDiv.selectAll("*").remove();
+        this.dcmaPanelDiv.style("display", "none");
+        if (!this.settings.dcma.showPanel.value || this.allTasksData.length === 0) return;
+
+        const checks = this.assessScheduleQuality();
+        const measured = checks.filter(c => c.passed !== null);
+        const statusColor = (passed: boolean | null) => passed === null ? "#757575" : passed ? "#2E7D32" : "#D32F2F";
+
+        this.dcmaPanelDiv.style("display", "block");
+        this.dcmaPanelDiv.append("div")
+            .style("font-weight", "bold")
+            .style("margin-bottom", "3px")
+            .text(`Schedule Health: ${measured.filter(c => c.passed).length} of ${measured.length} checks passed`);
+
+        const table = this.dcmaPanelDiv.append("table").style("border-collapse", "collapse");
+        checks.forEach(check => {
+            const expandable = check.taskIds.length > 0;
+            const row = table.append("tr")
+                .style("cursor", expandable ? "pointer" : "default")
+                .on("click", () => {
+                    if (!expandable) return;
+                    this.dcmaExpandedCheck = this.dcmaExpandedCheck === check.name ? null : check.name;
+                    this.drawDcmaPanel();
+                });
+            row.append("td").style("padding", "1px 6px 1px 0").text(`${expandable ? (this.dcmaExpandedCheck === check.name ? "▾" : "▸") : " "} ${check.name}`);
+            row.append("td").style("padding", "1px 6px 1px 0").style("white-space", "nowrap").text(check.result);
+            row.append("td").style("padding", "1px 6px 1px 0").style("white-space", "nowrap").style("color", "#757575").text(check.target);
+            row.append("td")
+                .style("font-weight", "bold")
+                .style("color", statusColor(check.passed))
+                .text(check.passed === null ? "N/A" : check.passed ? "Pass" : "Fail");
+
+            if (this.dcmaExpandedCheck !== check.name) return;
+            const list = table.append("tr").append("td").attr("colspan", 4).style("padding", "0 0 3px 12px");
+            check.taskIds.slice(0, DCMA_TASKS_LISTED).forEach(id => this.appendTaskLink(list, id));
+            if (check.taskIds.length > DCMA_TASKS_LISTED) {
+                list.append("div").style("font-style", "italic").text(`+${check.taskIds.length - DCMA_TASKS_LISTED} more`);
             }
-            rel.isCritical = isDriving && pred.isCriticalByFloat && succ.isCriticalByFloat;
+        });
+
+        this.drawPathTestSection();
+    }
+
+    /** Buttons for the delay-injection test and the outcome of the last run */
+    private drawPathTestSection(): void {
+        const running = this.pathTestRunning;
+        const section = this.dcmaPanelDiv.append("div")
+            .style("margin-top", "5px")
+            .style("padding-top", "4px")
+            .style("border-top", "1px solid #e0e0e0");
+        section.append("div")
+            .style("font-weight", "bold")
+            .text(`Critical Path Test (${this.settings.dcma.testDelay.value}d delay)`);
+
+        const buttons = section.append("div")
+            .style("display", "flex")
+            .style("gap", "4px")
+            .style("margin", "3px 0");
+        const button = (label: string, disabled: boolean, onClick: () => void) => buttons.append("button")
+            .style("font-family", "Segoe UI, sans-serif")
+            .style("font-size", "9px")
+            .style("cursor", disabled ? "default" : "pointer")
+            .property("disabled", disabled)
+            .text(label)
+            .on("click", onClick);
+        button("Test Selected Task", running || !this.selectedTaskId || this.hasUnresolvedCycles, () => this.startCriticalPathTest('selected'));
+        button("Test All Critical Tasks", running || this.hasUnresolvedCycles, () => this.startCriticalPathTest('batch'));
+
+        const outcome = this.pathTestResults;
+        if (running) {
+            section.append("div").style("font-style", "italic").text("Testing...");
+            return;
         }
-        if (rel.isCritical) {
-            pred.isCriticalByRel = true;
-            succ.isCriticalByRel = true;
+        if (!outcome) return;
+
+        const moved = (result: CriticalPathTestResult) => `finish moved ${Math.round(result.finishShift * 10) / 10}d`;
+        if (outcome.mode === 'selected') {
+            const result = outcome.results[0];
+            const task = result && this.taskIdToTask.get(result.taskId);
+            if (!task) return;
+            const line = section.append("div");
+            line.append("span").text(`${task.name}: ${moved(result)} `);
+            line.append("span")
+                .style("font-weight", "bold")
+                .style("color", result.passed ? "#2E7D32" : "#D32F2F")
+                .text(result.passed ? "Pass" : "Fail");
+            return;
+        }
+
+        const broken = outcome.results.filter(r => !r.passed);
+        section.append("div").text(`${outcome.results.length - broken.length} of ${outcome.results.length} critical tasks pass`);
+        if (broken.length === 0) return;
+        section.append("div")
+            .style("color", "#D32F2F")
+            .style("margin-top", "2px")
+            .text("Chain breaks after:");
+        const list = section.append("div").style("padding-left", "12px");
+        broken.slice(0, DCMA_TASKS_LISTED).forEach(result => this.appendTaskLink(list, result.taskId, ` (${moved(result)})`));
+        if (broken.length > DCMA_TASKS_LISTED) {
+            list.append("div").style("font-style", "italic").text(`+${broken.length - DCMA_TASKS_LISTED} more`);
         }
+    }
+
+    /** A task name that selects the task when clicked */
+    private appendTaskLink(container: Selection<HTMLElement, unknown, null, undefined>, taskId: string, note: string = ""): void {
+        const task = this.taskIdToTask.get(taskId);
+        if (!task) return;
+        container.append("div")
+            .style("cursor", "pointer")
+            .style("color", "#1565C0")
+            .style("text-decoration", taskId === this.selectedTaskId ? "underline" : "none")
+            .text(`${task.name}${note}`)
+            .on("click", (event: MouseEvent) => {
+                event.stopPropagation();
+                this.selectTask(task.internalId, task.name);
+                if (this.dropdownInput) {
+                    this.dropdownInput.property("value", this.selectedTaskName || "");
+                }
+            });
+    }
+
+    private formatProgress(task: Task, completed: boolean): string {
+        if (completed) return "Completed";
+        const parts: string[] = [];
+        if (task.percentComplete != null) parts.push(`${Math.round(task.percentComplete)}%`);
+        if (task.remainingDuration != null) parts.push(`${task.remainingDuration} days remaining`);
+        return parts.length ? `In Progress (${parts.join(", ")})` : "In Progress";
+    }
+
+    /**
+     * Draws the simulated P50/P80/P90 finish dates as vertical lines and the
+     * finish-date histogram along the bottom of the chart.
+     */
+    private drawRiskResults(
+        xScale: ScaleTime<number, number>,
+        chartHeight: number,
+        mainGridLayer: Selection<SVGGElement, unknown, null, undefined>,
+        headerLayer: Selection<SVGGElement, unknown, null, undefined>
+    ): void {
+        const result = this.riskResult;
+        if (!result || !mainGridLayer?.node() || !headerLayer?.node() || !xScale) return;
+
+        const color = this.settings.riskAnalysis.resultColor.value.value;
+        const generalFontSize = this.settings.textAndLabels.fontSize.value;
+        const toX = (time: number) => xScale(fromLocalDayNumber(this.scheduleBaseDay + time));
+
+        mainGridLayer.selectAll(".risk-histogram-bar, .risk-percentile-line").remove();
+        headerLayer.selectAll(".risk-percentile-label").remove();
+
+        // Histogram bars sit behind the tasks, scaled to at most 60px
+        const histogram = result.histogram;
+        const maxCount = Math.max(1, ...histogram.counts);
+        const maxBarHeight = Math.min(60, chartHeight);
+        histogram.counts.forEach((count, i) => {
+            const x1 = toX(histogram.start + i * histogram.binWidth);
+            const x2 = toX(histogram.start + (i + 1) * histogram.binWidth);
+            if (count === 0 || !isFinite(x1) || !isFinite(x2)) return;
+            const height = (count / maxCount) * maxBarHeight;
+            mainGridLayer.append("rect")
+                .attr("class", "risk-histogram-bar")
+                .attr("x", x1).attr("y", chartHeight - height)
+                .attr("width", Math.max(1, x2 - x1 - 1)).attr("height", height)
+                .style("fill", color)
+                .style("opacity", 0.25)
+                .style("pointer-events", "none");
+        });
+
+        const percentiles: [string, number][] = [["P50", result.p50], ["P80", result.p80], ["P90", result.p90]];
+        percentiles.forEach(([label, time]) => {
+            const x = toX(time);
+            if (!isFinite(x)) return;
+            mainGridLayer.append("line")
+                .attr("class", "risk-percentile-line")
+                .attr("x1", x).attr("y1", 0)
+                .attr("x2", x).attr("y2", chartHeight)
+                .attr("stroke", color)
+                .attr("stroke-width", 1)
+                .attr("stroke-dasharray", "4,3")
+                .style("pointer-events", "none");
+            headerLayer.append("text")
+                .attr("class", "risk-percentile-label")
+                .attr("x", x + 3)
+                .attr("y", this.headerHeight - 30)
+                .style("fill", color)
+                .style("font-size", generalFontSize + "pt")
+                .text(label)
+                .append("title")
+                .text(`${label} finish: ${this.formatDate(fromLocalDayNumber(this.scheduleBaseDay + time))} (${result.iterations} iterations)`);
+        });
+    }
+
+
+/**
+ * Detects cycles in the task dependency graph and returns affected tasks
+ * @returns Object containing whether cycles exist, which tasks and links are involved, and a readable loop per group
+ */
+private detectAndReportCycles(): {hasCycles: boolean, cyclicTasks: Set<string>, cycleLinks: Set<Relationship>, cycleDetails: string[]} {
+    const cyclicTasks = new Set<string>();
+    const cycleLinks = new Set<Relationship>();
+    const cycleDetails: string[] = [];
+    const groupOf = new Map<string, number>();
+
+    const describe = (id: string) => {
+        const t = this.taskIdToTask.get(id);
+        return t ? `${t.name} (${id})` : id;
+    };
+
+    findCycleGroups(this.allTasksData.map(t => t.internalId), this.relationships).forEach((group, groupIndex) => {
+        group.forEach(id => {
+            cyclicTasks.add(id);
+            groupOf.set(id, groupIndex);
+        });
+        const loop = traceCycle(group, this.relationships);
+        // A group can hold several interlocking loops; one is spelled out and the rest counted
+        const others = group.length - (loop.length - 1);
+        cycleDetails.push(`Cycle found: ${loop.map(describe).join(' → ')}${others > 0 ? ` (+${others} more looping tasks)` : ''}`);
     });
 
-    tasks.forEach(t => {
-        t.isCritical = t.isCriticalByFloat || t.isCriticalByRel;
+    this.relationships.forEach(rel => {
+        const group = groupOf.get(rel.predecessorId);
+        if (group !== undefined && group === groupOf.get(rel.successorId)) cycleLinks.add(rel);
     });
+
+    return {
+        hasCycles: cyclicTasks.size > 0,
+        cyclicTasks,
+        cycleLinks,
+        cycleDetails
+    };
 }
 
-private calculateCPMOffThread(): Promise<void> {
-    this.ensureCpmWorker();
+/**
+ * Finds circular dependencies and, when the user has asked for it, breaks
+ * each loop at its weakest link so CPM can run on the rest of the schedule.
+ * Loops that are left in place skip CPM and plot the data dates as given.
+ */
+private resolveCycles(): void {
+    this.brokenCycleLinks = [];
+    this.prepareProjectCalendar();
+    const cycleCheck = this.detectAndReportCycles();
+    this.cycleDetails = cycleCheck.cycleDetails;
+    this.allTasksData.forEach(task => { task.inCycle = cycleCheck.cyclicTasks.has(task.internalId); });
+    this.relationships.forEach(rel => { rel.inCycle = cycleCheck.cycleLinks.has(rel); });
+    this.hasUnresolvedCycles = cycleCheck.hasCycles && !this.settings.cycles.breakLoops.value;
+    if (!cycleCheck.hasCycles || this.hasUnresolvedCycles) return;
+
+    this.brokenCycleLinks = breakCycles(this.allTasksData.map(t => t.internalId), this.relationships, rel => this.getPlannedLinkSlack(rel));
+    this.brokenCycleLinks.forEach(rel => this.removeRelationship(rel));
+    this.debugLog(`Broke ${this.brokenCycleLinks.length} circular dependency link(s).`);
+}
+
+/**
+ * Relationship slack measured on the plotted dates. The weakest link of a
+ * loop is the one these dates honour least.
+ */
+private getPlannedLinkSlack(rel: Relationship): number {
+    const pred = this.taskIdToTask.get(rel.predecessorId);
+    const succ = this.taskIdToTask.get(rel.successorId);
+    if (!pred?.startDate || !pred.finishDate || !succ?.startDate || !succ.finishDate) return Infinity;
+    const toTime = (date: Date) => toLocalDayNumber(date) - this.scheduleBaseDay;
+    const predCalendar = this.taskCalendars(pred.calendarName);
+    const predFinish = toTime(pred.finishDate);
+    const predDuration = predCalendar.workDaysBetween(toTime(pred.startDate), predFinish);
+    return relationshipSlack(rel.type || 'FS', rel.lag || 0, predFinish, predDuration, toTime(succ.startDate), toTime(succ.finishDate), predCalendar);
+}
+
+/** Drops a link from the task graph so CPM and tracing no longer follow it */
+private removeRelationship(rel: Relationship): void {
+    this.relationships = this.relationships.filter(r => r !== rel);
+    const pred = this.taskIdToTask.get(rel.predecessorId);
+    const succ = this.taskIdToTask.get(rel.successorId);
+    if (succ) {
+        succ.predecessorIds = succ.predecessorIds.filter(id => id !== rel.predecessorId);
+        succ.predecessors = succ.predecessors.filter(t => t.internalId !== rel.predecessorId);
+        delete succ.relationshipTypes[rel.predecessorId];
+        delete succ.relationshipFreeFloats[rel.predecessorId];
+        delete succ.relationshipLags[rel.predecessorId];
+    }
+    if (pred) pred.successors = pred.successors.filter(t => t.internalId !== rel.successorId);
+    this.predecessorIndex.get(rel.predecessorId)?.delete(rel.successorId);
+    const indexed = this.relationshipIndex.get(rel.successorId);
+    if (indexed) this.relationshipIndex.set(rel.successorId, indexed.filter(r => r !== rel));
+}
+
+private ensureCpmWorker(): void {
+    if (this.cpmWorker || this.cpmWorkerFailed) return;
+    this.cpmWorker = createCpmWorker();
     if (!this.cpmWorker) {
+        this.cpmWorkerFailed = true;
+        return;
+    }
+    this.cpmWorker.addEventListener('message', (event: MessageEvent<CpmWorkerReply>) => this.handleCpmWorkerReply(event.data));
+    this.cpmWorker.addEventListener('error', event => {
+        console.error("CPM worker failed:", event.message);
+        this.abandonCpmWorker();
+    });
+}
+
+/** Stops using the worker; a request still waiting on it is finished on the main thread */
+private abandonCpmWorker(): void {
+    this.cpmWorker?.terminate();
+    this.cpmWorker = null;
+    this.cpmWorkerFailed = true;
+    if (this.pendingPathTest) {
+        this.runPendingPathTestOnMainThread();
+    }
+    const pending = this.pendingCpmRequest;
+    if (!pending) return;
+    this.pendingCpmRequest = null;
+    this.hideCpmProgress();
+    this.calculateCPM();
+    pending.resolve(true);
+}
+
+/**
+ * Returns the working calendar configured in the format pane, or null when
+ * durations and lags should be counted in continuous calendar days.
+ */
+private getProjectCalendar(): CalendarDefinition | null {
+    const calendarSettings = this.settings?.calendar;
+    if (!calendarSettings?.useCalendar?.value) return null;
+    return {
+        workWeek: parseWorkWeek(calendarSettings.workWeek?.value) || STANDARD_WORK_WEEK,
+        holidays: parseHolidayList(calendarSettings.holidays?.value)
+    };
+}
+
+/**
+ * Named calendars from the format pane, keyed by lower-cased name. They are
+ * only applied while the working calendar is enabled.
+ */
+private getNamedCalendars(): { [name: string]: CalendarDefinition } {
+    const calendarSettings = this.settings?.calendar;
+    if (!calendarSettings?.useCalendar?.value) return {};
+    return parseCalendarDefinitions(
+        calendarSettings.calendarDefinitions?.value,
+        parseHolidayList(calendarSettings.holidays?.value)
+    );
+}
+
+/** Constraint date in CPM time (days from the schedule base day), or null */
+private getConstraintTime(task: Task): number | null {
+    if (!task.constraintType || !(task.constraintDate instanceof Date)) return null;
+    return toLocalDayNumber(task.constraintDate) - this.scheduleBaseDay;
+}
+
+private prepareProjectCalendar(): void {
+    const firstStart = this.allTasksData.reduce((m, t) => {
+        if (t.startDate) m = Math.min(m, toLocalDayNumber(t.startDate));
+        return t.actualStart ? Math.min(m, toLocalDayNumber(t.actualStart)) : m;
+    }, Infinity);
+    this.scheduleBaseDay = firstStart === Infinity ? 0 : Math.floor(firstStart);
+    this.taskCalendars = createCalendarResolver(this.getProjectCalendar(), this.getNamedCalendars(), this.scheduleBaseDay);
+}
+
+/** Data date from the format pane in schedule time, or null when not set */
+private getDataDateTime(): number | null {
+    const day = parseDayNumber(this.settings?.progress?.dataDate?.value);
+    return day === null ? null : day - this.scheduleBaseDay;
+}
+
+private getRequiredFinishTime(): number | null {
+    const day = parseDayNumber(this.settings?.projectEndLine?.requiredFinish?.value);
+    return day === null ? null : day - this.scheduleBaseDay;
+}
+
+/** The project's required finish: the setting, or else the latest Required Finish in the data */
+private getRequiredFinishDate(): Date | null {
+    const day = parseDayNumber(this.settings?.projectEndLine?.requiredFinish?.value);
+    if (day !== null) return fromLocalDayNumber(day);
+    let latest: Date | null = null;
+    this.allTasksData.forEach(task => {
+        if (task.requiredFinish instanceof Date && (!latest || task.requiredFinish > latest)) latest = task.requiredFinish;
+    });
+    return latest;
+}
+
+private getProgressTimes(task: Task): ProgressFields {
+    const toTime = (date: Date | null | undefined) => date instanceof Date ? toLocalDayNumber(date) - this.scheduleBaseDay : null;
+    return {
+        percentComplete: task.percentComplete ?? null,
+        actualStart: toTime(task.actualStart),
+        actualFinish: toTime(task.actualFinish),
+        remainingDuration: task.remainingDuration ?? null,
+    };
+}
+
+/** Float value compared against the near-critical threshold */
+private getNearCriticalFloat(task: Task): number {
+    if (this.settings?.displayOptions?.nearCriticalBasis?.value?.value === 'freeFloat') {
+        return task.freeFloat ?? Infinity;
+    }
+    return task.totalFloat;
+}
+
+private getCriticalityMode(): CriticalityMode {
+    return this.settings?.displayOptions?.criticalityMode?.value?.value === 'longestPath' ? 'longestPath' : 'totalFloat';
+}
+
+/**
+ * Runs CPM (and the risk simulation) in the worker. Resolves false when a
+ * newer request replaced this one before it finished, in which case the
+ * results were not applied.
+ */
+private calculateCPMOffThread(): Promise<boolean> {
+    this.cancelPendingCpmRequest();
+    this.ensureCpmWorker();
+    this.prepareProjectCalendar();
+    if (this.allTasksData.length === 0 || this.hasUnresolvedCycles) {
         this.calculateCPM();
-        return Promise.resolve();
+        return Promise.resolve(true);
     }
+    const input = this.buildCpmInput();
+    const scheduleHash = hashCpmInput(input);
+    if (this.applyCachedCpm(input, scheduleHash)) {
+        return Promise.resolve(true);
+    }
+    if (!this.cpmWorker) {
+        this.runCpmOnMainThread(input, scheduleHash);
+        return Promise.resolve(true);
+    }
+    const requestId = ++this.cpmRequestId;
+    // Large schedules travel as typed arrays whose buffers are transferred, not copied
+    const payload = input.tasks.length >= PACKED_TASK_THRESHOLD ? packCpmInput(input) : input;
+    const request: CpmWorkerRequest = { type: 'run', requestId, input: payload };
     return new Promise(resolve => {
-        const handler = (event: MessageEvent) => {
-            const { tasks, relationships } = event.data;
-            this.cpmWorker!.removeEventListener('message', handler);
-            tasks.forEach((res: any) => {
-                const task = this.taskIdToTask.get(res.internalId);
-                if (task) {
-                    task.earlyStart = res.earlyStart;
-                    task.earlyFinish = res.earlyFinish;
-                    task.lateStart = res.lateStart;
-                    task.lateFinish = res.lateFinish;
-                    task.totalFloat = res.totalFloat;
-                    task.violatesConstraints = res.violatesConstraints;
-                    task.isCritical = res.isCritical;
-                    task.isCriticalByFloat = res.isCriticalByFloat;
-                    task.isCriticalByRel = res.isCriticalByRel;
-                    task.isNearCritical = res.isNearCritical;
-                }
-            });
-            relationships.forEach((relRes: any) => {
-                const rel = this.relationships.find(r => r.predecessorId === relRes.predecessorId && r.successorId === relRes.successorId);
-                if (rel) {
-                    rel.isCritical = relRes.isCritical;
-                }
-            });
-            resolve();
-        };
-        this.cpmWorker!.addEventListener('message', handler);
-        const base = this.allTasksData.reduce((m, t) => Math.min(m, t.startDate ? t.startDate.getTime() : m), Infinity);
-        const dayMs = 1000 * 60 * 60 * 24;
-        this.cpmWorker!.postMessage({
-            tasks: this.allTasksData.map(t => ({
-                internalId: t.internalId,
-                start: t.startDate ? (t.startDate.getTime() - base) / dayMs : 0,
-                finish: t.finishDate ? (t.finishDate.getTime() - base) / dayMs : 0,
-                predecessorIds: t.predecessorIds,
-                relationshipTypes: t.relationshipTypes,
-                relationshipLags: t.relationshipLags,
-            })),
-            relationships: this.relationships.map(r => ({
-                predecessorId: r.predecessorId,
-                successorId: r.successorId,
-                type: r.type,
-                freeFloat: r.freeFloat,
-                lag: r.lag,
-            })),
-            floatTolerance: this.floatTolerance,
-            floatThreshold: this.floatThreshold,
-            unconstrainedMode: this.settings.displayOptions?.unconstrainedMode?.value || false,
-        });
+        this.pendingCpmRequest = { requestId, input, scheduleHash, resolve };
+        this.showCpmProgress('analysis', 0);
+        this.cpmWorker!.postMessage(request, isPacked(payload) ? transferablesOf(payload) : []);
+    });
+}
+
+/** Tells the worker to drop the outstanding request, if any, and releases whoever awaits it */
+private cancelPendingCpmRequest(): void {
+    const pending = this.pendingCpmRequest;
+    if (!pending) return;
+    this.pendingCpmRequest = null;
+    const cancel: CpmWorkerRequest = { type: 'cancel', requestId: pending.requestId };
+    this.cpmWorker?.postMessage(cancel);
+    this.hideCpmProgress();
+    pending.resolve(false);
+}
+
+private handleCpmWorkerReply(reply: CpmWorkerReply): void {
+    if (this.pendingPathTest && reply.requestId === this.pendingPathTest.requestId) {
+        this.handlePathTestReply(reply);
+        return;
+    }
+    const pending = this.pendingCpmRequest;
+    // Replies to cancelled or superseded requests are stale
+    if (!pending || reply.requestId !== pending.requestId) return;
+    if (reply.type === 'progress') {
+        this.showCpmProgress(reply.stage, reply.fraction);
+        return;
+    }
+    if (reply.type === 'error') {
+        console.error("CPM worker error:", reply.message);
+        this.abandonCpmWorker();
+        return;
+    }
+    this.pendingCpmRequest = null;
+    this.hideCpmProgress();
+    if (reply.type === 'result') {
+        const result = isPacked(reply.result) ? unpackCpmResponse(reply.result, pending.input) : reply.result;
+        this.cpmCache.set(pending.scheduleHash, cpmVariantKey(pending.input), result);
+        this.applyCpmResponse(pending.input, result);
+    }
+    pending.resolve(reply.type === 'result');
+}
+
+/**
+ * Runs the critical path test on each task in the worker, or on the main
+ * thread in chunks without one. Resolves null when a newer test replaced
+ * this one.
+ */
+private runCriticalPathTestsOffThread(input: CpmInput, taskIds: string[], delay: number): Promise<CriticalPathTestResult[] | null> {
+    this.cancelPendingPathTest();
+    this.ensureCpmWorker();
+    const requestId = ++this.cpmRequestId;
+    const request: CpmWorkerRequest = { type: 'pathTest', requestId, input, taskIds, delay };
+    return new Promise(resolve => {
+        this.pendingPathTest = { requestId, input, taskIds, delay, resolve };
+        this.showCpmProgress('pathTest', 0);
+        if (this.cpmWorker) {
+            this.cpmWorker.postMessage(request);
+        } else {
+            this.runPendingPathTestOnMainThread();
+        }
+    });
+}
+
+/**
+ * Runs the pending critical path tests on the main thread, yielding between
+ * batches as the worker does so the visual stays responsive. A cancel stops
+ * it at the next batch.
+ */
+private async runPendingPathTestOnMainThread(): Promise<void> {
+    const pending = this.pendingPathTest;
+    if (!pending) return;
+    const test = criticalPathTester(pending.input, pending.delay);
+    const results: CriticalPathTestResult[] = [];
+    for (let i = 0; i < pending.taskIds.length; i++) {
+        if (i % PATH_TEST_BATCH === 0) {
+            this.showCpmProgress('pathTest', i / pending.taskIds.length);
+            await new Promise<void>(resolve => setTimeout(resolve, 0));
+            if (this.pendingPathTest !== pending) return;
+        }
+        const result = test(pending.taskIds[i]);
+        if (result) results.push(result);
+    }
+    this.pendingPathTest = null;
+    this.hideCpmProgress();
+    pending.resolve(results);
+}
+
+private cancelPendingPathTest(): void {
+    const pending = this.pendingPathTest;
+    if (!pending) return;
+    this.pendingPathTest = null;
+    const cancel: CpmWorkerRequest = { type: 'cancel', requestId: pending.requestId };
+    this.cpmWorker?.postMessage(cancel);
+    this.hideCpmProgress();
+    pending.resolve(null);
+}
+
+private handlePathTestReply(reply: CpmWorkerReply): void {
+    const pending = this.pendingPathTest!;
+    if (reply.type === 'progress') {
+        this.showCpmProgress(reply.stage, reply.fraction);
+        return;
+    }
+    if (reply.type === 'error') {
+        console.error("Critical path test failed in the worker:", reply.message);
+        this.runPendingPathTestOnMainThread();
+        return;
+    }
+    this.pendingPathTest = null;
+    this.hideCpmProgress();
+    pending.resolve(reply.type === 'pathTestResult' ? reply.results : null);
+}
+
+/**
+ * Delays the selected task, or every open critical task in turn, and keeps
+ * the outcome for the health panel until the schedule changes.
+ */
+private async startCriticalPathTest(mode: 'selected' | 'batch'): Promise<void> {
+    if (this.hasUnresolvedCycles) return;
+    const taskIds = mode === 'selected'
+        ? (this.selectedTaskId && this.taskIdToTask.has(this.selectedTaskId) ? [this.selectedTaskId] : [])
+        : this.allTasksData
+            .filter(t => t.isCritical && getProgressStatus(this.getProgressTimes(t)) !== 'completed')
+            .map(t => t.internalId);
+    if (taskIds.length === 0) return;
+
+    const input = this.buildCpmInput();
+    const run = ++this.pathTestRun;
+    this.pathTestRunning = true;
+    this.drawDcmaPanel();
+    const results = await this.runCriticalPathTestsOffThread(input, taskIds, this.settings.dcma.testDelay.value);
+    // A newer test owns the panel now
+    if (run !== this.pathTestRun) return;
+    this.pathTestRunning = false;
+    if (results) {
+        this.pathTestResults = { scheduleHash: hashCpmInput(input), mode, results };
+    }
+    this.drawDcmaPanel();
+}
+
+private showCpmProgress(stage: CpmStage, fraction: number): void {
+    if (!this.cpmProgressDiv) return;
+    const percent = Math.round(Math.max(0, Math.min(1, fraction)) * 100);
+    this.cpmProgressDiv.style("display", "block");
+    this.cpmProgressDiv.select(".cpm-progress-label")
+        .text(stage === 'simulation' ? `Simulating risk... ${percent}%` : stage === 'pathTest' ? `Testing critical path... ${percent}%` : "Calculating critical path...");
+    this.cpmProgressDiv.select(".cpm-progress-bar")
+        .style("width", `${stage === 'analysis' ? 0 : percent}%`);
+}
+
+private hideCpmProgress(): void {
+    this.cpmProgressDiv?.style("display", "none");
+}
+
+/**
+ * Engine input for the current data and format settings, in days relative
+ * to the schedule base day. The same payload goes to the worker and to the
+ * main-thread fallback.
+ */
+private buildCpmInput(trace: CpmTrace | null = null): CpmInput {
+    return {
+        tasks: this.buildWorkerTasks(),
+        relationships: this.relationships.map(r => ({
+            predecessorId: r.predecessorId,
+            successorId: r.successorId,
+            type: r.type,
+            freeFloat: r.freeFloat,
+            lag: r.lag,
+        })),
+        floatTolerance: this.floatTolerance,
+        floatThreshold: this.floatThreshold,
+        unconstrainedMode: this.settings.displayOptions?.unconstrainedMode?.value || false,
+        baseDay: this.scheduleBaseDay,
+        calendar: this.getProjectCalendar(),
+        calendars: this.getNamedCalendars(),
+        criticalityMode: this.getCriticalityMode(),
+        nearCriticalBasis: this.settings.displayOptions?.nearCriticalBasis?.value?.value === 'freeFloat' ? 'freeFloat' : 'totalFloat',
+        monteCarlo: trace ? null : this.getMonteCarloOptions(),
+        dataDate: this.getDataDateTime(),
+        requiredFinish: this.getRequiredFinishTime(),
+        trace,
+    };
+}
+
+/** Task payload for the CPM engine, in days relative to the schedule base day */
+private buildWorkerTasks(): CpmTask[] {
+    const baseDay = this.scheduleBaseDay;
+    return this.allTasksData.map(t => ({
+        internalId: t.internalId,
+        start: t.startDate ? toLocalDayNumber(t.startDate) - baseDay : 0,
+        finish: t.finishDate ? toLocalDayNumber(t.finishDate) - baseDay : 0,
+        duration: t.duration,
+        predecessorIds: t.predecessorIds,
+        relationshipTypes: t.relationshipTypes,
+        relationshipLags: t.relationshipLags,
+        calendar: t.calendarName ?? null,
+        taskType: t.type,
+        constraintType: t.constraintType ?? null,
+        constraintDate: this.getConstraintTime(t),
+        requiredFinish: t.requiredFinish instanceof Date ? toLocalDayNumber(t.requiredFinish) - baseDay : null,
+        optimisticDuration: t.optimisticDuration ?? null,
+        mostLikelyDuration: t.mostLikelyDuration ?? null,
+        pessimisticDuration: t.pessimisticDuration ?? null,
+        ...this.getProgressTimes(t),
+    }));
+}
+
+/** Copies engine results (from the worker or the main thread) onto the tasks and links */
+private applyCpmResults(result: CpmResult): void {
+    result.tasks.forEach(res => {
+        const task = this.taskIdToTask.get(res.internalId);
+        if (!task) return;
+        task.duration = res.duration;
+        task.earlyStart = res.earlyStart;
+        task.earlyFinish = res.earlyFinish;
+        task.lateStart = res.lateStart;
+        task.lateFinish = res.lateFinish;
+        task.totalFloat = res.totalFloat;
+        task.freeFloat = res.freeFloat;
+        task.violatesConstraints = res.violatesConstraints;
+        task.violatedConstraint = res.violatedConstraint;
+        task.isCritical = res.isCritical;
+        task.isCriticalByFloat = res.isCriticalByFloat;
+        task.isCriticalByRel = res.isCriticalByRel;
+        task.isNearCritical = res.isNearCritical;
+        task.drivenTargets = undefined;
+    });
+    const relsByKey = new Map<string, Relationship>();
+    this.relationships.forEach(r => relsByKey.set(`${r.predecessorId}->${r.successorId}`, r));
+    result.relationships.forEach(relRes => {
+        const rel = relsByKey.get(`${relRes.predecessorId}->${relRes.successorId}`);
+        if (rel) {
+            rel.isCritical = relRes.isCritical;
+            rel.isDriving = relRes.isDriving;
+        }
+    });
+}
+
+/** Simulation settings, or null when the simulation is off or no task has a three-point estimate */
+private getMonteCarloOptions(): MonteCarloOptions | null {
+    const settings = this.settings.riskAnalysis;
+    if (!settings.enableSimulation.value) return null;
+    if (!this.allTasksData.some(t => t.optimisticDuration != null && t.pessimisticDuration != null)) return null;
+    return {
+        iterations: Math.round(settings.iterations.value),
+        seed: Math.round(settings.seed.value),
+        distribution: settings.distribution.value.value === 'triangular' ? 'triangular' : 'pert',
+    };
+}
+
+private setRiskResult(result: MonteCarloResult | null): void {
+    this.riskResult = result;
+    this.allTasksData.forEach(task => {
+        task.criticalityIndex = result ? result.criticalityIndex[task.internalId] : undefined;
     });
 }
 
-private calculateCPM(): void {
+/**
+ * Runs the shared CPM engine on the main thread, optionally traced to or
+ * from one task. Without a trace this is the fallback for the worker and
+ * also runs the risk simulation.
+ */
+private calculateCPM(trace: CpmTrace | null = null): void {
     const useUnconstrained = this.settings.displayOptions?.unconstrainedMode?.value || false;
     this.debugLog(`Starting ${useUnconstrained ? 'unconstrained' : 'schedule-based'} CPM calculation...`);
     const startTime = performance.now();
@@ -3409,348 +4902,147 @@ private calculateCPM(): void {
         return;
     }
 
-    const cycleCheck = this.detectAndReportCycles();
-    if (cycleCheck.hasCycles) {
-        console.error("Cannot calculate critical path: Circular dependencies detected!");
-        this.displayMessage("Error: Circular dependencies in schedule. Please fix before selecting tasks.");
+    this.prepareProjectCalendar();
+    if (this.hasUnresolvedCycles) {
+        // Loops have no critical path: plot (and sort) by the data dates alone
+        console.warn("Skipping critical path: circular dependencies detected.");
+        this.allTasksData.forEach(t => {
+            if (t.startDate) t.earlyStart = toLocalDayNumber(t.startDate) - this.scheduleBaseDay;
+            if (t.finishDate) t.earlyFinish = toLocalDayNumber(t.finishDate) - this.scheduleBaseDay;
+        });
+        if (!trace) this.setRiskResult(null);
         return;
     }
 
-    if (useUnconstrained) {
-        this.runUnconstrainedAnalysis(this.allTasksData, this.relationships, this.floatTolerance, this.floatThreshold);
-    } else {
-        this.runScheduleAnalysis(this.allTasksData, this.relationships, this.floatTolerance, this.floatThreshold);
+    const input = this.buildCpmInput(trace);
+    const scheduleHash = hashCpmInput(input);
+    if (this.applyCachedCpm(input, scheduleHash)) {
+        this.debugLog("CPM results reused: schedule unchanged.");
+        return;
     }
+    this.runCpmOnMainThread(input, scheduleHash);
 
     const endTime = performance.now();
     this.debugLog(`CPM calculation completed in ${endTime - startTime}ms for ${this.allTasksData.length} tasks.`);
 }
 
-private calculateCPMToTask(targetTaskId: string | null): void {
-    this.debugLog(`Calculating schedule-based CPM to task: ${targetTaskId || "None (full project)"}`);
-    const startTime = performance.now();
+private runCpmOnMainThread(input: CpmInput, scheduleHash: string): void {
+    const response = handleCpmRequest(input);
+    this.cpmCache.set(scheduleHash, cpmVariantKey(input), response);
+    this.applyCpmResponse(input, response);
+}
 
-    if (this.allTasksData.length === 0) {
-        this.debugLog("No tasks for CPM.");
-        return;
-    }
+/** Applies results cached for the same schedule content; false when they still need calculating */
+private applyCachedCpm(input: CpmInput, scheduleHash: string): boolean {
+    const cached = this.cpmCache.get(scheduleHash, cpmVariantKey(input));
+    if (!cached) return false;
+    this.applyCpmResponse(input, cached);
+    return true;
+}
 
-    this.calculateCPM();
+/** Applies a response and, for the whole network, its risk simulation */
+private applyCpmResponse(input: CpmInput, response: CpmResponse): void {
+    this.applyCpmResults(response);
+    if (!input.trace) this.setRiskResult(response.monteCarlo ?? null);
+}
 
-    if (!targetTaskId) {
+private calculateCPMToTask(targetTaskId: string | null): void {
+    this.debugLog(`Calculating CPM to task: ${targetTaskId || "None (full project)"}`);
+    this.cancelPendingCpmRequest();
+    this.calculateCPM(targetTaskId ? { targetId: targetTaskId, direction: 'backward' } : null);
+    if (!targetTaskId || this.hasUnresolvedCycles) {
         return;
     }
-
-    const tasksInPathToTarget = this.identifyAllPredecessorTasksOptimized(targetTaskId);
-    this.calculateFloatAndCriticalityForSubset(tasksInPathToTarget, targetTaskId);
-
-    const endTime = performance.now();
-    this.debugLog(`CPM to task ${targetTaskId} completed in ${endTime - startTime}ms.`);
+    this.calculateFloatPaths([targetTaskId], this.identifyAllPredecessorTasksOptimized(targetTaskId));
 }
+
 private calculateCPMFromTask(targetTaskId: string | null): void {
-    this.debugLog(`Calculating schedule-based forward CPM from task: ${targetTaskId || "None (full project)"}`);
-    const startTime = performance.now();
-    if (this.allTasksData.length === 0) {
-        this.debugLog("No tasks for CPM.");
+    this.debugLog(`Calculating forward CPM from task: ${targetTaskId || "None (full project)"}`);
+    this.cancelPendingCpmRequest();
+    this.calculateCPM(targetTaskId ? { targetId: targetTaskId, direction: 'forward' } : null);
+    if (!targetTaskId || this.hasUnresolvedCycles) {
         return;
     }
-    this.calculateCPM();
-    if (!targetTaskId) {
-        return;
-    }
-    const tasksInPath = this.identifyAllSuccessorTasksOptimized(targetTaskId);
-    this.calculateFloatAndCriticalityForSubset(tasksInPath, targetTaskId);
-    const endTime = performance.now();
-    this.debugLog(`CPM forward from task ${targetTaskId} completed in ${endTime - startTime}ms.`);
+    this.calculateFloatPaths([targetTaskId], this.identifyAllSuccessorTasksOptimized(targetTaskId), 'forward');
 }
 
+/** Traces the logic joining two tasks and returns the tasks on paths from the source to the target */
+private calculateCPMBetweenTasks(sourceTaskId: string, targetTaskId: string): Set<string> {
+    this.debugLog(`Calculating CPM between tasks: ${sourceTaskId} -> ${targetTaskId}`);
+    this.cancelPendingCpmRequest();
+    this.calculateCPM({ targetId: targetTaskId, direction: 'between', sourceId: sourceTaskId });
+    // The longest path between the two is the only one highlighted
+    this.calculateFloatPaths([], null);
+    const downstream = this.identifyAllSuccessorTasksOptimized(sourceTaskId);
+    return new Set(Array.from(this.identifyAllPredecessorTasksOptimized(targetTaskId)).filter(id => downstream.has(id)));
+}
 
-
-private topologicalSortOptimized(tasks: Task[]): Task[] {
-    this.debugLog("Starting optimized topological sort...");
-    const startTime = performance.now();
-    
-    const result: Task[] = [];
-    const visited = new Set<string>();
-    const temp = new Set<string>();
-    
-    // Memoization cache for predecessor resolution
-    const predCache = new Map<string, Task[]>();
-    
-    // Function to get cached predecessors
-    const getCachedPredecessors = (taskId: string): Task[] => {
-        if (predCache.has(taskId)) {
-            return predCache.get(taskId)!;
-        }
-        
-        const task = this.taskIdToTask.get(taskId);
-        if (!task) return [];
-        
-        const preds = task.predecessorIds
-            .map(id => this.taskIdToTask.get(id))
-            .filter(t => t !== undefined) as Task[];
-            
-        predCache.set(taskId, preds);
-        return preds;
-    };
-    
-    // Visit function with memoization
-    const visit = (taskId: string): void => {
-        // Skip if already visited
-        if (visited.has(taskId)) return;
-        
-        // Check for cycles
-        if (temp.has(taskId)) {
-            console.warn(`Cycle detected in dependency graph at task ${taskId}`);
-            return;
-        }
-        
-        // Mark as temporarily visited
-        temp.add(taskId);
-        
-        // Get the task
-        const task = this.taskIdToTask.get(taskId);
-        if (!task) return;
-        
-        // Visit predecessors first (using cached predecessors)
-        getCachedPredecessors(taskId).forEach(pred => {
-            visit(pred.internalId);
-        });
-        
-        // Mark as permanently visited
-        temp.delete(taskId);
-        visited.add(taskId);
-        
-        // Add to result
-        result.push(task);
-    };
-    
-    // Use an index structure for faster lookups when processing many tasks
-    const taskIdIndex = new Map<string, Task>();
-    tasks.forEach(task => {
-        taskIdIndex.set(task.internalId, task);
+/**
+ * Traces to (or from) each target in turn. A task is critical when it is on
+ * any target's driving path and records which targets it drives; the return
+ * value is every task linked to a target.
+ */
+private calculateCPMForTargets(targetIds: string[], direction: "backward" | "forward"): Set<string> {
+    const drivingPaths = new Map<string, Set<string>>();
+    const nearCritical = new Set<string>();
+    const criticalLinks = new Set<Relationship>();
+    const linked = new Set<string>();
+    this.debugLog(`Calculating ${direction} CPM for targets: ${targetIds.join(", ")}`);
+    this.cancelPendingCpmRequest();
+    // Per-target colours take the place of float paths, so each trace skips them
+    targetIds.forEach(targetId => {
+        this.calculateCPM({ targetId, direction });
+        drivingPaths.set(targetId, new Set(this.allTasksData.filter(t => t.isCritical).map(t => t.internalId)));
+        this.allTasksData.forEach(t => { if (t.isNearCritical) nearCritical.add(t.internalId); });
+        this.relationships.forEach(rel => { if (rel.isCritical) criticalLinks.add(rel); });
+        (direction === "forward" ? this.identifyAllSuccessorTasksOptimized(targetId) : this.identifyAllPredecessorTasksOptimized(targetId))
+            .forEach(id => linked.add(id));
     });
-    
-    // Visit all tasks
-    tasks.forEach(task => {
-        if (!visited.has(task.internalId)) {
-            visit(task.internalId);
-        }
+    this.calculateFloatPaths([], null);
+    const membership = drivenTargets(targetIds, drivingPaths);
+    this.allTasksData.forEach(task => {
+        task.drivenTargets = membership.get(task.internalId);
+        task.isCritical = task.drivenTargets !== undefined;
+        task.isNearCritical = !task.isCritical && nearCritical.has(task.internalId);
     });
-    
-    const endTime = performance.now();
-    this.debugLog(`Topological sort completed in ${endTime - startTime}ms for ${tasks.length} tasks with ${result.length} sorted tasks.`);
-    
-    return result;
+    this.relationships.forEach(rel => { rel.isCritical = criticalLinks.has(rel); });
+    return linked;
 }
 
-private performOptimizedForwardPass(tasks: Task[]): Task[] {
-    this.debugLog("Starting optimized forward pass...");
-    const startTime = performance.now();
-    
-    // Create an efficient data structure for task lookup
-    const taskMap = this.taskIdToTask;
-    
-    // Use a priority queue for task processing
-    const processingQueue = new PriorityQueue<Task>();
-    const inDegree = new Map<string, number>();
-    
-    // Initialize in-degree for all tasks
-    tasks.forEach(task => {
-        task.predecessors = task.predecessorIds
-            .map(id => taskMap.get(id))
-            .filter(t => t !== undefined) as Task[];
-            
-        const degree = task.predecessors.length;
-        inDegree.set(task.internalId, degree);
-        
-        // Reset CPM values
-        task.earlyStart = 0;
-        task.earlyFinish = task.duration;
-        
-        // Add tasks with no predecessors to the queue
-        if (degree === 0) {
-            processingQueue.enqueue(task, task.earlyStart ?? 0);
-        }
-    });
-    
-    // Process queue in topological order
-    const processedTasks = new Map<string, boolean>();
-    const sortedTasks: Task[] = [];
-    
-    while (processingQueue.size() > 0) {
-        const currentTask = processingQueue.dequeue()!;
-        sortedTasks.push(currentTask);
-        processedTasks.set(currentTask.internalId, true);
-        
-        // Pre-compute and cache successors
-        const succIds = this.predecessorIndex.get(currentTask.internalId) || new Set<string>();
-        currentTask.successors = Array.from(succIds)
-            .map(id => this.taskIdToTask.get(id))
-            .filter((t): t is Task => t !== undefined);
-        
-        for (const successor of currentTask.successors) {
-            const successorId = successor.internalId;
-            const relationshipType = successor.relationshipTypes[currentTask.internalId] || 'FS';
-            const lag = successor.relationshipLags[currentTask.internalId] || 0;
-            
-            let potentialStartTime = 0;
-            
-            switch (relationshipType) {
-                case 'FS': potentialStartTime = currentTask.earlyFinish + lag; break;
-                case 'SS': potentialStartTime = currentTask.earlyStart + lag; break;
-                case 'FF': potentialStartTime = currentTask.earlyFinish - successor.duration + lag; break;
-                case 'SF': potentialStartTime = currentTask.earlyStart - successor.duration + lag; break;
-                default: potentialStartTime = currentTask.earlyFinish + lag;
-            }
-            
-            successor.earlyStart = Math.max(successor.earlyStart ?? 0, Math.max(0, potentialStartTime));
-            successor.earlyFinish = successor.earlyStart + successor.duration;
-            
-            // Update in-degree and add to queue if ready
-            const currentInDegree = inDegree.get(successorId);
-            if (currentInDegree !== undefined && currentInDegree > 0) {
-                const newInDegree = currentInDegree - 1;
-                inDegree.set(successorId, newInDegree);
-                if (newInDegree === 0) {
-                    processingQueue.enqueue(successor, successor.earlyStart ?? 0);
-                }
-            }
-        }
-    }
-    
-    // Handle cycles if any tasks weren't processed
-    const cycleDetected = processedTasks.size < tasks.length;
-    if (cycleDetected) {
-        this.handleCyclesInForwardPass(tasks, processedTasks);
-    }
-    
-    const endTime = performance.now();
-    this.debugLog(`Forward pass completed in ${endTime - startTime}ms for ${tasks.length} tasks.`);
-    
-    return sortedTasks;
+/** Targets of a multi-target trace still in the data; empty when tracing to one task or between two */
+private getTraceTargets(): string[] {
+    if (this.traceMode === "between" || !this.settings.taskSelection.enableTaskSelection.value) return [];
+    const targets = this.traceTargetIds.filter(id => this.taskIdToTask.has(id));
+    return targets.length > 1 ? targets : [];
 }
 
-private handleCyclesInForwardPass(tasks: Task[], processedTasks: Map<string, boolean>): void {
-    console.warn("Cycle detected in task dependencies. Attempting to resolve...");
-    
-    // Use a relaxation approach for tasks involved in cycles
-    const maxIterations = tasks.length * 2; // Cap the iterations to avoid infinite loops
-    let changed = true;
-    let iteration = 0;
-    
-    while (changed && iteration < maxIterations) {
-        changed = false;
-        iteration++;
-        
-        for (const task of tasks) {
-            // Skip tasks already processed normally
-            if (processedTasks.has(task.internalId)) continue;
-            
-            // Get the task's predecessors
-            const predecessors = task.predecessors;
-            if (predecessors.length === 0) continue;
-            
-            // Calculate best early start based on predecessors
-            let newEarlyStart = 0;
-            for (const pred of predecessors) {
-                const lag = task.relationshipLags[pred.internalId] || 0;
-                const relType = task.relationshipTypes[pred.internalId] || 'FS';
-                
-                let predRequiredStart = 0;
-                switch (relType) {
-                    case 'FS': predRequiredStart = (pred.earlyFinish || 0) + lag; break;
-                    case 'SS': predRequiredStart = (pred.earlyStart || 0) + lag; break;
-                    case 'FF': predRequiredStart = (pred.earlyFinish || 0) - task.duration + lag; break;
-                    case 'SF': predRequiredStart = (pred.earlyStart || 0) - task.duration + lag; break;
-                    default: predRequiredStart = (pred.earlyFinish || 0) + lag;
-                }
-                
-                newEarlyStart = Math.max(newEarlyStart, predRequiredStart);
-            }
-            
-            // If we get a better (later) early start, update
-            if (newEarlyStart > task.earlyStart) {
-                task.earlyStart = newEarlyStart;
-                task.earlyFinish = task.earlyStart + task.duration;
-                changed = true;
-            }
-        }
-    }
-    
-    this.debugLog(`Cycle resolution completed in ${iteration} iterations.`);
+private formatDrivenTargets(task: Task): string {
+    return (task.drivenTargets ?? []).map(id => this.taskIdToTask.get(id)?.name || id).join(", ");
 }
 
-private performOptimizedBackwardPass(tasks: Task[], projectEndDate: number): void {
-    this.debugLog("Starting optimized backward pass...");
-    const startTime = performance.now();
-    
-    // Prepare successors cache for all tasks using predecessorIndex
-    const successorCache = new Map<string, Task[]>();
+private getTraceTargetColor(targetId: string): string {
+    const index = Math.max(0, this.traceTargetIds.indexOf(targetId));
+    return TRACE_TARGET_COLORS[index % TRACE_TARGET_COLORS.length];
+}
 
-    tasks.forEach((task: Task) => {
-        const successorIds = this.predecessorIndex.get(task.internalId) || new Set<string>();
-        const successors = Array.from(successorIds)
-            .map(id => this.taskIdToTask.get(id))
-            .filter((t): t is Task => t !== undefined);
-        successorCache.set(task.internalId, successors);
-        task.successors = successors;
-        
-        // Initialize late dates
-        if (successors.length === 0) {
-            task.lateFinish = projectEndDate;
-            task.lateStart = Math.max(0, task.lateFinish - task.duration);
-        } else {
-            task.lateFinish = Infinity;
-            task.lateStart = Infinity;
-        }
-    });
-    
-    // Get a topologically sorted list in reverse order
-    const sortedTasks = this.topologicalSortOptimized(tasks);
-    const reverseSortedTasks = [...sortedTasks].reverse();
-    
-    // Process tasks in reverse topological order
-    for (const task of reverseSortedTasks) {
-        if (task.successors.length === 0) continue; // Skip if no successors
-        
-        // Get cached successors
-        const successors = successorCache.get(task.internalId) || [];
-        
-        let minSuccessorRequirement = Infinity;
-        
-        for (const successor of successors) {
-            if (successor.lateStart === undefined || isNaN(successor.lateStart) || 
-                successor.lateStart === Infinity || successor.lateFinish === undefined || 
-                isNaN(successor.lateFinish)) continue;
-            
-            const lag = successor.relationshipLags[task.internalId] || 0;
-            const relationshipType = successor.relationshipTypes[task.internalId] || 'FS';
-            
-            let requiredFinishTime = Infinity;
-            
-            switch (relationshipType) {
-                case 'FS': requiredFinishTime = successor.lateStart - lag; break;
-                case 'SS': requiredFinishTime = successor.lateStart - lag + task.duration; break;
-                case 'FF': requiredFinishTime = successor.lateFinish - lag; break;
-                case 'SF': requiredFinishTime = successor.lateFinish - lag - successor.duration + task.duration; break;
-                default: requiredFinishTime = successor.lateStart - lag;
-            }
-            
-            minSuccessorRequirement = Math.min(minSuccessorRequirement, requiredFinishTime);
-        }
-        
-        if (minSuccessorRequirement !== Infinity) {
-            task.lateFinish = minSuccessorRequirement;
-        } else {
-            task.lateFinish = projectEndDate;
-        }
-        
-        task.lateStart = Math.max(0, task.lateFinish - task.duration);
-    }
-    
-    const endTime = performance.now();
-    this.debugLog(`Backward pass completed in ${endTime - startTime}ms for ${tasks.length} tasks.`);
+/** Fill of a task on a multi-target trace: its target's colour, or the critical colour when it drives several */
+private getDrivenTargetFill(task: Task, criticalColor: string): string | null {
+    if (!task.drivenTargets) return null;
+    return task.drivenTargets.length > 1 ? criticalColor : this.getTraceTargetColor(task.drivenTargets[0]);
+}
+
+/**
+ * Ends of a "between" trace in logic order, whichever of the two was picked
+ * first. Null outside that mode or until a second task is picked.
+ */
+private getBetweenEndpoints(): { sourceId: string; targetId: string } | null {
+    const firstId = this.selectedTaskId;
+    const secondId = this.secondTaskId;
+    if (this.traceMode !== "between" || !this.settings.taskSelection.enableTaskSelection.value) return null;
+    if (!firstId || !secondId || firstId === secondId || !this.taskIdToTask.has(secondId)) return null;
+    return this.identifyAllSuccessorTasksOptimized(firstId).has(secondId)
+        ? { sourceId: firstId, targetId: secondId }
+        : { sourceId: secondId, targetId: firstId };
 }
 
 private identifyAllPredecessorTasksOptimized(targetTaskId: string): Set<string> {
@@ -3802,125 +5094,58 @@ private identifyAllSuccessorTasksOptimized(sourceTaskId: string): Set<string> {
     return tasksInPathFromSource;
 }
 
-private calculateFloatAndCriticalityForSubset(taskSubset: Set<string>, targetTaskId: string | null = null): void {
-    // Calculate float for subset
-    this.allTasksData.forEach((task: Task) => {
-        // Mark all tasks not in subset as non-critical
-        if (!taskSubset.has(task.internalId)) {
-            task.isCritical = false;
-            task.isCriticalByFloat = false;
-            task.isCriticalByRel = false;
-            task.isNearCritical = false;
-            task.totalFloat = Infinity;
-            return;
-        }
-        
-        if (task.lateStart === undefined || isNaN(task.lateStart) || 
-            task.lateStart === Infinity || task.earlyStart === undefined || 
-            isNaN(task.earlyStart) || task.earlyStart === Infinity) {
-            task.totalFloat = Infinity;
-            task.isCriticalByFloat = false;
-            task.isNearCritical = false;
-        } else {
-            task.totalFloat = Math.max(0, task.lateStart - task.earlyStart);
-            task.isCriticalByFloat = task.totalFloat <= this.floatTolerance;
-            task.isNearCritical = !task.isCriticalByFloat && 
-                                task.totalFloat > this.floatTolerance && 
-                                task.totalFloat <= this.floatThreshold;
-        }
-        task.isCriticalByRel = false;
-    });
-    
-    // Determine relationship criticality for subset
-    const criticalRelationships = new Set<string>();
-    
+/**
+ * Numbers the float paths to (or forward from) the seed tasks when multiple
+ * float path analysis is enabled. Only relationships inside the subset are
+ * followed; a null subset means the whole project.
+ */
+private calculateFloatPaths(seedIds: string[], taskSubset: Set<string> | null, direction: 'backward' | 'forward' = 'backward'): void {
+    this.allTasksData.forEach(task => { task.floatPath = undefined; });
+    if (!this.settings.floatPaths.show.value || seedIds.length === 0 || this.hasUnresolvedCycles) return;
+
+    const links: FloatPathLink[] = [];
     this.relationships.forEach((rel: Relationship) => {
-        const pred = this.taskIdToTask.get(rel.predecessorId);
-        const succ = this.taskIdToTask.get(rel.successorId);
-        
-        // Skip relationships not in subset
-        if (!pred || !succ || 
-            !taskSubset.has(pred.internalId) || 
-            !taskSubset.has(succ.internalId)) {
-            rel.isCritical = false;
-            return;
-        }
-        
-        // Skip relationships with invalid dates
-        if (pred.earlyFinish === undefined || isNaN(pred.earlyFinish) || 
-            pred.earlyStart === undefined || isNaN(pred.earlyStart) ||
-            succ.earlyStart === undefined || isNaN(succ.earlyStart) || 
-            succ.earlyFinish === undefined || isNaN(succ.earlyFinish) ||
-            pred.isCriticalByFloat === undefined || succ.isCriticalByFloat === undefined) {
-            rel.isCritical = false;
-            return;
-        }
-        
-        // Use free float if provided
-        if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) {
-            rel.isCritical = rel.freeFloat <= this.floatTolerance;
-        } else {
-            // Otherwise, check if relationship is 'driving'
-            const relType = rel.type || 'FS';
-            const lag = rel.lag || 0;
-            
-            let isDriving = false;
-            try {
-                switch (relType) {
-                    case 'FS': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= this.floatTolerance; break;
-                    case 'SS': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyStart) <= this.floatTolerance; break;
-                    case 'FF': isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyFinish) <= this.floatTolerance; break;
-                    case 'SF': isDriving = Math.abs((pred.earlyStart + lag) - succ.earlyFinish) <= this.floatTolerance; break;
-                    default: isDriving = Math.abs((pred.earlyFinish + lag) - succ.earlyStart) <= this.floatTolerance;
-                }
-            } catch (e) { isDriving = false; }
-            
-            // Relationship is critical if driving AND connects two tasks critical by float
-            rel.isCritical = isDriving && pred.isCriticalByFloat && succ.isCriticalByFloat;
-        }
-        
-        // Mark connected tasks as critical by relationship
-        if (rel.isCritical) {
-            criticalRelationships.add(rel.predecessorId);
-            criticalRelationships.add(rel.successorId);
-        }
+        if (taskSubset && (!taskSubset.has(rel.predecessorId) || !taskSubset.has(rel.successorId))) return;
+        if (isSpanTaskType(this.taskIdToTask.get(rel.predecessorId)?.type) || isSpanTaskType(this.taskIdToTask.get(rel.successorId)?.type)) return;
+        const slack = this.getRelationshipSlack(rel);
+        if (slack !== null) links.push({ predecessorId: rel.predecessorId, successorId: rel.successorId, slack });
     });
-    
-    // Apply critical relationship flags
-    criticalRelationships.forEach(taskId => {
+
+    const maxPaths = Math.max(1, Math.round(this.settings.floatPaths.pathCount.value));
+    rankFloatPaths(seedIds, links, maxPaths, this.floatTolerance, direction).forEach((path, taskId) => {
         const task = this.taskIdToTask.get(taskId);
-        if (task && taskSubset.has(taskId)) {
-            task.isCriticalByRel = true;
-        }
-    });
-    
-    // Final criticality determination
-    this.allTasksData.forEach((task: Task) => {
-        if (!taskSubset.has(task.internalId)) {
-            task.isCritical = false;
-            task.isNearCritical = false;
-        } else if (task.totalFloat !== undefined && !isNaN(task.totalFloat) && task.totalFloat !== Infinity) {
-            task.isCritical = task.isCriticalByFloat || (task.isCriticalByRel ?? false);
-            task.isNearCritical = !task.isCritical && 
-                                task.totalFloat > this.floatTolerance && 
-                                task.totalFloat <= this.floatThreshold;
-        } else {
-            task.isCritical = task.isCriticalByRel ?? false;
-            task.isNearCritical = false;
-        }
+        if (task) task.floatPath = path;
     });
-    
-    // Ensure target task is always marked as critical if specified
-    if (targetTaskId) {
-        const targetTask = this.taskIdToTask.get(targetTaskId);
-        if (targetTask) {
-            targetTask.isCritical = true;
-            targetTask.isNearCritical = false;
-        }
-    }
 }
 
+/** Relationship free float in working days, or null when the dates are not calculated */
+private getRelationshipSlack(rel: Relationship): number | null {
+    if (rel.freeFloat !== null && !isNaN(rel.freeFloat)) return rel.freeFloat;
+    const pred = this.taskIdToTask.get(rel.predecessorId);
+    const succ = this.taskIdToTask.get(rel.successorId);
+    if (!pred || !succ || !isFinite(pred.earlyFinish) || !isFinite(succ.earlyStart) || !isFinite(succ.earlyFinish)) return null;
+    return relationshipSlack(rel.type || 'FS', rel.lag || 0, pred.earlyFinish, pred.duration, succ.earlyStart, succ.earlyFinish, this.taskCalendars(pred.calendarName));
+}
+
+private getFloatPathColor(path: number, criticalColor: string): string {
+    return path <= 1 ? criticalColor : FLOAT_PATH_COLORS[(path - 2) % FLOAT_PATH_COLORS.length];
+}
+
+/** Bands from the Float Bands card, or null when colouring by band is off */
+private getFloatBands(): FloatBand[] | null {
+    const card = this.settings.floatBands;
+    if (!card.show.value) return null;
+    const colors = [card.band1Color, card.band2Color, card.band3Color, card.band4Color, card.band5Color, card.band6Color].map(c => c.value.value);
+    const bands = buildFloatBands(parseBandLimits(card.bandLimits.value), colors);
+    return bands.length > 0 ? bands : null;
+}
 
+/** The band holding the task's total float, or null when bands are off or the task has no finite float */
+private getFloatBand(task: Task, bands: FloatBand[] | null): FloatBand | null {
+    if (!bands) return null;
+    const index = floatBandIndex(bands, task.totalFloat, this.floatTolerance);
+    return index >= 0 ? bands[index] : null;
+}
 
 /**
  * Extracts and validates task ID from a data row
@@ -3970,15 +5195,38 @@ private createTaskFromRow(row: any[], rowIndex: number): Task | null {
     const durationIdx = this.getColumnIndex(dataView, 'duration');
     const startDateIdx = this.getColumnIndex(dataView, 'startDate');
     const finishDateIdx = this.getColumnIndex(dataView, 'finishDate');
+    const calendarIdx = this.getColumnIndex(dataView, 'calendar');
+    const constraintTypeIdx = this.getColumnIndex(dataView, 'constraintType');
+    const constraintDateIdx = this.getColumnIndex(dataView, 'constraintDate');
+    const requiredFinishIdx = this.getColumnIndex(dataView, 'requiredFinish');
+    const optimisticIdx = this.getColumnIndex(dataView, 'optimisticDuration');
+    const mostLikelyIdx = this.getColumnIndex(dataView, 'mostLikelyDuration');
+    const pessimisticIdx = this.getColumnIndex(dataView, 'pessimisticDuration');
+    const percentCompleteIdx = this.getColumnIndex(dataView, 'percentComplete');
+    const actualStartIdx = this.getColumnIndex(dataView, 'actualStart');
+    const actualFinishIdx = this.getColumnIndex(dataView, 'actualFinish');
+    const remainingDurationIdx = this.getColumnIndex(dataView, 'remainingDuration');
+    const baselineStartIdx = this.getColumnIndex(dataView, 'baselineStart');
+    const baselineFinishIdx = this.getColumnIndex(dataView, 'baselineFinish');
     
     // Extract task properties
     const taskName = (nameIdx !== -1 && row[nameIdx] != null) 
         ? String(row[nameIdx]).trim() 
         : `Task ${taskId}`;
         
-    const taskType = (typeIdx !== -1 && row[typeIdx] != null) 
-        ? String(row[typeIdx]).trim() 
-        : 'TT_Task';
+    const taskType = typeIdx !== -1 ? normalizeTaskType(row[typeIdx]) : 'TT_Task';
+
+    const calendarName = (calendarIdx !== -1 && row[calendarIdx] != null)
+        ? String(row[calendarIdx]).trim()
+        : null;
+
+    const constraintType = constraintTypeIdx !== -1 ? normalizeConstraintType(row[constraintTypeIdx]) : null;
+    const constraintDate = (constraintDateIdx !== -1 && row[constraintDateIdx] != null)
+        ? this.parseDate(row[constraintDateIdx])
+        : null;
+    const requiredFinish = (requiredFinishIdx !== -1 && row[requiredFinishIdx] != null)
+        ? this.parseDate(row[requiredFinishIdx])
+        : null;
     
     // Parse dates
     const startDate = (startDateIdx !== -1 && row[startDateIdx] != null)
@@ -3987,6 +5235,18 @@ private createTaskFromRow(row: any[], rowIndex: number): Task | null {
     const finishDate = (finishDateIdx !== -1 && row[finishDateIdx] != null)
         ? this.parseDate(row[finishDateIdx])
         : null;
+    const actualStart = (actualStartIdx !== -1 && row[actualStartIdx] != null)
+        ? this.parseDate(row[actualStartIdx])
+        : null;
+    const actualFinish = (actualFinishIdx !== -1 && row[actualFinishIdx] != null)
+        ? this.parseDate(row[actualFinishIdx])
+        : null;
+    const baselineStart = (baselineStartIdx !== -1 && row[baselineStartIdx] != null)
+        ? this.parseDate(row[baselineStartIdx])
+        : null;
+    const baselineFinish = (baselineFinishIdx !== -1 && row[baselineFinishIdx] != null)
+        ? this.parseDate(row[baselineFinishIdx])
+        : null;
 
     // Parse duration (optional)
     let duration = 0;
@@ -3996,12 +5256,19 @@ private createTaskFromRow(row: any[], rowIndex: number): Task | null {
             duration = parsedDuration;
         }
     } else if (startDate instanceof Date && finishDate instanceof Date) {
-        duration = (finishDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+        duration = this.taskCalendars(calendarName).workDaysBetween(toLocalDayNumber(startDate), toLocalDayNumber(finishDate));
     }
     if (taskType === 'TT_Mile' || taskType === 'TT_FinMile') {
         duration = 0;
     }
     duration = Math.max(0, duration);
+
+    // Three-point estimates (optional, for risk simulation)
+    const readEstimate = (idx: number): number | null => {
+        if (idx === -1 || row[idx] == null) return null;
+        const value = Number(row[idx]);
+        return !isNaN(value) && isFinite(value) ? Math.max(0, value) : null;
+    };
     
     // Get tooltip data
     const tooltipData = this.extractTooltipData(row, dataView);
@@ -4029,7 +5296,20 @@ private createTaskFromRow(row: any[], rowIndex: number): Task | null {
         isCriticalByRel: false,
         startDate: startDate,
         finishDate: finishDate,
-        tooltipData: tooltipData
+        tooltipData: tooltipData,
+        calendarName: calendarName,
+        constraintType: constraintType,
+        constraintDate: constraintDate,
+        requiredFinish: requiredFinish,
+        optimisticDuration: readEstimate(optimisticIdx),
+        mostLikelyDuration: readEstimate(mostLikelyIdx),
+        pessimisticDuration: readEstimate(pessimisticIdx),
+        percentComplete: readEstimate(percentCompleteIdx),
+        actualStart: actualStart,
+        actualFinish: actualFinish,
+        remainingDuration: readEstimate(remainingDurationIdx),
+        baselineStart: baselineStart,
+        baselineFinish: baselineFinish
     };
     
     return task;
@@ -4078,8 +5358,10 @@ private transformDataOptimized(dataView: DataView): void {
     this.taskIdToTask.clear();
     this.predecessorIndex.clear();
     this.relationshipIndex.clear();
-    this.taskDepthCache.clear();
     this.sortedTasksCache = null;
+    this.riskResult = null;
+    // Rebased onto the first task start before CPM runs (see prepareProjectCalendar)
+    this.taskCalendars = createCalendarResolver(this.getProjectCalendar(), this.getNamedCalendars());
 
     if (!dataView.table?.rows || !dataView.metadata?.columns) {
         console.error("Data transformation failed: No table data or columns found.");
@@ -4435,8 +5717,22 @@ private transformDataOptimized(dataView: DataView): void {
         }
         
         // Prioritize near-critical tasks (NEW)
+        // With float bands on, bands take their place, lowest float first; the open-ended top band is sampled like regular tasks
+        const floatBands = this.getFloatBands();
+        if (floatBands) {
+            for (let i = 0; i < floatBands.length - 1; i++) {
+                slotsAvailable = effectiveMaxTasks - tasksToShow.length;
+                if (slotsAvailable <= 0) break;
+                const bandTasks = remainingTasks.filter(task =>
+                    !shownTaskIds.has(task.internalId) && floatBandIndex(floatBands, task.totalFloat) === i);
+                bandTasks.slice(0, slotsAvailable).forEach(task => {
+                    tasksToShow.push(task);
+                    shownTaskIds.add(task.internalId);
+                });
+            }
+        }
         slotsAvailable = effectiveMaxTasks - tasksToShow.length;
-        if (slotsAvailable > 0) {
+        if (slotsAvailable > 0 && !floatBands) {
             const nearCriticalTasks = remainingTasks.filter(task => 
                 !shownTaskIds.has(task.internalId) && task.isNearCritical);
             const nearCriticalToAdd = nearCriticalTasks.slice(0, slotsAvailable);
@@ -4748,8 +6044,8 @@ private populateTaskDropdown(): void {
             .style("text-overflow", "ellipsis")
             .style("font-size", "9px"); // Small font size
         
-        // Highlight if currently selected
-        if (task.internalId === this.selectedTaskId) {
+        // Highlight if currently selected or a trace target
+        if (task.internalId === this.selectedTaskId || this.traceTargetIds.includes(task.internalId)) {
             item.style("background-color", "#f0f0f0")
                 .style("font-weight", "bold");
         }
@@ -4760,13 +6056,19 @@ private populateTaskDropdown(): void {
         });
         
         item.on("mouseout", function() {
-            if (task.internalId !== self.selectedTaskId) {
+            if (task.internalId !== self.selectedTaskId && !self.traceTargetIds.includes(task.internalId)) {
                 d3.select(this).style("background-color", "white");
             }
         });
         
         // Click handler
-        item.on("click", function() {
+        item.on("click", function(event: MouseEvent) {
+            // Ctrl-click picks several targets and keeps the list open; the update rebuilds it with them highlighted
+            if (event.ctrlKey || event.metaKey) {
+                event.stopPropagation();
+                self.toggleTraceTargetTask(task.internalId);
+                return;
+            }
             self.selectTask(task.internalId, task.name);
             self.dropdownInput.property("value", task.name || `Task ${task.internalId}`);
             self.dropdownList.style("display", "none");
@@ -4776,6 +6078,8 @@ private populateTaskDropdown(): void {
                 .style("pointer-events", "auto");
         });
     });
+
+    this.createSecondTaskPicker();
 }
 
 private createTraceModeToggle(): void {
@@ -4813,57 +6117,133 @@ private createTraceModeToggle(): void {
             .style("cursor", "not-allowed");
     }
     
-    // Backward Button
-    const backwardButton = toggleButtons.append("div")
-        .attr("class", "trace-mode-button backward")
-        .style("padding", "5px 10px")
-        .style("cursor", isDisabled ? "not-allowed" : "pointer")
-        .style("background-color", this.traceMode === "backward" ? "#0078D4" : "#f5f5f5")
-        .style("color", this.traceMode === "backward" ? "white" : "#333")
+    const modes = [
+        { mode: "backward", label: "Trace Backward" },
+        { mode: "forward", label: "Trace Forward" },
+        { mode: "between", label: "Trace Between" }
+    ];
+    modes.forEach(({ mode, label }, i) => {
+        const button = toggleButtons.append("div")
+            .attr("class", `trace-mode-button ${mode}`)
+            .style("padding", "5px 10px")
+            .style("cursor", isDisabled ? "not-allowed" : "pointer")
+            .style("background-color", this.traceMode === mode ? "#0078D4" : "#f5f5f5")
+            .style("color", this.traceMode === mode ? "white" : "#333")
+            .style("font-family", "Segoe UI, sans-serif")
+            .style("font-size", "11px")
+            .style("border-right", i < modes.length - 1 ? "1px solid #ccc" : null)
+            .text(label);
+
+        // Event handlers - only attach if not disabled
+        if (isDisabled) return;
+        button.on("click", () => {
+            if (this.traceMode === mode) return;
+            this.traceMode = mode;
+            this.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { traceMode: this.traceMode }, selector: null }] });
+            this.createTraceModeToggle(); // Refresh toggle appearance
+
+            // Trigger recalculation
+            if (this.lastUpdateOptions) {
+                this.update(this.lastUpdateOptions);
+            }
+        });
+    });
+}
+
+/**
+ * Picker for the other end of a "between" trace, to the left of the task
+ * search box. The two tasks can be picked in either order.
+ */
+private createSecondTaskPicker(): void {
+    this.dropdownContainer.selectAll(".second-task-picker").remove();
+    d3.select("body").on("click.secondTaskPicker", null);
+    if (!this.settings.taskSelection.enableTaskSelection.value || this.traceMode !== "between") return;
+
+    const picker = this.dropdownContainer.append("div")
+        .attr("class", "second-task-picker")
+        .style("position", "absolute")
+        .style("top", "0")
+        .style("right", "calc(100% + 4px)");
+
+    const secondTask = this.secondTaskId ? this.taskIdToTask.get(this.secondTaskId) : undefined;
+    const input = picker.append("input")
+        .attr("type", "text")
+        .attr("class", "task-selection-input second-task-input")
+        .attr("placeholder", "Trace to a second task...")
+        .property("value", secondTask ? secondTask.name || `Task ${secondTask.internalId}` : "")
+        .style("width", `${Math.round(this.settings.taskSelection.dropdownWidth.value * 0.8)}px`)
+        .style("padding", "5px 8px")
+        .style("border", "1px solid #ccc")
+        .style("border-radius", "4px")
         .style("font-family", "Segoe UI, sans-serif")
-        .style("font-size", "11px")
-        .style("border-right", "1px solid #ccc")
-        .text("Trace Backward");
-    
-    // Forward Button
-    const forwardButton = toggleButtons.append("div")
-        .attr("class", "trace-mode-button forward")
+        .style("font-size", "9px")
+        .style("color", "#333");
+
+    const list = picker.append("div")
+        .attr("class", "task-selection-list second-task-list")
+        .style("position", "absolute")
+        .style("top", "100%")
+        .style("left", "0")
+        .style("max-height", this.dropdownList?.style("max-height") || "150px")
+        .style("overflow-y", "auto")
+        .style("width", "100%")
+        .style("background", "white")
+        .style("border", "1px solid #ccc")
+        .style("border-top", "none")
+        .style("border-radius", "0 0 4px 4px")
+        .style("box-shadow", "0 2px 5px rgba(0,0,0,0.1)")
+        .style("display", "none")
+        .style("z-index", "30");
+
+    const addItem = (text: string, taskId: string | null) => list.append("div")
+        .attr("class", taskId ? "dropdown-item" : "dropdown-item clear-selection")
+        .text(text)
         .style("padding", "5px 10px")
-        .style("cursor", isDisabled ? "not-allowed" : "pointer")
-        .style("background-color", this.traceMode === "forward" ? "#0078D4" : "#f5f5f5")
-        .style("color", this.traceMode === "forward" ? "white" : "#333")
-        .style("font-family", "Segoe UI, sans-serif")
-        .style("font-size", "11px")
-        .text("Trace Forward");
-    
-    // Event handlers - only attach if not disabled
-    if (!isDisabled) {
-        const self = this;
-        backwardButton.on("click", function() {
-            if (self.traceMode !== "backward") {
-                self.traceMode = "backward";
-                self.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { traceMode: self.traceMode }, selector: null }] });
-                self.createTraceModeToggle(); // Refresh toggle appearance
-                
-                // Trigger recalculation
-                if (self.lastUpdateOptions) {
-                    self.update(self.lastUpdateOptions);
-                }
-            }
+        .style("cursor", "pointer")
+        .style("border-bottom", "1px solid #eee")
+        .style("white-space", "nowrap")
+        .style("overflow", "hidden")
+        .style("text-overflow", "ellipsis")
+        .style("font-size", "9px")
+        .style("font-weight", taskId && taskId === this.secondTaskId ? "bold" : "normal")
+        .on("mouseover", function() { d3.select(this).style("background-color", "#f0f0f0"); })
+        .on("mouseout", function() { d3.select(this).style("background-color", "white"); })
+        .on("click", () => {
+            list.style("display", "none");
+            this.selectSecondTask(taskId);
         });
-        
-        forwardButton.on("click", function() {
-            if (self.traceMode !== "forward") {
-                self.traceMode = "forward";
-                self.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { traceMode: self.traceMode }, selector: null }] });
-                self.createTraceModeToggle(); // Refresh toggle appearance
-                
-                // Trigger recalculation
-                if (self.lastUpdateOptions) {
-                    self.update(self.lastUpdateOptions);
-                }
-            }
+
+    addItem("Clear Second Task", null)
+        .style("color", "#666")
+        .style("font-style", "italic");
+    [...this.allTasksData]
+        .filter(task => task.internalId !== this.selectedTaskId)
+        .sort((a, b) => (a.name || "").localeCompare(b.name || ""))
+        .forEach(task => addItem(task.name || `Task ${task.internalId}`, task.internalId));
+
+    input
+        .on("focus", () => list.style("display", "block"))
+        .on("input", function() {
+            const searchText = (this as HTMLInputElement).value.toLowerCase().trim();
+            list.selectAll(".dropdown-item:not(.clear-selection)")
+                .style("display", function() {
+                    return ((this as HTMLElement).textContent?.toLowerCase() || "").includes(searchText) ? "block" : "none";
+                });
         });
+
+    d3.select("body").on("click.secondTaskPicker", (event: MouseEvent) => {
+        const listNode = list.node();
+        if (listNode && event.target !== input.node() && !listNode.contains(event.target as Node)) {
+            list.style("display", "none");
+        }
+    });
+}
+
+private selectSecondTask(taskId: string | null): void {
+    this.secondTaskId = taskId;
+    this.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { secondTaskId: taskId || "" }, selector: null }] });
+    if (this.lastUpdateOptions) {
+        this.update(this.lastUpdateOptions);
     }
 }
 
@@ -4899,7 +6279,8 @@ private selectTask(taskId: string | null, taskName: string | null): void {
     
     this.selectedTaskId = taskId;
     this.selectedTaskName = taskName;
-    this.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { selectedTaskId: this.selectedTaskId || "" }, selector: null }] });
+    this.traceTargetIds = [];
+    this.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { selectedTaskId: this.selectedTaskId || "", traceTargets: "" }, selector: null }] });
     
     // Clear dropdown input when deselecting
     if (!taskId && this.dropdownInput) {
@@ -4931,6 +6312,27 @@ private selectTask(taskId: string | null, taskName: string | null): void {
     }
 }
 
+/**
+ * Ctrl-click: adds a task to the trace targets or removes it. The first
+ * target stays the selected task; a single target is an ordinary trace.
+ */
+private toggleTraceTargetTask(taskId: string): void {
+    const current = this.traceTargetIds.length > 0 ? this.traceTargetIds : this.selectedTaskId ? [this.selectedTaskId] : [];
+    const targets = toggleTraceTarget(current, taskId);
+    this.selectedTaskId = targets[0] ?? null;
+    this.selectedTaskName = this.selectedTaskId ? this.taskIdToTask.get(this.selectedTaskId)?.name || null : null;
+    this.traceTargetIds = targets.length > 1 ? targets : [];
+    this.host.persistProperties({ merge: [{ objectName: "persistedState", properties: { selectedTaskId: this.selectedTaskId || "", traceTargets: serializeTraceTargets(targets) }, selector: null }] });
+
+    if (this.dropdownInput) {
+        this.dropdownInput.property("value", this.selectedTaskName || "");
+    }
+    this.createTraceModeToggle();
+    if (this.lastUpdateOptions) {
+        this.update(this.lastUpdateOptions);
+    }
+}
+
 private ensureTaskVisible(taskId: string): void {
     const task = this.taskIdToTask.get(taskId);
     if (!task || task.yOrder === undefined) return;
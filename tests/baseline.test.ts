@@ -0,0 +1,24 @@
+import { WorkCalendar, toLocalDayNumber } from '../src/calendar';
+import { baselineVariance, rankSlippedMilestones } from '../src/baseline';
+
+describe('baseline comparison', () => {
+  test('measures variance in working days', () => {
+    const friday = toLocalDayNumber(new Date(2025, 0, 3));
+    const calendar = new WorkCalendar({ workWeek: [false, true, true, true, true, true, false], holidays: [] }, friday);
+    // Friday to the following Tuesday skips the weekend
+    expect(baselineVariance(0, 4, calendar)).toBe(2);
+    expect(baselineVariance(4, 0, calendar)).toBe(-2);
+    expect(baselineVariance(null, 4, calendar)).toBeNull();
+  });
+
+  test('ranks only the milestones that slipped, worst first', () => {
+    const ranked = rankSlippedMilestones([
+      { id: 'A', name: 'Design Complete', finishVariance: 3 },
+      { id: 'B', name: 'Permit', finishVariance: -2 },
+      { id: 'C', name: 'Handover', finishVariance: 10 },
+      { id: 'D', name: 'Commissioning', finishVariance: 3 },
+      { id: 'E', name: 'Kick-off', finishVariance: 0 }
+    ], 2);
+    expect(ranked.map(m => m.id)).toEqual(['C', 'D']);
+  });
+});
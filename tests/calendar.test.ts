@@ -0,0 +1,35 @@
+import { WorkCalendar, parseHolidayList, parseWorkWeek, toLocalDayNumber } from '../src/calendar';
+
+describe('working calendar', () => {
+  test('parses work weeks and holiday lists', () => {
+    expect(parseWorkWeek('Mon-Fri')).toEqual([false, true, true, true, true, true, false]);
+    expect(parseWorkWeek('Fri-Mon')).toEqual([true, true, false, false, false, true, true]);
+    expect(parseWorkWeek('nonsense')).toBeNull();
+    const holidays = parseHolidayList('2025-12-25, bad; 2026-01-01');
+    expect(holidays).toEqual([
+      toLocalDayNumber(new Date(2025, 11, 25)),
+      toLocalDayNumber(new Date(2026, 0, 1))
+    ]);
+  });
+
+  test('adds and counts working days around weekends and holidays', () => {
+    const friday = toLocalDayNumber(new Date(2025, 0, 3));
+    const calendar = new WorkCalendar({
+      workWeek: [false, true, true, true, true, true, false],
+      holidays: [friday + 3]   // Monday
+    }, friday);
+    // Finish of Friday plus one working day is the end of Tuesday
+    expect(calendar.addWorkDays(1, 1, true)).toBe(5);
+    // A start at the end of Friday resolves to the start of Tuesday
+    expect(calendar.addWorkDays(1, 0, false)).toBe(4);
+    expect(calendar.workDaysBetween(0, 6)).toBe(3);
+    expect(calendar.isWorkingDay(friday + 3)).toBeFalsy();
+  });
+
+  test('is the identity without a definition', () => {
+    const calendar = new WorkCalendar(null, 100);
+    expect(calendar.isContinuous).toBeTruthy();
+    expect(calendar.addWorkDays(2.5, 3, true)).toBe(5.5);
+    expect(calendar.workDaysBetween(1, 8)).toBe(7);
+  });
+});
@@ -0,0 +1,42 @@
+import { CpmInput, handleCpmRequest } from '../src/cpmEngine';
+import { CpmResultCache, contentHash, cpmVariantKey, hashCpmInput } from '../src/cpmCache';
+
+describe('CPM result cache', () => {
+  const input: CpmInput = {
+    tasks: [
+      { internalId: 'A', start: 0, finish: 2, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+      { internalId: 'B', start: 2, finish: 5, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } }
+    ],
+    relationships: [{ predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 0 }],
+    floatTolerance: 0.01,
+    floatThreshold: 5
+  };
+
+  test('hashes change with the schedule but not with the trace or simulation', () => {
+    expect(contentHash('abc')).toMatch(/^[0-9a-f]{16}$/);
+    expect(contentHash('abc')).not.toBe(contentHash('abd'));
+    const hash = hashCpmInput(input);
+    expect(hashCpmInput({ ...input, trace: { targetId: 'B', direction: 'backward' } })).toBe(hash);
+    expect(hashCpmInput({ ...input, monteCarlo: { iterations: 10, seed: 1, distribution: 'pert' } })).toBe(hash);
+    expect(hashCpmInput({ ...input, floatTolerance: 0.5 })).not.toBe(hash);
+    const moved = { ...input, tasks: [input.tasks[0], { ...input.tasks[1], finish: 6 }] };
+    expect(hashCpmInput(moved)).not.toBe(hash);
+  });
+
+  test('keeps full and traced results for the latest schedule only', () => {
+    const cache = new CpmResultCache();
+    const full = handleCpmRequest(input);
+    const tracedInput: CpmInput = { ...input, trace: { targetId: 'A', direction: 'forward' } };
+    const traced = handleCpmRequest(tracedInput);
+    const hash = hashCpmInput(input);
+
+    cache.set(hash, cpmVariantKey(input), full);
+    cache.set(hash, cpmVariantKey(tracedInput), traced);
+    expect(cache.get(hash, cpmVariantKey(input))).toBe(full);
+    expect(cache.get(hash, cpmVariantKey(tracedInput))).toBe(traced);
+    expect(cache.get(hash, cpmVariantKey({ ...input, trace: { targetId: 'B', direction: 'forward' } }))).toBeNull();
+
+    cache.set('another schedule', cpmVariantKey(input), full);
+    expect(cache.get(hash, cpmVariantKey(tracedInput))).toBeNull();
+  });
+});
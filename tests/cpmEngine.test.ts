@@ -0,0 +1,185 @@
+import { CpmInput, CpmRelationship, CpmResponse, CpmTask, handleCpmRequest, runCpm } from '../src/cpmEngine';
+import { PackedCpmResponse, packCpmInput, unpackCpmResponse } from '../src/cpmTransfer';
+import { criticalPathTester } from '../src/dcma';
+import { startWorkerScript } from './workerScript';
+
+const task = (internalId: string, start: number, finish: number, preds: string[] = [], extra: Partial<CpmTask> = {}): CpmTask => ({
+  internalId,
+  start,
+  finish,
+  predecessorIds: preds,
+  relationshipTypes: Object.fromEntries(preds.map(p => [p, 'FS'])),
+  relationshipLags: Object.fromEntries(preds.map(p => [p, 0])),
+  ...extra
+});
+
+const links = (tasks: CpmTask[]): CpmRelationship[] => tasks.flatMap(t =>
+  t.predecessorIds.map(p => ({ predecessorId: p, successorId: t.internalId, type: t.relationshipTypes[p], freeFloat: null, lag: t.relationshipLags[p] }))
+);
+
+const network = (tasks: CpmTask[], options: Partial<CpmInput> = {}): CpmInput => ({
+  tasks,
+  relationships: links(tasks),
+  floatTolerance: 0.01,
+  floatThreshold: 3,
+  ...options
+});
+
+// A -> B -> D is driving; A -> C -> D has slack; E hangs off C; F is late against its predecessor
+const branching = [
+  task('A', 0, 2),
+  task('B', 2, 6, ['A']),
+  task('C', 2, 3, ['A']),
+  task('D', 6, 8, ['B', 'C']),
+  task('E', 3, 4, ['C']),
+  task('F', 1, 2, ['E'], { constraintType: 'FNLT', constraintDate: 3 })
+];
+
+const corpus: { [name: string]: CpmInput } = {
+  'schedule mode': network(branching),
+  'unconstrained mode': network(branching, { unconstrainedMode: true }),
+  'required finish': network(branching, { unconstrainedMode: true, requiredFinish: 6 }),
+  'longest path': network(branching, { criticalityMode: 'longestPath' }),
+  'free float near-critical basis': network(branching, { nearCriticalBasis: 'freeFloat' }),
+  'progress at a data date': network([
+    task('A', 0, 3, [], { actualStart: 0, actualFinish: 3 }),
+    task('B', 3, 8, ['A'], { actualStart: 3, percentComplete: 40 }),
+    task('C', 8, 10, ['B'])
+  ], { dataDate: 5, unconstrainedMode: true }),
+  'working calendar': network([
+    task('A', 0, 3),
+    task('B', 3, 9, ['A'], { relationshipTypes: { A: 'SS' }, relationshipLags: { A: 1 } })
+  ], { calendar: { workWeek: [false, true, true, true, true, true, false], holidays: [] }, baseDay: 20088 }),
+  'level of effort': network([
+    task('A', 0, 2),
+    task('L', 0, 50, ['A'], { taskType: 'TT_LOE', relationshipTypes: { A: 'SS' } }),
+    task('B', 2, 6, ['A', 'L'], { relationshipTypes: { A: 'FS', L: 'FF' } })
+  ], { unconstrainedMode: true }),
+  'start and finish milestones': network([
+    task('A', 0, 4, [], { duration: 4 }),
+    task('S', 0, 0, ['A'], { taskType: 'TT_Mile', duration: 0 }),
+    task('F', 0, 0, ['A'], { taskType: 'TT_FinMile', duration: 0 })
+  ], { unconstrainedMode: true, calendar: { workWeek: [false, true, true, true, true, true, false], holidays: [] }, baseDay: 20088 }),
+  'links to unknown tasks': network([
+    task('A', 0, 2),
+    task('B', 2, 4, ['A', 'Missing'])
+  ])
+};
+
+/** Runs the input through the packaged worker script, as the visual would off-thread */
+async function runInWorker(input: CpmInput): Promise<CpmResponse> {
+  const worker = startWorkerScript();
+  worker.send({ type: 'run', requestId: 1, input });
+  await worker.settled;
+  const reply = worker.replies[worker.replies.length - 1];
+  if (reply.type !== 'result') throw new Error(`Unexpected reply: ${reply.type}`);
+  return reply.result as CpmResponse;
+}
+
+const copy = (input: CpmInput): CpmInput => JSON.parse(JSON.stringify(input));
+
+describe('shared CPM engine', () => {
+  test.each(Object.keys(corpus))('worker and main thread agree: %s', async name => {
+    expect(await runInWorker(copy(corpus[name]))).toEqual(handleCpmRequest(copy(corpus[name])));
+  });
+
+  test('packed requests get the same results', async () => {
+    const input = network(branching, { monteCarlo: { iterations: 20, seed: 2, distribution: 'pert' } });
+    const worker = startWorkerScript();
+    worker.send({ type: 'run', requestId: 4, input: packCpmInput(copy(input)) });
+    await worker.settled;
+    const reply = worker.replies[worker.replies.length - 1];
+    expect(reply.type).toBe('result');
+    const result = unpackCpmResponse((reply as { result: PackedCpmResponse }).result, input);
+    expect(result).toEqual(handleCpmRequest(copy(input)));
+  });
+
+  test('a cancelled simulation stops and says so', async () => {
+    const tasks = [task('A', 0, 5, [], { optimisticDuration: 3, pessimisticDuration: 9 }), task('B', 5, 7, ['A'])];
+    const worker = startWorkerScript();
+    worker.send({ type: 'run', requestId: 7, input: network(tasks, { monteCarlo: { iterations: 100000, seed: 1, distribution: 'pert' } }) });
+    worker.send({ type: 'cancel', requestId: 7 });
+    await worker.settled;
+    expect(worker.replies[worker.replies.length - 1]).toEqual({ type: 'cancelled', requestId: 7 });
+    expect(worker.replies.some(r => r.type === 'result')).toBe(false);
+  });
+
+  test('critical path tests run in the worker match the main thread', async () => {
+    const input = corpus['schedule mode'];
+    const taskIds = ['A', 'B', 'C', 'D', 'E', 'F'];
+    const worker = startWorkerScript();
+    worker.send({ type: 'pathTest', requestId: 3, input: copy(input), taskIds, delay: 50 });
+    await worker.settled;
+    const reply = worker.replies[worker.replies.length - 1];
+    expect(reply.type).toBe('pathTestResult');
+    const test = criticalPathTester(copy(input), 50);
+    expect((reply as { results: unknown }).results).toEqual(taskIds.map(test));
+    expect(worker.replies.some(r => r.type === 'progress' && r.stage === 'pathTest')).toBe(true);
+  });
+
+  test.each(['backward', 'forward'] as const)('%s traces keep the whole-project float', direction => {
+    const full = runCpm(copy(corpus['schedule mode']));
+    const traced = runCpm({ ...copy(corpus['schedule mode']), trace: { targetId: 'C', direction } });
+    expect(traced.tasks.map(t => t.totalFloat)).toEqual(full.tasks.map(t => t.totalFloat));
+    expect(traced.tasks.map(t => t.freeFloat)).toEqual(full.tasks.map(t => t.freeFloat));
+  });
+
+  test('a trace limits criticality to the logic around the target', () => {
+    const traced = runCpm({ ...copy(corpus['schedule mode']), trace: { targetId: 'B', direction: 'backward' } });
+    const critical = traced.tasks.filter(t => t.isCritical).map(t => t.internalId);
+    expect(critical.sort()).toEqual(['A', 'B']);
+    expect(traced.relationships.filter(r => r.isCritical).map(r => `${r.predecessorId}-${r.successorId}`)).toEqual(['A-B']);
+  });
+
+  test('a trace between two tasks marks the longest path joining them', () => {
+    const traced = runCpm({ ...copy(corpus['schedule mode']), trace: { sourceId: 'A', targetId: 'D', direction: 'between' } });
+    const critical = traced.tasks.filter(t => t.isCritical).map(t => t.internalId);
+    expect(critical.sort()).toEqual(['A', 'B', 'D']);
+    expect(traced.relationships.filter(r => r.isCritical).map(r => `${r.predecessorId}-${r.successorId}`)).toEqual(['A-B', 'B-D']);
+    // E and F follow C but never reach D
+    expect(traced.tasks.filter(t => t.isNearCritical).map(t => t.internalId)).not.toContain('E');
+  });
+
+  test('level-of-effort tasks span their links without driving them', () => {
+    const result = runCpm(copy(corpus['level of effort']));
+    const byId = Object.fromEntries(result.tasks.map(t => [t.internalId, t]));
+    expect(byId.L).toMatchObject({ earlyStart: 0, earlyFinish: 6, totalFloat: Infinity, isCritical: false });
+    expect(byId.B).toMatchObject({ earlyFinish: 6, totalFloat: 0, isCritical: true });
+    expect(result.relationships.filter(r => r.isCritical).map(r => `${r.predecessorId}-${r.successorId}`)).toEqual(['A-B']);
+  });
+
+  test('start milestones take the early start and finish milestones the early finish', () => {
+    // A runs Tuesday to Friday; the weekend separates Friday evening from Monday morning
+    const result = runCpm(copy(corpus['start and finish milestones']));
+    const byId = Object.fromEntries(result.tasks.map(t => [t.internalId, t]));
+    expect(byId.S).toMatchObject({ earlyStart: 6, earlyFinish: 6, totalFloat: 0, isCritical: true });
+    expect(byId.F).toMatchObject({ earlyStart: 4, earlyFinish: 4, totalFloat: 0, isCritical: true });
+  });
+
+  test('a required finish before the forecast finish gives the driving path negative float', () => {
+    const result = runCpm(copy(corpus['required finish']));
+    const byId = Object.fromEntries(result.tasks.map(t => [t.internalId, t]));
+    ['A', 'B', 'D'].forEach(id => expect(byId[id]).toMatchObject({ totalFloat: -2, isCritical: true }));
+    // On the target milestone the deadline only applies to its own logic
+    const onTask = copy(corpus['unconstrained mode']);
+    onTask.tasks[3].requiredFinish = 7;
+    const onTaskById = Object.fromEntries(runCpm(onTask).tasks.map(t => [t.internalId, t]));
+    expect([onTaskById.B.totalFloat, onTaskById.D.totalFloat]).toEqual([-1, -1]);
+  });
+
+  test('in schedule mode a required finish carries negative float back along the driving chain', () => {
+    const chain = [task('A', 0, 2), task('B', 2, 5, ['A']), task('M', 5, 5, ['B'], { taskType: 'TT_FinMile', duration: 0 })];
+    const result = runCpm(network(chain, { requiredFinish: 3 }));
+    const byId = Object.fromEntries(result.tasks.map(t => [t.internalId, t]));
+    ['A', 'B', 'M'].forEach(id => expect(byId[id]).toMatchObject({
+      totalFloat: -2, isCritical: true, violatesConstraints: true, violatedConstraint: 'Required Finish'
+    }));
+    expect(result.relationships.map(r => r.isCritical)).toEqual([true, true]);
+  });
+
+  test('unconstrained mode schedules unstarted work for its planned duration', () => {
+    const result = runCpm(network([task('A', 0, 2, [], { duration: 5 })], { unconstrainedMode: true }));
+    expect(result.tasks[0].duration).toBe(5);
+    expect(result.tasks[0].earlyFinish).toBe(5);
+  });
+});
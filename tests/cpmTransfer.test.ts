@@ -0,0 +1,41 @@
+import { CpmInput } from '../src/cpmEngine';
+import { isPacked, packCpmInput, packCpmResponse, unpackCpmInput, unpackCpmResponse } from '../src/cpmTransfer';
+
+describe('CPM transfer packing', () => {
+  const input: CpmInput = {
+    tasks: [
+      { internalId: 'A', start: 0, finish: 2, predecessorIds: [], relationshipTypes: {}, relationshipLags: {}, calendar: '6-Day', taskType: 'TT_LOE', constraintType: null, constraintDate: null, requiredFinish: null, duration: 2, percentComplete: 50, actualStart: 0, actualFinish: null, remainingDuration: null, optimisticDuration: null, mostLikelyDuration: null, pessimisticDuration: null },
+      { internalId: 'B', start: 2, finish: 5, predecessorIds: ['A', 'X'], relationshipTypes: { A: 'SS', X: 'FS' }, relationshipLags: { A: 1, X: null }, calendar: null, taskType: null, constraintType: 'SNET', constraintDate: 3, requiredFinish: 9, duration: 3, percentComplete: null, actualStart: null, actualFinish: null, remainingDuration: null, optimisticDuration: 2, mostLikelyDuration: 3, pessimisticDuration: 6 }
+    ],
+    relationships: [
+      { predecessorId: 'A', successorId: 'B', type: 'SS', freeFloat: null, lag: 1 },
+      { predecessorId: 'X', successorId: 'B', type: 'FS', freeFloat: 0, lag: null }
+    ],
+    floatTolerance: 0.01,
+    floatThreshold: 5,
+    dataDate: 1
+  };
+
+  test('a packed request unpacks to the original, links to unknown tasks included', () => {
+    const packed = packCpmInput(input);
+    expect(isPacked(packed)).toBe(true);
+    expect(isPacked(input)).toBe(false);
+    expect(packed.ids).toEqual(['A', 'B', 'X']);
+    expect(unpackCpmInput(packed)).toEqual(input);
+  });
+
+  test('a packed response unpacks against its request', () => {
+    const response = {
+      tasks: [
+        { internalId: 'A', duration: 2, earlyStart: 0, earlyFinish: 2, lateStart: 0, lateFinish: 2, totalFloat: 0, freeFloat: 0, violatesConstraints: false, violatedConstraint: null, isCritical: true, isCriticalByFloat: true, isCriticalByRel: false, isNearCritical: false },
+        { internalId: 'B', duration: 3, earlyStart: 2, earlyFinish: 5, lateStart: 4, lateFinish: 7, totalFloat: -2, freeFloat: Infinity, violatesConstraints: true, violatedConstraint: 'SNET', isCritical: false, isCriticalByFloat: false, isCriticalByRel: true, isNearCritical: true }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'B', isCritical: true, isDriving: true },
+        { predecessorId: 'X', successorId: 'B', isCritical: false, isDriving: true }
+      ],
+      monteCarlo: null
+    };
+    expect(unpackCpmResponse(packCpmResponse(response), input)).toEqual(response);
+  });
+});
@@ -0,0 +1,30 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CpmInput, runCpm } from '../src/cpmEngine';
+import { startWorkerScript } from './workerScript';
+const { buildCpmWorkerModule } = require('../scripts/buildCpmWorker');
+
+const input: CpmInput = {
+  tasks: [
+    { internalId: 'A', start: 0, finish: 3, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+    { internalId: 'B', start: 3, finish: 5, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } }
+  ],
+  relationships: [{ predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 0 }],
+  floatTolerance: 0.01,
+  floatThreshold: 1
+};
+
+describe('packaged CPM worker script', () => {
+  test('is up to date with the worker modules', () => {
+    expect(readFileSync(join(__dirname, '../src/cpmWorkerSource.ts'), 'utf8')).toBe(buildCpmWorkerModule());
+  });
+
+  test('answers requests when run on its own', async () => {
+    const worker = startWorkerScript();
+    worker.send({ type: 'run', requestId: 1, input: JSON.parse(JSON.stringify(input)) });
+    await worker.settled;
+    const reply = worker.replies[worker.replies.length - 1];
+    expect(reply.type).toBe('result');
+    expect(JSON.parse(JSON.stringify((reply as { result: unknown }).result))).toEqual({ ...runCpm(input), monteCarlo: null });
+  });
+});
@@ -0,0 +1,33 @@
+import { CycleLink, breakCycles, findCycleGroups, traceCycle } from '../src/cycles';
+
+describe('cycle diagnostics', () => {
+  // A -> B -> C -> A is a loop; D hangs off it; E <-> F is a second loop
+  const links: CycleLink[] = [
+    { predecessorId: 'A', successorId: 'B' },
+    { predecessorId: 'B', successorId: 'C' },
+    { predecessorId: 'C', successorId: 'A' },
+    { predecessorId: 'C', successorId: 'D' },
+    { predecessorId: 'E', successorId: 'F' },
+    { predecessorId: 'F', successorId: 'E' }
+  ];
+  const ids = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+  test('finds every group of looping tasks', () => {
+    const groups = findCycleGroups(ids, links).map(g => g.slice().sort());
+    expect(groups).toEqual([['A', 'B', 'C'], ['E', 'F']]);
+  });
+
+  test('traces a loop back to its first task', () => {
+    const [group] = findCycleGroups(ids, links);
+    const loop = traceCycle(group, links);
+    expect(loop[0]).toBe(loop[loop.length - 1]);
+    expect(loop.slice(0, -1).sort()).toEqual(['A', 'B', 'C']);
+  });
+
+  test('breaks each loop at its weakest link', () => {
+    const strength = (link: CycleLink) => link.predecessorId === 'C' ? -5 : link.predecessorId === 'F' ? -1 : 0;
+    const broken = breakCycles(ids, links, strength);
+    expect(broken.map(l => `${l.predecessorId}-${l.successorId}`).sort()).toEqual(['C-A', 'F-E']);
+    expect(findCycleGroups(ids, links.filter(l => !broken.includes(l)))).toEqual([]);
+  });
+});
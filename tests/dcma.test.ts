@@ -0,0 +1,100 @@
+import { WorkCalendar } from '../src/calendar';
+import { CpmInput, CpmTask } from '../src/cpmEngine';
+import { DcmaInput, DcmaTask, assessSchedule, runCriticalPathTest } from '../src/dcma';
+
+const dcmaTask = (id: string, extra: Partial<DcmaTask> = {}): DcmaTask => ({
+  id,
+  isMilestone: false,
+  completed: false,
+  predecessorCount: 1,
+  successorCount: 1,
+  constraintType: null,
+  totalFloat: 0,
+  duration: 5,
+  start: 10,
+  finish: 15,
+  actualStart: null,
+  actualFinish: null,
+  baselineFinish: null,
+  ...extra
+});
+
+const assess = (input: Partial<DcmaInput>) => {
+  const checks = assessSchedule({
+    tasks: [],
+    links: [],
+    dataDate: null,
+    calendar: new WorkCalendar(null),
+    criticalPathTest: null,
+    tolerance: 0.01,
+    ...input
+  });
+  return Object.fromEntries(checks.map(c => [c.name.replace(/ \(.*\)$/, ''), c]));
+};
+
+const cpmTask = (internalId: string, start: number, finish: number, preds: string[] = []): CpmTask => ({
+  internalId,
+  start,
+  finish,
+  duration: finish - start,
+  predecessorIds: preds,
+  relationshipTypes: Object.fromEntries(preds.map(p => [p, 'FS'])),
+  relationshipLags: Object.fromEntries(preds.map(p => [p, 0]))
+});
+
+const network = (tasks: CpmTask[]): CpmInput => ({
+  tasks,
+  relationships: tasks.flatMap(t => t.predecessorIds.map(p => ({ predecessorId: p, successorId: t.internalId, type: 'FS', freeFloat: null, lag: 0 }))),
+  floatTolerance: 0.01,
+  floatThreshold: 0
+});
+
+describe('DCMA schedule assessment', () => {
+  test('counts open tasks and the links into them against the thresholds', () => {
+    const tasks = [
+      dcmaTask('A', { predecessorCount: 0 }),
+      dcmaTask('B', { constraintType: 'MFO', totalFloat: -2 }),
+      dcmaTask('C', { duration: 60, totalFloat: 50 }),
+      dcmaTask('D', { completed: true, predecessorCount: 0 })
+    ];
+    const checks = assess({
+      tasks,
+      links: [
+        { predecessorId: 'A', successorId: 'B', type: 'FS', lag: -1 },
+        { predecessorId: 'B', successorId: 'C', type: 'SF', lag: 3 },
+        { predecessorId: 'C', successorId: 'D', type: 'FS', lag: 0 }
+      ]
+    });
+    expect(checks['Missing Logic']).toMatchObject({ passed: false, taskIds: ['A'] });
+    expect(checks['Leads']).toMatchObject({ result: '1', taskIds: ['B'] });
+    expect(checks['Lags'].taskIds).toEqual(['C']);
+    expect(checks['Relationship Types']).toMatchObject({ result: '50% FS, 1 SF', passed: false });
+    expect(checks['Hard Constraints'].taskIds).toEqual(['B']);
+    expect(checks['High Float'].taskIds).toEqual(['C']);
+    expect(checks['Negative Float'].taskIds).toEqual(['B']);
+    expect(checks['High Duration'].taskIds).toEqual(['C']);
+    expect(checks['Invalid Dates'].passed).toBeNull();
+  });
+
+  test('checks dates, CPLI and BEI against the data date', () => {
+    const checks = assess({
+      dataDate: 20,
+      tasks: [
+        dcmaTask('A', { completed: true, start: 0, finish: 10, actualStart: 0, actualFinish: 25, baselineFinish: 10 }),
+        dcmaTask('B', { start: 12, finish: 18, baselineFinish: 18 }),
+        dcmaTask('C', { start: 20, finish: 40, totalFloat: -2, baselineFinish: 30 })
+      ]
+    });
+    expect(checks['Invalid Dates'].taskIds).toEqual(['A', 'B']);
+    expect(checks['CPLI']).toMatchObject({ result: '0.90', passed: false });
+    expect(checks['BEI']).toMatchObject({ result: '0.50', passed: false, taskIds: ['B'] });
+  });
+
+  test('the critical path test fails when the delay does not reach the project finish', () => {
+    // B ends early with no successor, so a small delay to it is absorbed before the finish set by C
+    const chained = network([cpmTask('A', 0, 5), cpmTask('B', 5, 8, ['A']), cpmTask('C', 5, 10, ['A'])]);
+    expect(runCriticalPathTest(chained, 'C', 100)?.passed).toBe(true);
+    expect(runCriticalPathTest(chained, 'B', 1)).toMatchObject({ finishShift: 0, passed: false });
+    expect(assess({ criticalPathTest: undefined })['Critical Path Test']).toMatchObject({ result: 'Testing...', passed: null });
+  });
+});
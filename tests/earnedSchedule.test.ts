@@ -0,0 +1,36 @@
+import { EarnedScheduleTask, earnedSchedule } from '../src/earnedSchedule';
+
+const task = (baselineStart: number | null, baselineFinish: number | null, extra: Partial<EarnedScheduleTask> = {}): EarnedScheduleTask => ({
+  baselineStart,
+  baselineFinish,
+  ...extra
+});
+
+describe('earned schedule', () => {
+  test('on plan, the earned schedule equals the actual time', () => {
+    const result = earnedSchedule([task(0, 10, { actualFinish: 9 }), task(10, 20)], 10);
+    expect(result).toEqual({ earnedSchedule: 10, actualTime: 10, spiT: 1, svT: 0, plannedDuration: 20, ieacT: 20, forecastFinish: 20 });
+  });
+
+  test('behind plan, SPI(t) drops below one and IEAC(t) stretches the planned duration', () => {
+    const result = earnedSchedule([task(0, 10, { percentComplete: 50 }), task(10, 20)], 10)!;
+    expect(result.earnedSchedule).toBe(5);
+    expect(result.spiT).toBe(0.5);
+    expect(result.svT).toBe(-5);
+    expect(result.ieacT).toBe(40);
+    expect(result.forecastFinish).toBe(40);
+  });
+
+  test('ahead of plan, the earned schedule interpolates within a day', () => {
+    const result = earnedSchedule([task(0, 10, { percentComplete: 100 }), task(10, 20, { percentComplete: 25 })], 10)!;
+    expect(result.earnedSchedule).toBeCloseTo(12.5);
+    expect(result.spiT).toBeCloseTo(1.25);
+    expect(result.svT).toBeCloseTo(2.5);
+  });
+
+  test('needs a baseline and time past its start', () => {
+    expect(earnedSchedule([task(null, 10, { percentComplete: 50 }), task(4, 4)], 10)).toBeNull();
+    const atStart = earnedSchedule([task(0, 10)], 0)!;
+    expect(atStart).toMatchObject({ earnedSchedule: 0, spiT: null, ieacT: null, forecastFinish: null });
+  });
+});
@@ -0,0 +1,26 @@
+import { buildFloatBands, floatBandIndex, parseBandLimits } from '../src/floatBands';
+
+describe('float bands', () => {
+  const colors = ['#1', '#2', '#3', '#4'];
+
+  test('limits become labelled bands with colours in order', () => {
+    const limits = parseBandLimits('20, 0; 10 x 10');
+    expect(limits).toEqual([0, 10, 20]);
+    const bands = buildFloatBands(limits, colors);
+    expect(bands.map(b => b.label)).toEqual(['< 0 d', '0 d', '1–10 d', '11–20 d', '> 20 d']);
+    expect(bands.map(b => b.color)).toEqual(['#1', '#2', '#3', '#4', '#1']);
+    expect(buildFloatBands([], colors)).toEqual([]);
+  });
+
+  test('each float falls in exactly one band', () => {
+    const bands = buildFloatBands([0, 10, 20], colors);
+    expect([-3, -0.5, 0, 0.5, 1, 10, 10.6, 20, 21, Infinity, undefined].map(f => floatBandIndex(bands, f)))
+      .toEqual([0, 0, 1, 2, 2, 2, 3, 3, 4, -1, -1]);
+  });
+
+  test('fractional float lands in the band of the whole days it rounds to', () => {
+    const bands = buildFloatBands([0, 10], colors);
+    expect([0.005, -0.005, 0.3, -0.3, 10.5, 10.6, 9.6].map(f => bands[floatBandIndex(bands, f, 0.01)].label))
+      .toEqual(['0 d', '0 d', '1–10 d', '< 0 d', '1–10 d', '> 10 d', '1–10 d']);
+  });
+});
@@ -0,0 +1,28 @@
+import { FloatPathLink, rankFloatPaths } from '../src/floatPaths';
+
+describe('multiple float paths', () => {
+  // Z is driven by Y (driving) and by X and W with 1 and 3 days of slack;
+  // V drives W, so it belongs to W's path
+  const links: FloatPathLink[] = [
+    { predecessorId: 'Y', successorId: 'Z', slack: 0 },
+    { predecessorId: 'X', successorId: 'Z', slack: 1 },
+    { predecessorId: 'W', successorId: 'Z', slack: 3 },
+    { predecessorId: 'V', successorId: 'W', slack: 0 },
+    { predecessorId: 'U', successorId: 'Y', slack: 2 }
+  ];
+
+  test('ranks paths by cumulative slack to the target', () => {
+    const paths = rankFloatPaths(['Z'], links, 5, 0.01);
+    expect(Object.fromEntries(paths)).toEqual({ Z: 1, Y: 1, X: 2, U: 3, W: 4, V: 4 });
+  });
+
+  test('stops at the requested number of paths', () => {
+    const paths = rankFloatPaths(['Z'], links, 2, 0.01);
+    expect(Array.from(paths.keys()).sort()).toEqual(['X', 'Y', 'Z']);
+  });
+
+  test('traces forward from the seed', () => {
+    const paths = rankFloatPaths(['V'], links, 3, 0.01, 'forward');
+    expect(Object.fromEntries(paths)).toEqual({ V: 1, W: 1, Z: 2 });
+  });
+});
@@ -0,0 +1,68 @@
+import { createCalendarResolver } from '../src/calendar';
+import { RiskTask, createSeededRandom, runMonteCarlo, samplePert, sampleTriangular, startMonteCarlo } from '../src/monteCarlo';
+
+describe('Monte Carlo schedule risk', () => {
+  const calendars = createCalendarResolver(null, null);
+
+  // A and B run in parallel into C; only B is uncertain
+  const tasks: RiskTask[] = [
+    { internalId: 'A', start: 0, finish: 5, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+    { internalId: 'B', start: 0, finish: 4, predecessorIds: [], relationshipTypes: {}, relationshipLags: {}, optimisticDuration: 3, pessimisticDuration: 10 },
+    { internalId: 'C', start: 5, finish: 7, predecessorIds: ['A', 'B'], relationshipTypes: { A: 'FS', B: 'FS' }, relationshipLags: { A: 0, B: 0 } }
+  ];
+
+  test('seeded random numbers are reproducible', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    first.forEach(u => { expect(u).toBeGreaterThanOrEqual(0); expect(u).toBeLessThan(1); });
+  });
+
+  test('samples stay within the three-point range', () => {
+    const random = createSeededRandom(7);
+    for (let i = 0; i < 500; i++) {
+      const t = sampleTriangular(2, 4, 9, random);
+      const p = samplePert(2, 4, 9, random);
+      expect(t).toBeGreaterThanOrEqual(2);
+      expect(t).toBeLessThanOrEqual(9);
+      expect(p).toBeGreaterThanOrEqual(2);
+      expect(p).toBeLessThanOrEqual(9);
+    }
+  });
+
+  test('reports percentiles, criticality index and a histogram', () => {
+    const result = runMonteCarlo(tasks, calendars, { iterations: 2000, seed: 1, distribution: 'pert' }, 0.001);
+    expect(result.deterministicFinish).toBeCloseTo(7);
+    expect(result.p50).toBeGreaterThanOrEqual(7);
+    expect(result.p50).toBeLessThanOrEqual(result.p80);
+    expect(result.p80).toBeLessThanOrEqual(result.p90);
+    expect(result.p90).toBeLessThanOrEqual(12);
+    // C always finishes the project; A and B share the driving role
+    expect(result.criticalityIndex['C']).toBe(1);
+    expect(result.criticalityIndex['A'] + result.criticalityIndex['B']).toBeGreaterThanOrEqual(1);
+    expect(result.criticalityIndex['B']).toBeGreaterThan(0.3);
+    expect(result.histogram.counts.reduce((a, b) => a + b, 0)).toBe(2000);
+
+    const again = runMonteCarlo(tasks, calendars, { iterations: 2000, seed: 1, distribution: 'pert' }, 0.001);
+    expect(again).toEqual(result);
+  });
+
+  test('tasks without estimates keep their deterministic duration', () => {
+    const fixed = tasks.map(t => ({ ...t, optimisticDuration: null, pessimisticDuration: null }));
+    const result = runMonteCarlo(fixed, calendars, { iterations: 100, seed: 3, distribution: 'triangular' }, 0.001);
+    expect(result.p50).toBeCloseTo(7);
+    expect(result.p90).toBeCloseTo(7);
+    expect(result.criticalityIndex['B']).toBe(0);
+    expect(result.histogram.counts).toEqual([100]);
+  });
+
+  test('running in batches gives the same result as one run', () => {
+    const options = { iterations: 300, seed: 5, distribution: 'pert' as const };
+    const run = startMonteCarlo(tasks, calendars, options, 0.001);
+    expect(run.step(120)).toBe(false);
+    expect(run.completed).toBe(120);
+    while (!run.step(120));
+    expect(run.result()).toEqual(runMonteCarlo(tasks, calendars, options, 0.001));
+  });
+});
@@ -0,0 +1,19 @@
+import { findOpenEnds } from '../src/openEnds';
+
+describe('open ends', () => {
+  test('reports missing and dangling ends, ignoring links to unknown tasks', () => {
+    const openEnds = findOpenEnds(['A', 'B', 'C', 'D', 'E'], [
+      { predecessorId: 'A', successorId: 'B', type: 'FS' },
+      { predecessorId: 'B', successorId: 'C', type: 'FF' },
+      { predecessorId: 'A', successorId: 'D', type: 'SS' },
+      { predecessorId: 'D', successorId: 'E', type: 'FS' },
+      { predecessorId: 'C', successorId: 'E', type: 'SF' },
+      { predecessorId: 'Missing', successorId: 'A', type: 'FS' }
+    ]);
+    expect(Object.fromEntries(openEnds)).toEqual({
+      A: { start: 'missing', finish: null },
+      C: { start: 'dangling', finish: 'dangling' },
+      E: { start: null, finish: 'missing' }
+    });
+  });
+});
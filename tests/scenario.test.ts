@@ -0,0 +1,47 @@
+import { CpmInput, CpmTask } from '../src/cpmEngine';
+import { applyScenario, parseScenario, scenarioFinishShifts, serializeScenario } from '../src/scenario';
+
+const task = (internalId: string, start: number, finish: number, preds: string[] = [], lag = 0): CpmTask => ({
+  internalId,
+  start,
+  finish,
+  duration: finish - start,
+  predecessorIds: preds,
+  relationshipTypes: Object.fromEntries(preds.map(p => [p, 'FS'])),
+  relationshipLags: Object.fromEntries(preds.map(p => [p, lag]))
+});
+
+// A -> B (lag 2) -> C, with D hanging off A
+const tasks = [task('A', 0, 5), task('B', 7, 10, ['A'], 2), task('C', 10, 12, ['B']), task('D', 5, 6, ['A'])];
+const input: CpmInput = {
+  tasks,
+  relationships: tasks.flatMap(t => t.predecessorIds.map(p => ({
+    predecessorId: p, successorId: t.internalId, type: 'FS', freeFloat: null, lag: t.relationshipLags[p]
+  }))),
+  floatTolerance: 0.01,
+  floatThreshold: 0
+};
+
+describe('what-if scenarios', () => {
+  test('round-trips saved text and drops malformed overrides', () => {
+    const text = serializeScenario({ tasks: { A: { duration: 8 } }, links: { 'A->B': { lag: 0 } } });
+    expect(parseScenario(text)).toEqual({ tasks: { A: { duration: 8 } }, links: { 'A->B': { lag: 0 } } });
+    expect(parseScenario('{"tasks":{"A":{"duration":-1}},"links":{"A->B":{"type":"XX"}}}')).toEqual({ tasks: {}, links: {} });
+    expect(parseScenario('not json')).toEqual({ tasks: {}, links: {} });
+    expect(serializeScenario({ tasks: {}, links: {} })).toBe('');
+  });
+
+  test('applies overrides to a copy of the input', () => {
+    const changed = applyScenario(input, { tasks: { A: { duration: 8 } }, links: { 'A->B': { type: 'SS', lag: 0 } } });
+    expect(changed.tasks[0].finish).toBe(8);
+    expect(changed.tasks[1].relationshipTypes.A).toBe('SS');
+    expect(changed.relationships[0]).toMatchObject({ type: 'SS', lag: 0 });
+    expect(input.tasks[0].finish).toBe(5);
+    expect(input.tasks[1].relationshipTypes.A).toBe('FS');
+  });
+
+  test('pushes a longer duration and a removed lag through to successors', () => {
+    expect(scenarioFinishShifts(input, { tasks: { A: { duration: 15 } }, links: {} })).toEqual({ A: 10, B: 10, C: 10, D: 10 });
+    expect(scenarioFinishShifts(input, { tasks: {}, links: { 'A->B': { lag: 0 } } })).toEqual({ A: 0, B: -2, C: -2, D: 0 });
+  });
+});
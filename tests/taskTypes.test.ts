@@ -0,0 +1,22 @@
+import { WorkCalendar } from '../src/calendar';
+import { normalizeTaskType, spanDates } from '../src/taskTypes';
+
+describe('task types', () => {
+  test('P6 codes and long names map to the canonical type', () => {
+    expect(['TT_LOE', 'Level of Effort', 'wbs summary', 'Hammock', 'TT_FinMile', null, ' '].map(normalizeTaskType))
+      .toEqual(['TT_LOE', 'TT_LOE', 'TT_WBS', 'TT_Hammock', 'TT_FinMile', 'TT_Task', 'TT_Task']);
+    expect(normalizeTaskType('TT_Rsrc')).toBe('TT_Rsrc');
+  });
+
+  test('span dates run from the earliest driving predecessor to the latest successor', () => {
+    const calendar = new WorkCalendar(null);
+    const dates = spanDates(
+      [{ type: 'FS', lag: 0, start: 0, finish: 4 }, { type: 'SS', lag: 1, start: 2, finish: 9 }, { type: 'FF', lag: 0, start: 0, finish: 1 }],
+      [{ type: 'FF', lag: 0, start: 5, finish: 12 }, { type: 'SS', lag: 0, start: 20, finish: 30 }],
+      { start: 10, finish: 11 },
+      calendar
+    );
+    expect(dates).toEqual({ start: 3, finish: 12 });
+    expect(spanDates([], [], { start: 10, finish: 11 }, calendar)).toEqual({ start: 10, finish: 11 });
+  });
+});
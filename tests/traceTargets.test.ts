@@ -0,0 +1,25 @@
+import { drivenTargets, parseTraceTargets, serializeTraceTargets, toggleTraceTarget } from '../src/traceTargets';
+
+describe('trace targets', () => {
+  test('ctrl-click adds and removes targets and the set survives a save', () => {
+    let targets = toggleTraceTarget(['M1'], 'M2');
+    targets = toggleTraceTarget(targets, 'M3');
+    expect(targets).toEqual(['M1', 'M2', 'M3']);
+    expect(toggleTraceTarget(targets, 'M2')).toEqual(['M1', 'M3']);
+    expect(parseTraceTargets(serializeTraceTargets(targets))).toEqual(targets);
+    expect(serializeTraceTargets(['M1'])).toBe("");
+    expect(parseTraceTargets('not json')).toEqual([]);
+    expect(parseTraceTargets('["M1", 3, "M1", ""]')).toEqual(['M1']);
+  });
+
+  test('tasks on several driving paths list every target they drive', () => {
+    const membership = drivenTargets(['M2', 'M1'], new Map([
+      ['M1', new Set(['A', 'B', 'M1'])],
+      ['M2', new Set(['A', 'C', 'M2'])]
+    ]));
+    expect(membership.get('A')).toEqual(['M2', 'M1']);
+    expect(membership.get('B')).toEqual(['M1']);
+    expect(membership.get('C')).toEqual(['M2']);
+    expect(membership.has('D')).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
 import { analyzeSchedule, analyzeUnconstrained, WorkerInput } from '../src/cpmWorker';
+import { STANDARD_WORK_WEEK, toLocalDayNumber } from '../src/calendar';
 
 describe('schedule-based CPM worker', () => {
   test('calculates zero float for aligned successor', () => {
@@ -77,3 +78,314 @@ describe('schedule-based CPM worker', () => {
     expect(b.violatesConstraints).toBeFalsy();
   });
 });
+
+describe('CPM worker with a working calendar', () => {
+  // Thursday 2 January 2025; times below are days from the start of that day
+  const thursday = toLocalDayNumber(new Date(2025, 0, 2));
+
+  test('counts lag in working days across a weekend', () => {
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 2, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'B', start: 4, finish: 5, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 1 } }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 1 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 1,
+      baseDay: thursday,
+      calendar: { workWeek: STANDARD_WORK_WEEK, holidays: [] }
+    };
+    const b = analyzeSchedule(input).tasks.find(t => t.internalId === 'B')!;
+    expect(b.totalFloat).toBeCloseTo(-1);
+    expect(b.violatesConstraints).toBeTruthy();
+  });
+
+  test('treats a relationship spanning a holiday and weekend as driving', () => {
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 1, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'B', start: 4, finish: 5, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 0 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 1,
+      baseDay: thursday,
+      calendar: { workWeek: STANDARD_WORK_WEEK, holidays: [thursday + 1] }
+    };
+    const result = analyzeSchedule(input);
+    expect(result.relationships[0].isCritical).toBeTruthy();
+    const withoutCalendar = analyzeSchedule({ ...input, calendar: null });
+    expect(withoutCalendar.relationships[0].isCritical).toBeFalsy();
+  });
+
+  test('unconstrained mode skips non-working days', () => {
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 2, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'B', start: 11, finish: 12, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 0 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 1,
+      unconstrainedMode: true,
+      baseDay: thursday,
+      calendar: { workWeek: STANDARD_WORK_WEEK, holidays: [] }
+    };
+    const b = analyzeUnconstrained(input).tasks.find(t => t.internalId === 'B')!;
+    expect(b.earlyStart).toBeCloseTo(4);
+    expect(b.earlyFinish).toBeCloseTo(5);
+    expect(b.totalFloat).toBeCloseTo(0);
+  });
+
+  test('counts lags on the predecessor calendar', () => {
+    // A runs Thursday to Saturday on a 7-day crew; B starts Monday on the project calendar
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 3, predecessorIds: [], relationshipTypes: {}, relationshipLags: {}, calendar: '7-Day' },
+        { internalId: 'B', start: 4, finish: 5, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 1 } }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 1 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 1,
+      baseDay: thursday,
+      calendar: { workWeek: STANDARD_WORK_WEEK, holidays: [] },
+      calendars: { '7-day': { workWeek: [true, true, true, true, true, true, true], holidays: [] } }
+    };
+    const result = analyzeSchedule(input);
+    const a = result.tasks.find(t => t.internalId === 'A')!;
+    const b = result.tasks.find(t => t.internalId === 'B')!;
+    expect(b.violatesConstraints).toBeFalsy();
+    expect(result.relationships[0].isCritical).toBeTruthy();
+    expect(a.isCritical).toBeTruthy();
+
+    const sameCalendar = analyzeSchedule({ ...input, calendars: {} });
+    expect(sameCalendar.tasks.find(t => t.internalId === 'B')!.violatesConstraints).toBeTruthy();
+  });
+});
+
+describe('CPM worker with date constraints', () => {
+  const chain = (overrides: Partial<WorkerInput> = {}): WorkerInput => ({
+    tasks: [
+      { internalId: 'A', start: 0, finish: 2, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+      { internalId: 'B', start: 2, finish: 5, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } }
+    ],
+    relationships: [
+      { predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 0 }
+    ],
+    floatTolerance: 0.01,
+    floatThreshold: 1,
+    ...overrides
+  });
+
+  test('reports a missed finish-no-later-than date', () => {
+    const input = chain();
+    input.tasks[1] = { ...input.tasks[1], constraintType: 'FNLT', constraintDate: 4 };
+    const b = analyzeSchedule(input).tasks.find(t => t.internalId === 'B')!;
+    expect(b.totalFloat).toBeCloseTo(-1);
+    expect(b.violatesConstraints).toBeTruthy();
+    expect(b.violatedConstraint).toBe('FNLT');
+  });
+
+  test('reports broken logic separately from constraints', () => {
+    const input = chain();
+    input.tasks[1] = { ...input.tasks[1], start: 1, finish: 4 };
+    const b = analyzeSchedule(input).tasks.find(t => t.internalId === 'B')!;
+    expect(b.violatedConstraint).toBe('Logic');
+  });
+
+  test('late constraints drive negative float back through predecessors', () => {
+    const input = chain({ unconstrainedMode: true });
+    input.tasks[1] = { ...input.tasks[1], constraintType: 'FNLT', constraintDate: 4 };
+    const result = analyzeUnconstrained(input);
+    const a = result.tasks.find(t => t.internalId === 'A')!;
+    const b = result.tasks.find(t => t.internalId === 'B')!;
+    expect(b.violatedConstraint).toBe('FNLT');
+    expect(a.totalFloat).toBeCloseTo(-1);
+    expect(a.isCritical).toBeTruthy();
+    expect(a.violatesConstraints).toBeFalsy();
+  });
+
+  test('early and mandatory constraints move unconstrained dates', () => {
+    const input = chain({ unconstrainedMode: true });
+    input.tasks[0] = { ...input.tasks[0], constraintType: 'SNET', constraintDate: 3 };
+    input.tasks[1] = { ...input.tasks[1], constraintType: 'MSO', constraintDate: 4 };
+    const result = analyzeUnconstrained(input);
+    const a = result.tasks.find(t => t.internalId === 'A')!;
+    const b = result.tasks.find(t => t.internalId === 'B')!;
+    expect(a.earlyStart).toBeCloseTo(3);
+    expect(b.earlyStart).toBeCloseTo(4);
+    expect(b.violatedConstraint).toBe('MSO');
+    expect(a.totalFloat).toBeCloseTo(-1);
+  });
+
+  test('delays ALAP tasks by their free float', () => {
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 1, predecessorIds: [], relationshipTypes: {}, relationshipLags: {}, constraintType: 'ALAP' },
+        { internalId: 'B', start: 0, finish: 4, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'C', start: 4, finish: 5, predecessorIds: ['A', 'B'], relationshipTypes: { A: 'FS', B: 'FS' }, relationshipLags: { A: 0, B: 0 } }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'C', type: 'FS', freeFloat: null, lag: 0 },
+        { predecessorId: 'B', successorId: 'C', type: 'FS', freeFloat: null, lag: 0 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 1,
+      unconstrainedMode: true
+    };
+    const a = analyzeUnconstrained(input).tasks.find(t => t.internalId === 'A')!;
+    expect(a.earlyStart).toBeCloseTo(3);
+    expect(a.totalFloat).toBeCloseTo(0);
+  });
+});
+
+describe('longest path criticality', () => {
+  test('only the driving chain to the project finish is critical', () => {
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 1, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'B', start: 1, finish: 3, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } },
+        { internalId: 'D', start: 0, finish: 2, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 0 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 1
+    };
+    // Every open end has zero float in schedule-based analysis
+    expect(analyzeSchedule(input).tasks.find(t => t.internalId === 'D')!.isCritical).toBeTruthy();
+
+    const result = analyzeSchedule({ ...input, criticalityMode: 'longestPath' });
+    const critical = result.tasks.filter(t => t.isCritical).map(t => t.internalId);
+    expect(critical.sort()).toEqual(['A', 'B']);
+    expect(result.relationships[0].isCritical).toBeTruthy();
+  });
+
+  test('ignores negative float off the longest path', () => {
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 5, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'B', start: 0, finish: 3, predecessorIds: [], relationshipTypes: {}, relationshipLags: {}, constraintType: 'FNLT', constraintDate: 2 }
+      ],
+      relationships: [],
+      floatTolerance: 0.01,
+      floatThreshold: 1,
+      unconstrainedMode: true,
+      criticalityMode: 'longestPath'
+    };
+    const result = analyzeUnconstrained(input);
+    expect(result.tasks.find(t => t.internalId === 'B')!.totalFloat).toBeCloseTo(-1);
+    expect(result.tasks.find(t => t.internalId === 'B')!.isCritical).toBeFalsy();
+    expect(result.tasks.find(t => t.internalId === 'A')!.isCritical).toBeTruthy();
+  });
+});
+
+describe('free float', () => {
+  const input: WorkerInput = {
+    tasks: [
+      { internalId: 'A', start: 0, finish: 1, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+      { internalId: 'B', start: 0, finish: 3, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+      { internalId: 'C', start: 3, finish: 4, predecessorIds: ['A', 'B'], relationshipTypes: { A: 'FS', B: 'FS' }, relationshipLags: { A: 0, B: 0 } },
+      { internalId: 'D', start: 0, finish: 2, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} }
+    ],
+    relationships: [
+      { predecessorId: 'A', successorId: 'C', type: 'FS', freeFloat: null, lag: 0 },
+      { predecessorId: 'B', successorId: 'C', type: 'FS', freeFloat: null, lag: 0 }
+    ],
+    floatTolerance: 0.01,
+    floatThreshold: 2
+  };
+
+  test('measures slip before any successor is delayed', () => {
+    const result = analyzeSchedule(input);
+    const freeFloat = (id: string) => result.tasks.find(t => t.internalId === id)!.freeFloat;
+    expect(freeFloat('A')).toBeCloseTo(2);
+    expect(freeFloat('B')).toBeCloseTo(0);
+    // Open ends are measured against the project finish
+    expect(freeFloat('D')).toBeCloseTo(2);
+  });
+
+  test('can drive near-critical highlighting', () => {
+    // A feeds E; both have two days of total float but only E has free float
+    const chains: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 1, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'E', start: 1, finish: 2, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } },
+        { internalId: 'B', start: 0, finish: 4, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'E', type: 'FS', freeFloat: null, lag: 0 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 2,
+      unconstrainedMode: true
+    };
+    const nearCritical = (data: WorkerInput) =>
+      analyzeUnconstrained(data).tasks.filter(t => t.isNearCritical).map(t => t.internalId).sort();
+    expect(nearCritical(chains)).toEqual(['A', 'E']);
+    expect(nearCritical({ ...chains, nearCriticalBasis: 'freeFloat' })).toEqual(['E']);
+  });
+});
+
+describe('driving relationships', () => {
+  test('flags links with zero relationship free float', () => {
+    const input: WorkerInput = {
+      tasks: [
+        { internalId: 'A', start: 0, finish: 1, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'B', start: 0, finish: 3, predecessorIds: [], relationshipTypes: {}, relationshipLags: {} },
+        { internalId: 'C', start: 3, finish: 4, predecessorIds: ['A', 'B'], relationshipTypes: { A: 'FS', B: 'FS' }, relationshipLags: { A: 0, B: 0 } }
+      ],
+      relationships: [
+        { predecessorId: 'A', successorId: 'C', type: 'FS', freeFloat: null, lag: 0 },
+        { predecessorId: 'B', successorId: 'C', type: 'FS', freeFloat: null, lag: 0 }
+      ],
+      floatTolerance: 0.01,
+      floatThreshold: 1
+    };
+    for (const result of [analyzeSchedule(input), analyzeUnconstrained({ ...input, unconstrainedMode: true })]) {
+      const driving = (pred: string) => result.relationships.find(r => r.predecessorId === pred)!.isDriving;
+      expect(driving('A')).toBeFalsy();
+      expect(driving('B')).toBeTruthy();
+    }
+  });
+});
+
+describe('progress', () => {
+  const input: WorkerInput = {
+    tasks: [
+      { internalId: 'A', start: 0, finish: 5, predecessorIds: [], relationshipTypes: {}, relationshipLags: {}, actualFinish: 6 },
+      { internalId: 'B', start: 5, finish: 8, predecessorIds: ['A'], relationshipTypes: { A: 'FS' }, relationshipLags: { A: 0 } },
+      { internalId: 'C', start: 0, finish: 10, predecessorIds: [], relationshipTypes: {}, relationshipLags: {}, actualStart: 0, percentComplete: 50 }
+    ],
+    relationships: [
+      { predecessorId: 'A', successorId: 'B', type: 'FS', freeFloat: null, lag: 0 }
+    ],
+    floatTolerance: 0.01,
+    floatThreshold: 1,
+    dataDate: 7
+  };
+
+  test('freezes completed work and schedules remaining work from the data date', () => {
+    for (const result of [analyzeSchedule(input), analyzeUnconstrained({ ...input, unconstrainedMode: true })]) {
+      const task = (id: string) => result.tasks.find(t => t.internalId === id)!;
+      expect(task('A').earlyFinish).toBeCloseTo(6);
+      expect(task('A').totalFloat).toBe(0);
+      expect(task('A').isCritical).toBeFalsy();
+      expect(task('B').earlyStart).toBeCloseTo(7);
+      expect(task('B').earlyFinish).toBeCloseTo(10);
+      // Half of C's ten days remain, counted from the data date
+      expect(task('C').earlyStart).toBeCloseTo(0);
+      expect(task('C').earlyFinish).toBeCloseTo(12);
+      expect(task('C').isCritical).toBeTruthy();
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import { runInNewContext } from 'vm';
+import { CPM_WORKER_SOURCE } from '../src/cpmWorkerSource';
+import { CpmWorkerReply, CpmWorkerRequest } from '../src/cpmWorker';
+
+/**
+ * Starts the packaged worker script in a context of its own, with nothing but
+ * a worker-like `self` and timers, the way the visual's Blob worker runs it.
+ * Replies are collected; `send` posts requests to it.
+ */
+export function startWorkerScript() {
+  const replies: CpmWorkerReply[] = [];
+  let settle: () => void = () => undefined;
+  const settled = new Promise<void>(resolve => { settle = resolve; });
+  const self = {
+    onmessage: null as ((event: { data: CpmWorkerRequest }) => void) | null,
+    postMessage(reply: CpmWorkerReply) {
+      replies.push(reply);
+      if (reply.type !== 'progress') settle();
+    }
+  };
+  runInNewContext(CPM_WORKER_SOURCE, { self, setTimeout });
+  const send = (request: CpmWorkerRequest) => self.onmessage!({ data: request });
+  return { replies, settled, send };
+}